@@ -0,0 +1,66 @@
+/**
+ * Headless autoH backtest.
+ *
+ * Usage:
+ *   npm run backtest -- <fixture.json | fixtures-dir>... [--horizons=6,24] [--step=1]
+ *                       [--h=0.40:0.80:0.05] [--min-samples=20] [--json]
+ *
+ * Fixtures are recorded with "Export fixture" in the History Replay panel.
+ */
+import { readFileSync, readdirSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  DEFAULT_BACKTEST_OPTIONS,
+  formatBacktestReport,
+  runBacktest,
+  type BacktestFixture,
+  type BacktestOptions,
+} from '../src/pricing/backtest';
+
+function parseRange(spec: string): number[] {
+  const [start, end, step] = spec.split(':').map(Number);
+  if ([start, end, step].some(isNaN) || step <= 0) {
+    throw new Error(`Invalid H range "${spec}" — expected start:end:step`);
+  }
+  const values: number[] = [];
+  for (let h = start; h <= end + 1e-9; h += step) values.push(Math.round(h * 1000) / 1000);
+  return values;
+}
+
+function collectFixturePaths(target: string): string[] {
+  if (statSync(target).isDirectory()) {
+    return readdirSync(target)
+      .filter((name) => name.endsWith('.json'))
+      .map((name) => join(target, name));
+  }
+  return [target];
+}
+
+function main(argv: string[]): void {
+  const options: BacktestOptions = { ...DEFAULT_BACKTEST_OPTIONS };
+  const targets: string[] = [];
+  let asJson = false;
+
+  for (const arg of argv) {
+    if (arg === '--json') asJson = true;
+    else if (arg.startsWith('--horizons=')) options.horizonsHours = arg.slice(11).split(',').map(Number);
+    else if (arg.startsWith('--step=')) options.stepHours = Number(arg.slice(7));
+    else if (arg.startsWith('--h=')) options.hCandidates = parseRange(arg.slice(4));
+    else if (arg.startsWith('--min-samples=')) options.minSamples = Number(arg.slice(14));
+    else targets.push(arg);
+  }
+
+  if (targets.length === 0) {
+    console.error('Usage: npm run backtest -- <fixture.json | dir>... [--horizons=6,24] [--step=1] [--h=0.40:0.80:0.05] [--json]');
+    process.exit(1);
+  }
+
+  const fixtures: BacktestFixture[] = targets
+    .flatMap(collectFixturePaths)
+    .map((path) => JSON.parse(readFileSync(path, 'utf8')) as BacktestFixture);
+
+  const reports = runBacktest(fixtures, options);
+  console.log(asJson ? JSON.stringify(reports, null, 2) : formatBacktestReport(reports));
+}
+
+main(process.argv.slice(2));
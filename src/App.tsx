@@ -1,41 +1,87 @@
-import { useState, useCallback } from 'react';
-import { ThemeProvider, CssBaseline, Box, IconButton } from '@mui/material';
+import { useState, useCallback, useEffect } from 'react';
+import { ThemeProvider, CssBaseline, Box, CircularProgress, IconButton, Typography } from '@mui/material';
 import { DarkMode, LightMode } from '@mui/icons-material';
 import { darkTheme, lightTheme } from './theme';
 import { FirstScreen } from './components/FirstScreen';
 import { SecondScreen } from './components/SecondScreen';
-import type { CryptoOption, OptionType, ParsedMarket, PolymarketEvent } from './types';
+import { loadEvent } from './api/polymarket';
+import { decodeChartState, replaceHash } from './api/share';
+import { strategyChartState } from './api/strategies';
+import type { ChartState, LoadedEvent, Strategy } from './types';
 
 type Screen = 'first' | 'second';
 
 interface AppState {
-  event: PolymarketEvent | null;
-  markets: ParsedMarket[];
-  crypto: CryptoOption | null;
-  optionType: OptionType;
+  events: LoadedEvent[]; // First = primary event; the rest are linked events on the same underlying
+  restored: ChartState | null; // State from a shared link, applied when the chart screen mounts
+  session: number; // Bumped on every navigation so the chart screen remounts with fresh state
 }
 
 function App() {
+  // A chart link opens straight into the chart once its events are fetched
+  const [restoring, setRestoring] = useState(() => decodeChartState(window.location.hash) !== null);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
   const [screen, setScreen] = useState<Screen>('first');
   const [isDark, setIsDark] = useState(true);
-  const [appState, setAppState] = useState<AppState>({
-    event: null,
-    markets: [],
-    crypto: null,
-    optionType: 'above',
-  });
+  const [appState, setAppState] = useState<AppState>({ events: [], restored: null, session: 0 });
 
-  const handleNavigateToChart = useCallback(
-    (event: PolymarketEvent, markets: ParsedMarket[], crypto: CryptoOption | null, optionType: OptionType) => {
-      setAppState({ event, markets, crypto, optionType });
-      setScreen('second');
-    },
-    []
-  );
+  const restore = useCallback((state: ChartState) => {
+    Promise.all(state.slugs.map(loadEvent))
+      .then(([primary, ...linked]) => {
+        if (!primary.crypto) throw new Error('could not detect the cryptocurrency of the event.');
+        const events = [primary, ...linked.filter((e) => e.crypto === primary.crypto)];
+        setAppState((prev) => ({ events, restored: state, session: prev.session + 1 }));
+        setRestoreError(null);
+        setScreen('second');
+      })
+      .catch((err) => {
+        console.error('Failed to restore chart state:', err);
+        setRestoreError(err instanceof Error ? `Could not open the chart: ${err.message}` : 'Could not open the chart.');
+        setScreen('first');
+        replaceHash('');
+      })
+      .finally(() => setRestoring(false));
+  }, []);
+
+  // Restore on load, and again when a chart link is pasted into this tab
+  useEffect(() => {
+    const initial = decodeChartState(window.location.hash);
+    if (initial) restore(initial);
+
+    const handleHashChange = () => {
+      const state = decodeChartState(window.location.hash);
+      if (!state) return;
+      setRestoring(true);
+      restore(state);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [restore]);
+
+  const handleOpenStrategy = useCallback((strategy: Strategy) => {
+    setRestoring(true);
+    restore(strategyChartState(strategy));
+  }, [restore]);
+
+  const handleNavigateToChart = useCallback((loaded: LoadedEvent) => {
+    setAppState((prev) => ({ events: [loaded], restored: null, session: prev.session + 1 }));
+    setRestoreError(null);
+    setScreen('second');
+  }, []);
+
+  const handleAddEvent = useCallback((loaded: LoadedEvent) => {
+    setAppState((prev) => ({ ...prev, events: [...prev.events, loaded] }));
+  }, []);
+
+  const handleRemoveEvent = useCallback((eventId: string) => {
+    // The primary event stays — going back is how it is replaced
+    setAppState((prev) => ({ ...prev, events: prev.events.filter((e, i) => i === 0 || e.event.id !== eventId) }));
+  }, []);
 
   const handleBack = useCallback(() => {
     setScreen('first');
-    setAppState({ event: null, markets: [], crypto: null, optionType: 'above' });
+    setAppState((prev) => ({ events: [], restored: null, session: prev.session }));
+    replaceHash('');
   }, []);
 
   return (
@@ -66,15 +112,23 @@ function App() {
           {isDark ? <LightMode /> : <DarkMode />}
         </IconButton>
 
-        {screen === 'first' && (
-          <FirstScreen onNavigateToChart={handleNavigateToChart} />
-        )}
-        {screen === 'second' && appState.event && (
+        {restoring ? (
+          <Box sx={{ minHeight: '100vh', display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', gap: 2 }}>
+            <CircularProgress />
+            <Typography variant="body2" color="text.secondary">
+              Loading events…
+            </Typography>
+          </Box>
+        ) : screen === 'first' ? (
+          <FirstScreen onNavigateToChart={handleNavigateToChart} onOpenStrategy={handleOpenStrategy} initialError={restoreError} />
+        ) : null}
+        {!restoring && screen === 'second' && appState.events.length > 0 && (
           <SecondScreen
-            event={appState.event}
-            markets={appState.markets}
-            crypto={appState.crypto}
-            optionType={appState.optionType}
+            key={appState.session}
+            events={appState.events}
+            initialState={appState.restored}
+            onAddEvent={handleAddEvent}
+            onRemoveEvent={handleRemoveEvent}
             onBack={handleBack}
           />
         )}
@@ -1,7 +1,14 @@
 import axios from 'axios';
-import type { CryptoOption } from '../types';
+import type { Candle, CandleInterval, CryptoOption } from '../types';
+import type { SpotPriceProvider } from './spot';
+import { API_CONFIG } from './config';
 
-const BINANCE_API_BASE = 'https://api.binance.com/api/v3';
+// Proxied through the worker — api.binance.com is geo-blocked in some regions
+const BINANCE_API_BASE = `${API_CONFIG.BINANCE_API_BASE}/api/v3`;
+// The trade stream is NOT proxied: the worker only forwards REST, so the socket
+// connects to Binance directly. Where Binance is geo-blocked it fails to open, and
+// subscribeSpot falls back to REST polling (through the worker) after three failures.
+const BINANCE_WS_BASE = 'wss://stream.binance.com:9443/ws';
 
 const CRYPTO_SYMBOLS: Record<CryptoOption, string> = {
   BTC: 'BTCUSDT',
@@ -10,6 +17,8 @@ const CRYPTO_SYMBOLS: Record<CryptoOption, string> = {
   XRP: 'XRPUSDT',
 };
 
+const KLINE_LIMIT = 1000;
+
 /** Fetch current spot price for a crypto asset */
 export async function fetchCurrentPrice(crypto: CryptoOption): Promise<number> {
   const symbol = CRYPTO_SYMBOLS[crypto];
@@ -18,3 +27,54 @@ export async function fetchCurrentPrice(crypto: CryptoOption): Promise<number> {
   });
   return parseFloat(response.data.price);
 }
+
+/**
+ * Fetch spot candles between two Unix timestamps (seconds), paging through
+ * Binance's 1000-candle limit. Candles are sorted by open time.
+ */
+export async function fetchKlines(
+  crypto: CryptoOption,
+  interval: CandleInterval,
+  startTs: number,
+  endTs: number
+): Promise<Candle[]> {
+  const symbol = CRYPTO_SYMBOLS[crypto];
+  const candles: Candle[] = [];
+  let cursorMs = startTs * 1000;
+  const endMs = endTs * 1000;
+
+  while (cursorMs < endMs) {
+    const response = await axios.get<(string | number)[][]>(`${BINANCE_API_BASE}/klines`, {
+      params: { symbol, interval, startTime: cursorMs, endTime: endMs, limit: KLINE_LIMIT },
+    });
+    const rows = response.data;
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      candles.push({
+        t: Math.floor(Number(row[0]) / 1000),
+        open: parseFloat(String(row[1])),
+        high: parseFloat(String(row[2])),
+        low: parseFloat(String(row[3])),
+        close: parseFloat(String(row[4])),
+      });
+    }
+
+    if (rows.length < KLINE_LIMIT) break;
+    // Next page starts one ms after the last candle's open time
+    cursorMs = Number(rows[rows.length - 1][0]) + 1;
+  }
+
+  return candles;
+}
+
+export const binanceSpotProvider: SpotPriceProvider = {
+  id: 'binance',
+  label: 'Binance',
+  fetchPrice: fetchCurrentPrice,
+  streamUrl: (crypto) => `${BINANCE_WS_BASE}/${CRYPTO_SYMBOLS[crypto].toLowerCase()}@trade`,
+  parseMessage: (data) => {
+    const price = parseFloat((data as { p?: string }).p ?? '');
+    return isNaN(price) ? null : price;
+  },
+};
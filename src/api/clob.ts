@@ -0,0 +1,123 @@
+import axios from 'axios';
+import type { OrderBookLevel, OrderBookQuote, ParsedMarket, PriceHistory, PriceHistoryInterval, PricePoint, Side } from '../types';
+import { API_CONFIG } from './config';
+
+const { CLOB_API_BASE } = API_CONFIG;
+
+interface RawOrderBook {
+  asset_id: string;
+  bids: { price: string; size: string }[];
+  asks: { price: string; size: string }[];
+}
+
+function parseLevels(levels: RawOrderBook['bids'] | undefined): OrderBookLevel[] {
+  return (levels || [])
+    .map((level) => ({ price: parseFloat(level.price), size: parseFloat(level.size) }))
+    .filter((level) => !isNaN(level.price) && !isNaN(level.size) && level.size > 0);
+}
+
+/** Summarise raw CLOB levels into best bid/ask, mid and depth */
+export function summarizeBook(bids: OrderBookLevel[], asks: OrderBookLevel[]): OrderBookQuote {
+  const sortedBids = [...bids].sort((a, b) => b.price - a.price);
+  const sortedAsks = [...asks].sort((a, b) => a.price - b.price);
+  const bestBid = sortedBids.length > 0 ? sortedBids[0].price : null;
+  const bestAsk = sortedAsks.length > 0 ? sortedAsks[0].price : null;
+  const mid = bestBid !== null && bestAsk !== null ? (bestBid + bestAsk) / 2 : null;
+
+  return {
+    bids: sortedBids,
+    asks: sortedAsks,
+    bestBid,
+    bestAsk,
+    mid,
+    bidDepth: sortedBids.reduce((sum, l) => sum + l.size, 0),
+    askDepth: sortedAsks.reduce((sum, l) => sum + l.size, 0),
+  };
+}
+
+/** Fetch the CLOB order book for a single outcome token */
+export async function fetchOrderBook(tokenId: string): Promise<OrderBookQuote> {
+  const response = await axios.get<RawOrderBook>(`${CLOB_API_BASE}/book`, {
+    params: { token_id: tokenId },
+  });
+  return summarizeBook(parseLevels(response.data.bids), parseLevels(response.data.asks));
+}
+
+async function fetchOrderBookSafe(tokenId: string | undefined): Promise<OrderBookQuote | null> {
+  if (!tokenId) return null;
+  try {
+    return await fetchOrderBook(tokenId);
+  } catch (err) {
+    console.warn(`[CLOB] Failed to fetch book for ${tokenId}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Attach YES/NO order books to parsed markets.
+ * When the YES book has both sides, its mid replaces the Gamma outcomePrices snapshot
+ * as currentPrice. Markets whose books fail to load keep the Gamma price.
+ */
+export async function attachOrderBooks(markets: ParsedMarket[]): Promise<ParsedMarket[]> {
+  return Promise.all(
+    markets.map(async (market) => {
+      const [yesBook, noBook] = await Promise.all([
+        fetchOrderBookSafe(market.yesTokenId),
+        fetchOrderBookSafe(market.noTokenId),
+      ]);
+      return {
+        ...market,
+        yesBook,
+        noBook,
+        currentPrice: yesBook?.mid ?? market.currentPrice,
+      };
+    })
+  );
+}
+
+export interface SideQuote {
+  bid: number;
+  ask: number;
+  mid: number;
+}
+
+/**
+ * Executable quote for one side of a market.
+ * Prefers that side's own book, then the complement of the opposite book
+ * (NO ask = 1 − YES bid), then the mid price with zero spread.
+ */
+export function sideQuote(market: ParsedMarket, side: Side): SideQuote {
+  const own = side === 'YES' ? market.yesBook : market.noBook;
+  const other = side === 'YES' ? market.noBook : market.yesBook;
+  const mid = side === 'YES' ? market.currentPrice : 1 - market.currentPrice;
+
+  const bid = own?.bestBid ?? (other?.bestAsk != null ? 1 - other.bestAsk : mid);
+  const ask = own?.bestAsk ?? (other?.bestBid != null ? 1 - other.bestBid : mid);
+  return { bid: Math.min(bid, mid), ask: Math.max(ask, mid), mid };
+}
+
+export interface PriceHistoryOptions {
+  interval?: PriceHistoryInterval; // Lookback window ending now (ignored when startTs is set)
+  fidelity?: number; // Resolution in minutes
+  startTs?: number; // Unix timestamp (seconds)
+  endTs?: number; // Unix timestamp (seconds)
+}
+
+/** Fetch the CLOB price history of an outcome token, sorted by time */
+export async function fetchPriceHistory(
+  tokenId: string,
+  { interval = '1d', fidelity = 60, startTs, endTs }: PriceHistoryOptions = {}
+): Promise<PricePoint[]> {
+  const params: Record<string, string | number> = { market: tokenId, fidelity };
+  if (startTs !== undefined) {
+    params.startTs = startTs;
+    if (endTs !== undefined) params.endTs = endTs;
+  } else {
+    params.interval = interval;
+  }
+
+  const response = await axios.get<PriceHistory>(`${CLOB_API_BASE}/prices-history`, { params });
+  return (response.data.history || [])
+    .filter((point) => !isNaN(point.p))
+    .sort((a, b) => a.t - b.t);
+}
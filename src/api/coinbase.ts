@@ -0,0 +1,38 @@
+import axios from 'axios';
+import type { CryptoOption } from '../types';
+import type { SpotPriceProvider } from './spot';
+import { API_CONFIG } from './config';
+
+const { COINBASE_API_BASE } = API_CONFIG;
+const COINBASE_WS_URL = 'wss://ws-feed.exchange.coinbase.com';
+
+const PRODUCT_IDS: Record<CryptoOption, string> = {
+  BTC: 'BTC-USD',
+  ETH: 'ETH-USD',
+  SOL: 'SOL-USD',
+  XRP: 'XRP-USD',
+};
+
+/** Fetch current spot price from the Coinbase Exchange ticker */
+export async function fetchCoinbasePrice(crypto: CryptoOption): Promise<number> {
+  const response = await axios.get(`${COINBASE_API_BASE}/products/${PRODUCT_IDS[crypto]}/ticker`);
+  return parseFloat(response.data.price);
+}
+
+export const coinbaseSpotProvider: SpotPriceProvider = {
+  id: 'coinbase',
+  label: 'Coinbase',
+  fetchPrice: fetchCoinbasePrice,
+  streamUrl: () => COINBASE_WS_URL,
+  subscribeMessage: (crypto) => JSON.stringify({
+    type: 'subscribe',
+    product_ids: [PRODUCT_IDS[crypto]],
+    channels: ['ticker'],
+  }),
+  parseMessage: (data) => {
+    const msg = data as { type?: string; price?: string };
+    if (msg.type !== 'ticker') return null;
+    const price = parseFloat(msg.price ?? '');
+    return isNaN(price) ? null : price;
+  },
+};
@@ -15,6 +15,10 @@ const WORKER_URL = import.meta.env.VITE_WORKER_URL || '';
 export const API_CONFIG = {
   GAMMA_API_BASE: isDev ? '/api/gamma' : `${WORKER_URL}/api/gamma`,
   CLOB_API_BASE: isDev ? '/api/clob' : `${WORKER_URL}/api/clob`,
+  DATA_API_BASE: isDev ? '/api/data' : `${WORKER_URL}/api/data`,
+  BINANCE_API_BASE: isDev ? '/api/binance' : `${WORKER_URL}/api/binance`,
+  COINBASE_API_BASE: isDev ? '/api/coinbase' : `${WORKER_URL}/api/coinbase`,
+  KRAKEN_API_BASE: isDev ? '/api/kraken' : `${WORKER_URL}/api/kraken`,
 };
 
 // Для отладки
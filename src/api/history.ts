@@ -0,0 +1,55 @@
+import type { Candle, CandleInterval, CryptoOption, ParsedMarket, PricePoint } from '../types';
+import { fetchPriceHistory } from './clob';
+import { fetchKlines } from './binance';
+
+export interface EventHistory {
+  startTs: number;
+  endTs: number;
+  stepSec: number; // Sampling step shared by price histories and candles
+  histories: Record<string, PricePoint[]>; // YES price history per market id
+  candles: Candle[];
+}
+
+// Sampling resolution by replay span — keeps each series at a few hundred to ~2000 points
+function resolutionFor(spanSec: number): { fidelity: number; candleInterval: CandleInterval } {
+  const days = spanSec / 86400;
+  if (days <= 2) return { fidelity: 5, candleInterval: '5m' };
+  if (days <= 10) return { fidelity: 15, candleInterval: '15m' };
+  if (days <= 45) return { fidelity: 60, candleInterval: '1h' };
+  return { fidelity: 240, candleInterval: '4h' };
+}
+
+/**
+ * Fetch everything needed to replay an event: CLOB YES price history for every
+ * market plus Binance candles over the same window. Markets whose history fails
+ * to load are left out rather than failing the whole replay.
+ */
+export async function fetchEventHistory(
+  markets: ParsedMarket[],
+  crypto: CryptoOption,
+  startTs: number,
+  endTs: number
+): Promise<EventHistory> {
+  const { fidelity, candleInterval } = resolutionFor(endTs - startTs);
+
+  const [candles, series] = await Promise.all([
+    fetchKlines(crypto, candleInterval, startTs, endTs),
+    Promise.all(
+      markets.map((market) =>
+        market.yesTokenId
+          ? fetchPriceHistory(market.yesTokenId, { startTs, endTs, fidelity }).catch((err) => {
+              console.warn(`Failed to fetch price history for ${market.id}:`, err);
+              return [] as PricePoint[];
+            })
+          : Promise.resolve([] as PricePoint[])
+      )
+    ),
+  ]);
+
+  const histories: Record<string, PricePoint[]> = {};
+  markets.forEach((market, i) => {
+    histories[market.id] = series[i];
+  });
+
+  return { startTs, endTs, stepSec: fidelity * 60, histories, candles };
+}
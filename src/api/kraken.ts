@@ -0,0 +1,51 @@
+import axios from 'axios';
+import type { CryptoOption } from '../types';
+import type { SpotPriceProvider } from './spot';
+import { API_CONFIG } from './config';
+
+const { KRAKEN_API_BASE } = API_CONFIG;
+const KRAKEN_WS_URL = 'wss://ws.kraken.com/v2';
+
+// REST uses legacy pair names (XBT for bitcoin); WebSocket v2 uses BASE/QUOTE
+const REST_PAIRS: Record<CryptoOption, string> = {
+  BTC: 'XBTUSD',
+  ETH: 'ETHUSD',
+  SOL: 'SOLUSD',
+  XRP: 'XRPUSD',
+};
+
+const WS_SYMBOLS: Record<CryptoOption, string> = {
+  BTC: 'BTC/USD',
+  ETH: 'ETH/USD',
+  SOL: 'SOL/USD',
+  XRP: 'XRP/USD',
+};
+
+/** Fetch current spot price (last trade) from the Kraken ticker */
+export async function fetchKrakenPrice(crypto: CryptoOption): Promise<number> {
+  const response = await axios.get(`${KRAKEN_API_BASE}/0/public/Ticker`, {
+    params: { pair: REST_PAIRS[crypto] },
+  });
+  const { error, result } = response.data as { error: string[]; result: Record<string, { c: string[] }> };
+  if (error?.length) throw new Error(`Kraken: ${error.join(', ')}`);
+  // Result is keyed by Kraken's internal pair name (e.g. XXBTZUSD) — take the only entry
+  const ticker = Object.values(result)[0];
+  return parseFloat(ticker.c[0]);
+}
+
+export const krakenSpotProvider: SpotPriceProvider = {
+  id: 'kraken',
+  label: 'Kraken',
+  fetchPrice: fetchKrakenPrice,
+  streamUrl: () => KRAKEN_WS_URL,
+  subscribeMessage: (crypto) => JSON.stringify({
+    method: 'subscribe',
+    params: { channel: 'ticker', symbol: [WS_SYMBOLS[crypto]] },
+  }),
+  parseMessage: (data) => {
+    const msg = data as { channel?: string; data?: { last?: number }[] };
+    if (msg.channel !== 'ticker' || !msg.data?.length) return null;
+    const price = msg.data[0].last;
+    return typeof price === 'number' ? price : null;
+  },
+};
@@ -1,6 +1,7 @@
 import axios from 'axios';
-import type { PolymarketEvent, ParsedMarket, CryptoOption, OptionType } from '../types';
+import type { PolymarketEvent, ParsedMarket, CryptoOption, OptionType, LoadedEvent } from '../types';
 import { API_CONFIG } from './config';
+import { attachOrderBooks } from './clob';
 
 const { GAMMA_API_BASE } = API_CONFIG;
 
@@ -68,6 +69,8 @@ export function parseMarkets(markets: PolymarketEvent['markets']): ParsedMarket[
       noTokenId: tokenIds[1],
       currentPrice,
       strikePrice: parseStrikePrice(market.groupItemTitle || ''),
+      yesBook: null,
+      noBook: null,
     };
   });
 }
@@ -116,6 +119,13 @@ export function detectOptionType(event: PolymarketEvent): OptionType {
   return 'above';
 }
 
+/** Fetch an event with its order books and detect its underlying and option type */
+export async function loadEvent(slug: string): Promise<LoadedEvent> {
+  const event = await fetchEventBySlug(slug);
+  const markets = await attachOrderBooks(parseMarkets(event.markets));
+  return { event, markets, crypto: detectCrypto(event), optionType: detectOptionType(event) };
+}
+
 export function extractSlugFromUrl(url: string): string | null {
   const regex = /^https?:\/\/(?:www\.)?polymarket\.com\/event\/([a-zA-Z0-9-]+)\/?.*$/;
   const match = url.match(regex);
@@ -0,0 +1,72 @@
+import axios from 'axios';
+import type { HeldPosition, ParsedMarket } from '../types';
+import { API_CONFIG } from './config';
+
+const { DATA_API_BASE } = API_CONFIG;
+
+const PAGE_SIZE = 500;
+const DUST_SHARES = 0.01; // Positions smaller than this are ignored
+
+/** Position as returned by the Polymarket data API (fields we use) */
+interface RawPosition {
+  proxyWallet: string;
+  asset: string; // Outcome token id
+  conditionId: string;
+  size: number;
+  avgPrice: number;
+  curPrice: number;
+  outcome: string; // "Yes" / "No"
+  title: string;
+}
+
+/** Polygon proxy-wallet address: 0x followed by 40 hex digits */
+export function isWalletAddress(address: string): boolean {
+  return /^0x[0-9a-fA-F]{40}$/.test(address.trim());
+}
+
+/** Fetch every open position of a proxy wallet across all markets (paginated) */
+export async function fetchWalletPositions(address: string, pageSize: number = PAGE_SIZE): Promise<RawPosition[]> {
+  const positions: RawPosition[] = [];
+  for (let offset = 0; ; offset += pageSize) {
+    const response = await axios.get<RawPosition[]>(`${DATA_API_BASE}/positions`, {
+      params: { user: address.trim(), sizeThreshold: 0, limit: pageSize, offset },
+    });
+    positions.push(...response.data);
+    if (response.data.length < pageSize) break;
+  }
+  return positions;
+}
+
+/**
+ * Map data-API positions onto the event's markets by outcome token id. Positions in
+ * other events and dust are dropped; each token held becomes one long HeldPosition
+ * at the wallet's average entry price.
+ */
+export function toHeldPositions(positions: RawPosition[], markets: ParsedMarket[]): HeldPosition[] {
+  const held: HeldPosition[] = [];
+  for (const position of positions) {
+    if (!(position.size >= DUST_SHARES)) continue;
+    const market = markets.find((m) => m.yesTokenId === position.asset || m.noTokenId === position.asset);
+    if (!market) continue;
+    held.push({
+      id: `wallet-${position.asset}`,
+      marketId: market.id,
+      side: market.yesTokenId === position.asset ? 'YES' : 'NO',
+      quantity: position.size,
+      avgPrice: position.avgPrice,
+    });
+  }
+  return held;
+}
+
+/** Load the positions a wallet holds in the given event's markets */
+export async function importWalletPositions(
+  address: string,
+  markets: ParsedMarket[],
+  pageSize: number = PAGE_SIZE
+): Promise<HeldPosition[]> {
+  if (!isWalletAddress(address)) {
+    throw new Error('Enter a Polygon proxy-wallet address (0x followed by 40 hex characters)');
+  }
+  return toHeldPositions(await fetchWalletPositions(address, pageSize), markets);
+}
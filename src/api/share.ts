@@ -0,0 +1,122 @@
+import type { ChartState, Horizon, LegSize, SmileDynamics } from '../types';
+import { DEFAULT_SMILE_MODEL, SMILE_DYNAMICS_LABELS } from '../pricing/engine';
+
+// Bumped when the link format changes incompatibly; older links are ignored
+const LINK_VERSION = '1';
+const CHART_ROUTE = '#/chart';
+
+// Compact horizon tokens: now, exp, f0.5, +6, -1, @1760976000
+function encodeHorizon(horizon: Horizon): string {
+  switch (horizon.kind) {
+    case 'now': return 'now';
+    case 'expiry': return 'exp';
+    case 'fraction': return `f${horizon.elapsed}`; // Full precision so 1/3 still reads as a third
+    case 'offset': return `+${horizon.hours}`;
+    case 'beforeExpiry': return `-${horizon.hours}`;
+    case 'absolute': return `@${horizon.ts}`;
+  }
+}
+
+function decodeHorizon(token: string): Horizon | null {
+  if (token === 'now') return { kind: 'now' };
+  if (token === 'exp') return { kind: 'expiry' };
+  const value = Number(token.slice(1));
+  if (token.length < 2 || !isFinite(value)) return null;
+  switch (token[0]) {
+    case 'f': return value > 0 && value < 1 ? { kind: 'fraction', elapsed: value } : null;
+    case '+': return value >= 0 ? { kind: 'offset', hours: value } : null;
+    case '-': return value >= 0 ? { kind: 'beforeExpiry', hours: value } : null;
+    case '@': return value > 0 ? { kind: 'absolute', ts: Math.round(value) } : null;
+    default: return null;
+  }
+}
+
+// Leg tokens: marketId-SIDE, then *shares or *notionalu when the size is not the default
+function encodeLeg(key: string, size?: LegSize): string {
+  if (!size) return key;
+  return `${key}*${size.value}${size.mode === 'usd' ? 'u' : ''}`;
+}
+
+function decodeLeg(token: string): { key: string; size?: LegSize } | null {
+  const match = token.match(/^([^*\s]+-(?:YES|NO))(?:\*(-?[\d.]+)(u?))?$/);
+  if (!match) return null;
+  const [, key, value, usd] = match;
+  if (value === undefined) return { key };
+  const n = Number(value);
+  return isFinite(n) ? { key, size: { mode: usd ? 'usd' : 'shares', value: n } } : null;
+}
+
+// Entry price tokens: marketId-SIDE@price, for legs reopened at a recorded fill
+function decodeEntryPrice(token: string): [string, number] | null {
+  const match = token.match(/^([^@\s]+-(?:YES|NO))@([\d.]+)$/);
+  if (!match) return null;
+  const price = Number(match[2]);
+  return price > 0 && price < 1 ? [match[1], price] : null;
+}
+
+/** URL hash for the chart screen in the given state, e.g. `#/chart?v=1&e=btc-above-oct-20&s=123-YES*5` */
+export function encodeChartState(state: ChartState): string {
+  const params = new URLSearchParams({ v: LINK_VERSION });
+  for (const slug of state.slugs) params.append('e', slug);
+  for (const key of state.selections) params.append('s', encodeLeg(key, state.legSizes[key]));
+  for (const [key, shares] of Object.entries(state.linkedLegs)) params.append('l', encodeLeg(key, { mode: 'shares', value: shares }));
+  for (const [key, price] of Object.entries(state.entryPrices ?? {})) params.append('p', `${key}@${price}`);
+  if (state.priceRange) {
+    params.set('lo', String(state.priceRange[0]));
+    params.set('hi', String(state.priceRange[1]));
+  }
+  if (state.hDelta !== 0) params.set('h', String(state.hDelta));
+  for (const horizon of state.horizons) params.append('t', encodeHorizon(horizon));
+  if (state.smileDynamics !== DEFAULT_SMILE_MODEL.dynamics) params.set('d', state.smileDynamics);
+  if (state.volShift !== 0) params.set('vs', String(state.volShift));
+  return `${CHART_ROUTE}?${params.toString()}`;
+}
+
+/**
+ * Chart state from a URL hash, or null when the hash is not a chart link. Malformed
+ * legs and horizons are dropped rather than failing the whole link; a link without
+ * horizons gets none, so the caller falls back to its defaults.
+ */
+export function decodeChartState(hash: string): ChartState | null {
+  if (!hash.startsWith(`${CHART_ROUTE}?`)) return null;
+  const params = new URLSearchParams(hash.slice(CHART_ROUTE.length + 1));
+  if (params.get('v') !== LINK_VERSION) return null;
+  const slugs = params.getAll('e').filter((slug) => /^[a-zA-Z0-9-]+$/.test(slug));
+  if (slugs.length === 0) return null;
+
+  const selections: string[] = [];
+  const legSizes: Record<string, LegSize> = {};
+  for (const leg of params.getAll('s').map(decodeLeg)) {
+    if (!leg) continue;
+    selections.push(leg.key);
+    if (leg.size) legSizes[leg.key] = leg.size;
+  }
+  const linkedLegs: Record<string, number> = {};
+  for (const leg of params.getAll('l').map(decodeLeg)) {
+    if (leg?.size && leg.size.value !== 0) linkedLegs[leg.key] = leg.size.value;
+  }
+  const entryPrices = Object.fromEntries(params.getAll('p').map(decodeEntryPrice).filter((e): e is [string, number] => e !== null));
+
+  const lo = Number(params.get('lo'));
+  const hi = Number(params.get('hi'));
+  const hDelta = Number(params.get('h') ?? 0);
+  const dynamics = params.get('d');
+  const volShift = Number(params.get('vs') ?? 0);
+  return {
+    slugs,
+    selections,
+    legSizes,
+    linkedLegs,
+    entryPrices,
+    priceRange: params.has('lo') && params.has('hi') && lo > 0 && hi > lo ? [lo, hi] : null,
+    hDelta: isFinite(hDelta) ? Math.min(0.2, Math.max(-0.2, hDelta)) : 0,
+    horizons: params.getAll('t').map(decodeHorizon).filter((h): h is Horizon => h !== null),
+    smileDynamics: dynamics !== null && dynamics in SMILE_DYNAMICS_LABELS ? (dynamics as SmileDynamics) : DEFAULT_SMILE_MODEL.dynamics,
+    volShift: isFinite(volShift) ? Math.min(0.2, Math.max(-0.2, volShift)) : 0,
+  };
+}
+
+/** Replace the current URL's hash without adding a history entry or firing hashchange */
+export function replaceHash(hash: string): void {
+  window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}${hash}`);
+}
@@ -0,0 +1,234 @@
+import type { CryptoOption, PolymarketEvent, SpotSource } from '../types';
+import { binanceSpotProvider } from './binance';
+import { coinbaseSpotProvider } from './coinbase';
+import { krakenSpotProvider } from './kraken';
+
+/** A spot price venue: REST snapshot plus a WebSocket ticker feed */
+export interface SpotPriceProvider {
+  id: SpotSource;
+  label: string;
+  fetchPrice: (crypto: CryptoOption) => Promise<number>;
+  streamUrl: (crypto: CryptoOption) => string;
+  subscribeMessage?: (crypto: CryptoOption) => string; // Sent once the socket opens
+  parseMessage: (data: unknown) => number | null; // Price from a socket message, null to ignore
+}
+
+export const SPOT_PROVIDERS: Record<SpotSource, SpotPriceProvider> = {
+  binance: binanceSpotProvider,
+  coinbase: coinbaseSpotProvider,
+  kraken: krakenSpotProvider,
+};
+
+export const SPOT_SOURCES: SpotSource[] = ['binance', 'coinbase', 'kraken'];
+
+export type SpotStreamStatus = 'connecting' | 'live' | 'reconnecting' | 'polling' | 'failed';
+
+export interface SpotStreamOptions {
+  throttleMs?: number; // Minimum spacing between onPrice calls
+  pollIntervalMs?: number; // REST polling interval while the socket is down
+  maxBackoffMs?: number; // Cap on the reconnect delay
+  pollAfterFailures?: number; // Consecutive socket failures before falling back to REST
+  failoverAfterPollFailures?: number; // Consecutive REST failures before moving to the next provider
+  failAfterMs?: number; // Time without a first price before reporting 'failed'
+}
+
+/** Detect which venue an event resolves against from its resolution source or description */
+export function detectSpotSource(event: PolymarketEvent): SpotSource {
+  const text = [
+    event.resolutionSource,
+    ...event.markets.map((m) => m.resolutionSource),
+    event.description,
+  ].join(' ').toLowerCase();
+
+  if (text.includes('coinbase')) return 'coinbase';
+  if (text.includes('kraken')) return 'kraken';
+  return 'binance';
+}
+
+/** Preferred provider first, then the rest in default order */
+export function failoverOrder(preferred: SpotSource): SpotSource[] {
+  return [preferred, ...SPOT_SOURCES.filter((s) => s !== preferred)];
+}
+
+/**
+ * Stream spot prices with automatic failover across providers.
+ *
+ * The active provider's WebSocket reconnects with exponential backoff
+ * (1s, 2s, 4s … maxBackoffMs). After `pollAfterFailures` consecutive socket
+ * failures it polls that provider's REST ticker; if polling fails
+ * `failoverAfterPollFailures` times in a row, the next provider in `sources`
+ * takes over. Updates are throttled (latest price wins) so downstream
+ * recalibration runs at most once per `throttleMs`. If no price has arrived from
+ * any provider within `failAfterMs`, the status becomes 'failed' and stays there
+ * while retries carry on; the first price that gets through restores the stream's
+ * current status. Returns an unsubscribe function.
+ */
+export function subscribeSpot(
+  sources: SpotSource[],
+  crypto: CryptoOption,
+  onPrice: (price: number, source: SpotSource) => void,
+  onStatus: (status: SpotStreamStatus, source: SpotSource) => void = () => {},
+  {
+    throttleMs = 2000,
+    pollIntervalMs = 5000,
+    maxBackoffMs = 30000,
+    pollAfterFailures = 3,
+    failoverAfterPollFailures = 2,
+    failAfterMs = 20000,
+  }: SpotStreamOptions = {}
+): () => void {
+  let providerIndex = 0;
+  let closed = false;
+  let socket: WebSocket | null = null;
+  let socketFailures = 0;
+  let pollFailures = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let throttleTimer: ReturnType<typeof setTimeout> | null = null;
+  let failTimer: ReturnType<typeof setTimeout> | null = null;
+  let failed = false;
+  let current: { status: SpotStreamStatus; source: SpotSource } | null = null; // Held back while failed
+  let lastEmit = 0;
+  let pending: { price: number; source: SpotSource } | null = null;
+
+  const provider = () => SPOT_PROVIDERS[sources[providerIndex]];
+
+  const flush = () => {
+    throttleTimer = null;
+    if (closed || pending === null) return;
+    lastEmit = Date.now();
+    onPrice(pending.price, pending.source);
+    pending = null;
+  };
+
+  const report = (status: SpotStreamStatus, source: SpotSource) => {
+    current = { status, source };
+    if (!failed) onStatus(status, source);
+  };
+
+  const emit = (price: number, source: SpotSource) => {
+    if (failTimer) clearTimeout(failTimer);
+    failTimer = null;
+    if (failed) {
+      failed = false;
+      if (current) onStatus(current.status, current.source);
+    }
+    pending = { price, source };
+    if (throttleTimer) return;
+    const wait = Math.max(0, throttleMs - (Date.now() - lastEmit));
+    if (wait === 0) flush(); else throttleTimer = setTimeout(flush, wait);
+  };
+
+  const stopPolling = () => {
+    if (pollTimer) clearInterval(pollTimer);
+    pollTimer = null;
+  };
+
+  const closeSocket = () => {
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+    if (socket) {
+      socket.onclose = null;
+      socket.close();
+      socket = null;
+    }
+  };
+
+  const poll = () => {
+    const active = provider();
+    active.fetchPrice(crypto)
+      .then((price) => {
+        if (closed || active !== provider()) return;
+        pollFailures = 0;
+        emit(price, active.id);
+      })
+      .catch((err) => {
+        if (closed || active !== provider()) return;
+        console.warn(`[Spot] ${active.label} REST poll failed:`, err);
+        pollFailures++;
+        if (pollTimer && pollFailures >= failoverAfterPollFailures) failover();
+      });
+  };
+
+  const startPolling = () => {
+    if (pollTimer) return;
+    report('polling', provider().id);
+    poll();
+    pollTimer = setInterval(poll, pollIntervalMs);
+  };
+
+  const connect = () => {
+    if (closed) return;
+    const active = provider();
+    if (!pollTimer) report(socketFailures === 0 ? 'connecting' : 'reconnecting', active.id);
+
+    const ws = new WebSocket(active.streamUrl(crypto));
+    socket = ws;
+    let received = false;
+
+    ws.onopen = () => {
+      if (active.subscribeMessage) ws.send(active.subscribeMessage(crypto));
+    };
+
+    ws.onmessage = (msg) => {
+      let price: number | null = null;
+      try {
+        price = active.parseMessage(JSON.parse(msg.data as string));
+      } catch {
+        price = null;
+      }
+      if (price === null || isNaN(price)) return;
+      if (!received) {
+        received = true;
+        socketFailures = 0;
+        pollFailures = 0;
+        stopPolling();
+        report('live', active.id);
+      }
+      emit(price, active.id);
+    };
+
+    ws.onclose = () => {
+      if (closed || socket !== ws) return;
+      socket = null;
+      if (!received) socketFailures++;
+      if (socketFailures >= pollAfterFailures) startPolling();
+      else if (!pollTimer) report('reconnecting', active.id);
+      const delay = Math.min(maxBackoffMs, 1000 * Math.pow(2, Math.max(0, socketFailures - 1)));
+      reconnectTimer = setTimeout(connect, delay);
+    };
+
+    ws.onerror = () => ws.close();
+  };
+
+  function failover() {
+    if (sources.length < 2) return;
+    closeSocket();
+    stopPolling();
+    providerIndex = (providerIndex + 1) % sources.length;
+    socketFailures = 0;
+    pollFailures = 0;
+    console.warn(`[Spot] Failing over to ${provider().label}`);
+    poll();
+    connect();
+  }
+
+  failTimer = setTimeout(() => {
+    failTimer = null;
+    if (closed) return;
+    failed = true;
+    onStatus('failed', provider().id);
+  }, failAfterMs);
+
+  // Seed with a REST price so the first value doesn't wait on the socket handshake
+  poll();
+  connect();
+
+  return () => {
+    closed = true;
+    if (throttleTimer) clearTimeout(throttleTimer);
+    if (failTimer) clearTimeout(failTimer);
+    stopPolling();
+    closeSocket();
+  };
+}
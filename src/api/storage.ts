@@ -0,0 +1,86 @@
+import type { Scenario, Strategy } from '../types';
+import { DEFAULT_SCENARIOS } from '../pricing/scenarios';
+import { NO_COSTS, type CostModel } from '../pricing/costs';
+import { parseStrategies, serializeStrategies } from './strategies';
+
+// Shared across events so one stress pack is reused everywhere
+const SCENARIOS_KEY = 'grapher.scenarios.v1';
+// Stored as the same versioned document as the export file, so loading migrates it too
+const STRATEGIES_KEY = 'grapher.strategies';
+// Fee and cost settings are per account, not per event
+const COSTS_KEY = 'grapher.costs.v1';
+
+function isScenario(value: unknown): value is Scenario {
+  if (typeof value !== 'object' || value === null) return false;
+  const s = value as Record<string, unknown>;
+  return typeof s.id === 'string' && typeof s.name === 'string' &&
+    typeof s.spotShock === 'number' && typeof s.ivShock === 'number' && typeof s.hoursLater === 'number';
+}
+
+/** Saved scenarios, or the default stress pack when nothing (valid) is stored */
+export function loadScenarios(): Scenario[] {
+  try {
+    const raw = localStorage.getItem(SCENARIOS_KEY);
+    if (raw === null) return DEFAULT_SCENARIOS;
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isScenario) : DEFAULT_SCENARIOS;
+  } catch (err) {
+    console.warn('Failed to read saved scenarios:', err);
+    return DEFAULT_SCENARIOS;
+  }
+}
+
+export function saveScenarios(scenarios: Scenario[]): void {
+  try {
+    localStorage.setItem(SCENARIOS_KEY, JSON.stringify(scenarios));
+  } catch (err) {
+    console.warn('Failed to save scenarios:', err);
+  }
+}
+
+/** Saved strategies, migrated to the current schema; empty when nothing (valid) is stored */
+export function loadStrategies(): Strategy[] {
+  try {
+    const raw = localStorage.getItem(STRATEGIES_KEY);
+    return raw === null ? [] : parseStrategies(raw);
+  } catch (err) {
+    console.warn('Failed to read saved strategies:', err);
+    return [];
+  }
+}
+
+export function saveStrategies(strategies: Strategy[]): void {
+  try {
+    localStorage.setItem(STRATEGIES_KEY, serializeStrategies(strategies));
+  } catch (err) {
+    console.warn('Failed to save strategies:', err);
+  }
+}
+
+function isCostModel(value: unknown): value is CostModel {
+  if (typeof value !== 'object' || value === null) return false;
+  const c = value as Record<string, unknown>;
+  return typeof c.feeBps === 'number' && typeof c.fixedCost === 'number' &&
+    typeof c.slippage === 'boolean' && typeof c.onExit === 'boolean';
+}
+
+/** Saved trading cost model, or no costs when nothing (valid) is stored */
+export function loadCostModel(): CostModel {
+  try {
+    const raw = localStorage.getItem(COSTS_KEY);
+    if (raw === null) return NO_COSTS;
+    const parsed: unknown = JSON.parse(raw);
+    return isCostModel(parsed) ? parsed : NO_COSTS;
+  } catch (err) {
+    console.warn('Failed to read saved cost model:', err);
+    return NO_COSTS;
+  }
+}
+
+export function saveCostModel(model: CostModel): void {
+  try {
+    localStorage.setItem(COSTS_KEY, JSON.stringify(model));
+  } catch (err) {
+    console.warn('Failed to save cost model:', err);
+  }
+}
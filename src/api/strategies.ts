@@ -0,0 +1,167 @@
+import type { ChartState, Horizon, LegSize, Side, SmileDynamics, Strategy, StrategyLeg } from '../types';
+import { DEFAULT_SMILE_MODEL, SMILE_DYNAMICS_LABELS } from '../pricing/engine';
+import { DEFAULT_HORIZONS } from '../pricing/horizons';
+
+const STRATEGY_FORMAT = 'grapher-strategies';
+export const STRATEGY_SCHEMA_VERSION = 1;
+
+/** Versioned JSON document holding strategies — the export file and the stored copy */
+interface StrategyDocument {
+  format: typeof STRATEGY_FORMAT;
+  version: number;
+  exportedAt: number; // Unix seconds
+  strategies: Strategy[];
+}
+
+/**
+ * Upgrade steps keyed by the version they upgrade from: MIGRATIONS[n] turns a
+ * version-n strategy list into version n + 1. When the schema changes, bump
+ * STRATEGY_SCHEMA_VERSION and add the step here so older files keep importing.
+ */
+const MIGRATIONS: Record<number, (strategies: unknown[]) => unknown[]> = {};
+
+function record(value: unknown): Record<string, unknown> | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+function finite(value: unknown, fallback: number): number {
+  return typeof value === 'number' && isFinite(value) ? value : fallback;
+}
+
+function toLeg(value: unknown): StrategyLeg | null {
+  const v = record(value);
+  const size = record(v?.size);
+  if (!v || !size) return null;
+  if (typeof v.eventSlug !== 'string' || typeof v.marketId !== 'string') return null;
+  if (v.side !== 'YES' && v.side !== 'NO') return null;
+  if ((size.mode !== 'shares' && size.mode !== 'usd') || typeof size.value !== 'number' || !isFinite(size.value)) return null;
+  return {
+    eventSlug: v.eventSlug,
+    marketId: v.marketId,
+    side: v.side as Side,
+    label: typeof v.label === 'string' ? v.label : v.marketId,
+    size: { mode: size.mode, value: size.value } as LegSize,
+    entryPrice: finite(v.entryPrice, 0),
+  };
+}
+
+function isHorizon(value: unknown): value is Horizon {
+  const v = record(value);
+  switch (v?.kind) {
+    case 'now': case 'expiry': return true;
+    case 'fraction': return typeof v.elapsed === 'number';
+    case 'offset': case 'beforeExpiry': return typeof v.hours === 'number';
+    case 'absolute': return typeof v.ts === 'number';
+    default: return false;
+  }
+}
+
+/**
+ * A current-version strategy from parsed JSON, or null when it lacks what is
+ * needed to reopen it (an id, a name and an event). Optional fields a hand-edited
+ * file leaves out fall back to the defaults; malformed legs and horizons are dropped.
+ */
+function toStrategy(value: unknown): Strategy | null {
+  const v = record(value);
+  if (!v || typeof v.id !== 'string' || typeof v.name !== 'string') return null;
+  const slugs = Array.isArray(v.slugs) ? v.slugs.filter((s): s is string => typeof s === 'string' && /^[a-zA-Z0-9-]+$/.test(s)) : [];
+  if (slugs.length === 0) return null;
+
+  const range = Array.isArray(v.priceRange) ? v.priceRange : null;
+  const horizons = Array.isArray(v.horizons) ? v.horizons.filter(isHorizon) : [];
+  return {
+    id: v.id,
+    name: v.name,
+    notes: typeof v.notes === 'string' ? v.notes : '',
+    savedAt: finite(v.savedAt, 0),
+    eventTitle: typeof v.eventTitle === 'string' ? v.eventTitle : slugs[0],
+    slugs,
+    legs: Array.isArray(v.legs) ? v.legs.map(toLeg).filter((l): l is StrategyLeg => l !== null && slugs.includes(l.eventSlug)) : [],
+    priceRange: range && typeof range[0] === 'number' && typeof range[1] === 'number' && range[0] > 0 && range[1] > range[0]
+      ? [range[0], range[1]]
+      : null,
+    hDelta: finite(v.hDelta, 0),
+    horizons: horizons.length > 0 ? horizons : DEFAULT_HORIZONS,
+    smileDynamics: typeof v.smileDynamics === 'string' && v.smileDynamics in SMILE_DYNAMICS_LABELS
+      ? (v.smileDynamics as SmileDynamics)
+      : DEFAULT_SMILE_MODEL.dynamics,
+    volShift: finite(v.volShift, 0),
+  };
+}
+
+/** Serialise strategies as a versioned document, for export and for storage */
+export function serializeStrategies(strategies: Strategy[]): string {
+  const doc: StrategyDocument = {
+    format: STRATEGY_FORMAT,
+    version: STRATEGY_SCHEMA_VERSION,
+    exportedAt: Math.floor(Date.now() / 1000),
+    strategies,
+  };
+  return JSON.stringify(doc, null, 2);
+}
+
+/**
+ * Strategies from a document of any known version: older documents are migrated
+ * step by step to the current schema, then validated. Throws on files that are
+ * not strategy documents or come from a newer version of the app.
+ */
+export function parseStrategies(json: string): Strategy[] {
+  const doc = record(JSON.parse(json));
+  if (!doc || doc.format !== STRATEGY_FORMAT || !Array.isArray(doc.strategies)) {
+    throw new Error('Not a strategy file');
+  }
+  const version = doc.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('Strategy file has no valid schema version');
+  }
+  if (version > STRATEGY_SCHEMA_VERSION) {
+    throw new Error(`Strategy file is schema version ${version}; this app reads up to ${STRATEGY_SCHEMA_VERSION}`);
+  }
+
+  let strategies: unknown[] = doc.strategies;
+  for (let v = version; v < STRATEGY_SCHEMA_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) throw new Error(`No migration from schema version ${v}`);
+    strategies = migrate(strategies);
+  }
+  return strategies.map(toStrategy).filter((s): s is Strategy => s !== null);
+}
+
+/** Imported strategies replace saved ones with the same id and are appended otherwise */
+export function mergeStrategies(saved: Strategy[], imported: Strategy[]): Strategy[] {
+  const importedIds = new Set(imported.map((s) => s.id));
+  return [...saved.filter((s) => !importedIds.has(s.id)), ...imported];
+}
+
+/** The chart screen state that reopens a strategy, with P&L measured from each leg's saved fill */
+export function strategyChartState(strategy: Strategy): ChartState {
+  const [primarySlug] = strategy.slugs;
+  const selections: string[] = [];
+  const legSizes: Record<string, LegSize> = {};
+  const linkedLegs: Record<string, number> = {};
+  const entryPrices: Record<string, number> = {};
+  for (const leg of strategy.legs) {
+    const key = `${leg.marketId}-${leg.side}`;
+    if (leg.eventSlug === primarySlug) {
+      selections.push(key);
+      legSizes[key] = leg.size;
+    } else if (leg.size.mode === 'shares' && leg.size.value !== 0) {
+      linkedLegs[key] = leg.size.value; // Linked legs are sized in shares only
+    } else {
+      continue;
+    }
+    if (leg.entryPrice > 0 && leg.entryPrice < 1) entryPrices[key] = leg.entryPrice; // 0 = not recorded
+  }
+  return {
+    slugs: strategy.slugs,
+    selections,
+    legSizes,
+    linkedLegs,
+    entryPrices,
+    priceRange: strategy.priceRange,
+    hDelta: strategy.hDelta,
+    horizons: strategy.horizons,
+    smileDynamics: strategy.smileDynamics,
+    volShift: strategy.volShift,
+  };
+}
@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { Alert, Box, Button, CircularProgress, Paper, TextField, Typography } from '@mui/material';
+import { GppMaybe, Link } from '@mui/icons-material';
+import type { CryptoOption, OptionType, ParsedMarket } from '../types';
+import { detectCrypto, detectOptionType, extractSlugFromUrl, fetchEventBySlug, parseMarkets } from '../api/polymarket';
+import { attachOrderBooks } from '../api/clob';
+import { FeeField } from './FeeField';
+import type { ArbitrageKind, ArbitrageViolation } from '../pricing/arbitrage';
+
+export const ARB_COLOR = '#EF4444';
+export const INCONSISTENT_COLOR = '#F59E0B';
+
+const KIND_LABELS: Record<ArbitrageKind, string> = {
+  vertical: 'Vertical',
+  'touch-order': 'Touch order',
+  'touch-vs-above': 'Touch < above',
+  crossed: 'Crossed book',
+};
+
+const COLUMNS = '120px 1fr 90px 90px 110px';
+
+interface ArbitragePanelProps {
+  violations: ArbitrageViolation[];
+  optionType: OptionType;
+  crypto: CryptoOption | null;
+  expirationTs: number;
+  feeBps: number; // The cost model's taker fee
+  onFeeChange: (feeBps: number) => void;
+  companionTitle: string | null; // Title of the loaded "above" event, if any
+  onCompanionChange: (companion: { title: string; markets: ParsedMarket[] } | null) => void;
+}
+
+function formatCents(value: number): string {
+  const sign = value < 0 ? '−' : '';
+  return `${sign}${Math.abs(value * 100).toFixed(2)}¢`;
+}
+
+/**
+ * No-arbitrage checks across the event's strikes. Executable violations (the
+ * trade locks in a profit at the touch after fees) are red; mid-price
+ * inconsistencies the spread absorbs, and edges the fees eat, are amber. For "hit" events an "above" event with the same
+ * expiry can be loaded to check that every touch is worth at least finishing there.
+ */
+export function ArbitragePanel({
+  violations,
+  optionType,
+  crypto,
+  expirationTs,
+  feeBps,
+  onFeeChange,
+  companionTitle,
+  onCompanionChange,
+}: ArbitragePanelProps) {
+  const [companionUrl, setCompanionUrl] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLoadCompanion = () => {
+    const slug = extractSlugFromUrl(companionUrl) ?? companionUrl.trim();
+    if (!slug) return;
+    setLoading(true);
+    setError(null);
+    fetchEventBySlug(slug)
+      .then(async (event) => {
+        if (detectOptionType(event) !== 'above') throw new Error('That is not an "above" event');
+        if (detectCrypto(event) !== crypto) throw new Error(`That event is not on ${crypto}`);
+        if (event.endDate !== expirationTs) throw new Error('That event expires at a different time');
+        const markets = await attachOrderBooks(parseMarkets(event.markets));
+        onCompanionChange({ title: event.title, markets });
+      })
+      .catch((err) => {
+        console.error('Failed to load companion event:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load event');
+      })
+      .finally(() => setLoading(false));
+  };
+
+  const executable = violations.filter((v) => v.executable);
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 3,
+        border: `1px solid ${executable.length > 0 ? 'rgba(239, 68, 68, 0.4)' : 'rgba(139, 157, 195, 0.15)'}`,
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2, gap: 2 }}>
+        <Box>
+          <Typography variant="h6" sx={{ fontWeight: 600, display: 'flex', alignItems: 'center', gap: 1 }}>
+            <GppMaybe sx={{ color: executable.length > 0 ? ARB_COLOR : 'text.secondary' }} />
+            Arbitrage check
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            {violations.length === 0
+              ? 'No violations — quotes are consistent across strikes'
+              : `${executable.length} executable after fees, ${violations.length - executable.length} mid-price or fee-negative`}
+          </Typography>
+        </Box>
+        <FeeField feeBps={feeBps} onChange={onFeeChange} />
+      </Box>
+
+      {optionType === 'hit' && (
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 2 }}>
+          <TextField
+            size="small"
+            fullWidth
+            placeholder={`"Above" event URL with the same expiry${companionTitle ? ` — loaded: ${companionTitle}` : ''}`}
+            value={companionUrl}
+            onChange={(e) => setCompanionUrl(e.target.value)}
+          />
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={loading ? <CircularProgress size={14} /> : <Link />}
+            disabled={loading || !companionUrl.trim()}
+            onClick={handleLoadCompanion}
+            sx={{ whiteSpace: 'nowrap' }}
+          >
+            Compare
+          </Button>
+          {companionTitle && (
+            <Button size="small" onClick={() => onCompanionChange(null)}>
+              Clear
+            </Button>
+          )}
+        </Box>
+      )}
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      {violations.length > 0 && (
+        <>
+          <Box sx={{ display: 'grid', gridTemplateColumns: COLUMNS, gap: 1, mb: 1 }}>
+            {['Check', 'Trade', 'Edge', 'Net of fees', 'Profit @ touch'].map((h, i) => (
+              <Typography key={h} variant="body2" color="text.secondary" sx={{ fontWeight: 600, textAlign: i < 2 ? 'left' : 'right' }}>
+                {h}
+              </Typography>
+            ))}
+          </Box>
+          {violations.map((v, i) => (
+            <Box
+              key={`${v.kind}-${v.marketIds.join('-')}-${i}`}
+              sx={{
+                display: 'grid',
+                gridTemplateColumns: COLUMNS,
+                gap: 1,
+                py: 0.75,
+                borderTop: '1px solid rgba(139, 157, 195, 0.06)',
+                alignItems: 'center',
+              }}
+            >
+              <Typography variant="body2" sx={{ color: v.executable ? ARB_COLOR : INCONSISTENT_COLOR, fontWeight: 600 }}>
+                {KIND_LABELS[v.kind]}
+              </Typography>
+              <Box>
+                <Typography variant="body2">{v.description}</Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {v.legs.length > 0
+                    ? v.legs.map((l) => `${l.action} ${l.side} ${l.label} @ ${(l.price * 100).toFixed(1)}¢`).join(' + ')
+                    : 'No executable quotes'}
+                </Typography>
+              </Box>
+              <Typography variant="body2" sx={{ textAlign: 'right' }}>
+                {formatCents(v.edge)}
+              </Typography>
+              <Typography variant="body2" sx={{ textAlign: 'right', color: v.net > 0 ? '#22C55E' : 'text.secondary' }}>
+                {formatCents(v.net)}
+              </Typography>
+              <Typography variant="body2" sx={{ textAlign: 'right', fontWeight: v.executable && v.net > 0 ? 600 : 400 }}>
+                {v.executable ? `$${v.profit.toFixed(2)} (${Math.round(v.size).toLocaleString()} sh)` : '—'}
+              </Typography>
+            </Box>
+          ))}
+        </>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,73 @@
+import { Box, FormControlLabel, Paper, Switch, TextField, Typography } from '@mui/material';
+import { costTotal, type CostBreakdown, type CostModel } from '../pricing/costs';
+import { FeeField } from './FeeField';
+
+interface CostModelPanelProps {
+  model: CostModel;
+  entryCosts: CostBreakdown | null; // Selection's entry costs under the model, null when nothing is selected
+  onChange: (model: CostModel) => void;
+}
+
+function formatCost(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+/**
+ * Taker fee, per-trade fixed cost and order-book slippage applied to the
+ * projection curves, which then show net P&L with the gross curves alongside.
+ */
+export function CostModelPanel({ model, entryCosts, onChange }: CostModelPanelProps) {
+  const parseNonNegative = (raw: string): number | null => {
+    const value = parseFloat(raw);
+    return !isNaN(value) && value >= 0 ? value : null;
+  };
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 3,
+        border: '1px solid rgba(139, 157, 195, 0.15)',
+      }}
+    >
+      <Box sx={{ mb: 2 }}>
+        <Typography variant="h6" sx={{ fontWeight: 600 }}>
+          Trading costs
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          Charged on entry, and on exits and redemptions when enabled — the curves show net P&L, with gross P&L in grey
+        </Typography>
+      </Box>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 2 }}>
+        <FeeField feeBps={model.feeBps} onChange={(feeBps) => onChange({ ...model, feeBps })} />
+        <TextField
+          type="number"
+          size="small"
+          label="Per trade ($)"
+          defaultValue={model.fixedCost}
+          onChange={(e) => {
+            const value = parseNonNegative(e.target.value);
+            if (value !== null) onChange({ ...model, fixedCost: value });
+          }}
+          sx={{ width: 130 }}
+        />
+        <FormControlLabel
+          control={<Switch checked={model.slippage} onChange={(e) => onChange({ ...model, slippage: e.target.checked })} />}
+          label={<Typography variant="body2" color="text.secondary">Book depth slippage</Typography>}
+        />
+        <FormControlLabel
+          control={<Switch checked={model.onExit} onChange={(e) => onChange({ ...model, onExit: e.target.checked })} />}
+          label={<Typography variant="body2" color="text.secondary">Charge exit and redemption</Typography>}
+        />
+      </Box>
+
+      {entryCosts && (
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1.5 }}>
+          Entry costs for the selection: fees {formatCost(entryCosts.fees)} · fixed {formatCost(entryCosts.fixed)} ·
+          slippage {formatCost(entryCosts.slippage)} = <strong>{formatCost(costTotal(entryCosts))}</strong>
+        </Typography>
+      )}
+    </Paper>
+  );
+}
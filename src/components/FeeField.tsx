@@ -0,0 +1,35 @@
+import { useState } from 'react';
+import { TextField } from '@mui/material';
+
+interface FeeFieldProps {
+  feeBps: number;
+  onChange: (feeBps: number) => void;
+}
+
+/**
+ * Taker fee input. The cost model owns the fee and more than one panel edits it,
+ * so the field follows changes made elsewhere while keeping a half-typed entry.
+ */
+export function FeeField({ feeBps, onChange }: FeeFieldProps) {
+  const [draft, setDraft] = useState(String(feeBps));
+  const [shownFee, setShownFee] = useState(feeBps);
+  if (feeBps !== shownFee) {
+    setShownFee(feeBps);
+    if (parseFloat(draft) !== feeBps) setDraft(String(feeBps));
+  }
+
+  return (
+    <TextField
+      type="number"
+      size="small"
+      label="Taker fee (bps)"
+      value={draft}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        const value = parseFloat(e.target.value);
+        if (!isNaN(value) && value >= 0) onChange(value);
+      }}
+      sx={{ width: 140 }}
+    />
+  );
+}
@@ -9,28 +9,19 @@ import {
   Paper,
 } from '@mui/material';
 import { ShowChart } from '@mui/icons-material';
-import type { CryptoOption, OptionType, ParsedMarket, PolymarketEvent } from '../types';
-import {
-  isValidPolymarketUrl,
-  extractSlugFromUrl,
-  fetchEventBySlug,
-  parseMarkets,
-  detectCrypto,
-  detectOptionType,
-} from '../api/polymarket';
+import type { LoadedEvent, Strategy } from '../types';
+import { isValidPolymarketUrl, extractSlugFromUrl, loadEvent } from '../api/polymarket';
+import { StrategyLibrary } from './StrategyLibrary';
 
 interface FirstScreenProps {
-  onNavigateToChart: (
-    event: PolymarketEvent,
-    markets: ParsedMarket[],
-    crypto: CryptoOption | null,
-    optionType: OptionType
-  ) => void;
+  onNavigateToChart: (loaded: LoadedEvent) => void;
+  onOpenStrategy: (strategy: Strategy) => void;
+  initialError?: string | null; // e.g. a shared link that failed to open
 }
 
-export function FirstScreen({ onNavigateToChart }: FirstScreenProps) {
+export function FirstScreen({ onNavigateToChart, onOpenStrategy, initialError = null }: FirstScreenProps) {
   const [url, setUrl] = useState('');
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(initialError);
   const [loading, setLoading] = useState(false);
 
   const isValidUrl = isValidPolymarketUrl(url);
@@ -54,17 +45,14 @@ export function FirstScreen({ onNavigateToChart }: FirstScreenProps) {
     setError(null);
 
     try {
-      const eventData = await fetchEventBySlug(slug);
-      const parsedMarkets = parseMarkets(eventData.markets);
-      const crypto = detectCrypto(eventData);
-      const optionType = detectOptionType(eventData);
+      const loaded = await loadEvent(slug);
 
-      if (!crypto) {
+      if (!loaded.crypto) {
         setError('Could not detect cryptocurrency from this event. Make sure it\'s a crypto options event.');
         return;
       }
 
-      onNavigateToChart(eventData, parsedMarkets, crypto, optionType);
+      onNavigateToChart(loaded);
     } catch (err) {
       if (err instanceof Error) {
         setError(err.message);
@@ -209,6 +197,8 @@ export function FirstScreen({ onNavigateToChart }: FirstScreenProps) {
             )}
           </Button>
         </Box>
+
+        <StrategyLibrary onOpen={onOpenStrategy} />
       </Paper>
     </Box>
   );
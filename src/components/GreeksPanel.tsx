@@ -0,0 +1,99 @@
+import { Box, Paper, Typography } from '@mui/material';
+import type { Greeks } from '../pricing/greeks';
+
+export interface GreeksRow {
+  label: string;
+  greeks: Greeks;
+  emphasis?: boolean; // Totals are drawn bold with a rule above
+}
+
+interface GreeksPanelProps {
+  rows: GreeksRow[];
+  cryptoSymbol: string;
+  spot: number;
+}
+
+const COLUMNS = '1fr 110px 110px 110px 110px 110px';
+
+function formatSigned(value: number, digits: number): string {
+  const sign = value > 0 ? '+' : value < 0 ? '−' : '';
+  return `${sign}${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits })}`;
+}
+
+/** Choose enough decimals that small Greeks (gamma of a few-share book) stay readable */
+function formatScientific(value: number): string {
+  if (value === 0) return '0';
+  return Math.abs(value) >= 0.01 ? formatSigned(value, 4) : value.toExponential(2).replace(/-/g, '−');
+}
+
+/**
+ * Greeks at the current spot, per leg and totalled. Delta is in $ per $1 of spot,
+ * so −delta is the number of coins to short (or long) to hedge.
+ */
+export function GreeksPanel({ rows, cryptoSymbol, spot }: GreeksPanelProps) {
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 3,
+        border: '1px solid rgba(139, 157, 195, 0.15)',
+      }}
+    >
+      <Box sx={{ mb: 2 }}>
+        <Typography variant="h6" sx={{ fontWeight: 600 }}>
+          Greeks
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          At spot ${spot.toLocaleString(undefined, { maximumFractionDigits: 2 })}, valued at mid with the calibrated smile and H
+        </Typography>
+      </Box>
+
+      <Box sx={{ display: 'grid', gridTemplateColumns: COLUMNS, gap: 1, mb: 1 }}>
+        {['Position', 'Value', `Δ ($/$${cryptoSymbol})`, 'Γ (per $)', 'Θ ($/day)', 'Vega ($/vol pt)'].map((h, i) => (
+          <Typography
+            key={h}
+            variant="body2"
+            color="text.secondary"
+            sx={{ fontWeight: 600, textAlign: i === 0 ? 'left' : 'right' }}
+          >
+            {h}
+          </Typography>
+        ))}
+      </Box>
+
+      {rows.map((row) => (
+        <Box
+          key={row.label}
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: COLUMNS,
+            gap: 1,
+            py: 0.5,
+            borderTop: row.emphasis ? '1px solid rgba(139, 157, 195, 0.15)' : 'none',
+            '& > *': { fontWeight: row.emphasis ? 600 : 400 },
+          }}
+        >
+          <Typography variant="body2">{row.label}</Typography>
+          <Typography variant="body2" sx={{ textAlign: 'right' }}>
+            ${row.greeks.value.toFixed(2)}
+          </Typography>
+          <Typography variant="body2" sx={{ textAlign: 'right' }}>
+            {formatScientific(row.greeks.delta)}
+          </Typography>
+          <Typography variant="body2" sx={{ textAlign: 'right' }}>
+            {formatScientific(row.greeks.gamma)}
+          </Typography>
+          <Typography
+            variant="body2"
+            sx={{ textAlign: 'right', color: row.greeks.thetaPerDay >= 0 ? '#22C55E' : '#EF4444' }}
+          >
+            {formatSigned(row.greeks.thetaPerDay, 2)}
+          </Typography>
+          <Typography variant="body2" sx={{ textAlign: 'right' }}>
+            {formatSigned(row.greeks.vega, 2)}
+          </Typography>
+        </Box>
+      ))}
+    </Paper>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { Box, Button, Paper, TextField, Typography } from '@mui/material';
+import { Balance, Close } from '@mui/icons-material';
+import type { HedgeLeg } from '../types';
+
+const HEDGE_COLOR = '#F59E0B';
+const FUNDING_PERIODS_PER_YEAR = 3 * 365; // Perp funding settles every 8h
+
+interface HedgePanelProps {
+  hedge: HedgeLeg | null;
+  cryptoSymbol: string;
+  spot: number;
+  bookDelta: number; // Delta of the options book (selection + held) without the hedge
+  onChange: (hedge: HedgeLeg | null) => void;
+  onNeutralize: () => void;
+}
+
+/**
+ * Linear hedge in the underlying (spot or perp). Size is in coins; the funding
+ * rate is entered per 8h as quoted by the exchanges and stored annualised.
+ */
+export function HedgePanel({ hedge, cryptoSymbol, spot, bookDelta, onChange, onNeutralize }: HedgePanelProps) {
+  // Bumped when the hedge is replaced from outside the inputs so they remount with the new values
+  const [generation, setGeneration] = useState(0);
+
+  const handleNeutralize = () => {
+    onNeutralize();
+    setGeneration((g) => g + 1);
+  };
+
+  const handleClear = () => {
+    onChange(null);
+    setGeneration((g) => g + 1);
+  };
+
+  const netDelta = bookDelta + (hedge?.size ?? 0);
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 3,
+        border: '1px solid rgba(139, 157, 195, 0.15)',
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2, gap: 2 }}>
+        <Box>
+          <Typography variant="h6" sx={{ fontWeight: 600 }}>
+            Hedge
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            Book Δ {bookDelta.toFixed(4)} {cryptoSymbol} · net Δ with hedge {netDelta.toFixed(4)} {cryptoSymbol}
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          {hedge && (
+            <Button variant="outlined" size="small" startIcon={<Close />} onClick={handleClear} sx={{ py: 0.5 }}>
+              Remove
+            </Button>
+          )}
+          <Button
+            variant="contained"
+            size="small"
+            startIcon={<Balance />}
+            onClick={handleNeutralize}
+            sx={{ py: 0.5, bgcolor: HEDGE_COLOR, '&:hover': { bgcolor: '#D97706' } }}
+          >
+            Delta-neutralize at spot
+          </Button>
+        </Box>
+      </Box>
+
+      {hedge && (
+        <Box key={generation} sx={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 2 }}>
+          <TextField
+            type="number"
+            size="small"
+            label={`Size (${cryptoSymbol}, − = short)`}
+            defaultValue={Math.round(hedge.size * 1e6) / 1e6}
+            onChange={(e) => {
+              const size = parseFloat(e.target.value);
+              if (!isNaN(size)) onChange({ ...hedge, size });
+            }}
+            inputProps={{ step: 0.01 }}
+          />
+          <TextField
+            type="number"
+            size="small"
+            label="Entry price ($)"
+            defaultValue={Math.round(hedge.entryPrice * 100) / 100}
+            onChange={(e) => {
+              const entryPrice = parseFloat(e.target.value);
+              if (!isNaN(entryPrice) && entryPrice > 0) onChange({ ...hedge, entryPrice });
+            }}
+          />
+          <TextField
+            type="number"
+            size="small"
+            label="Funding (% per 8h, 0 = spot)"
+            defaultValue={Math.round((hedge.fundingRate / FUNDING_PERIODS_PER_YEAR) * 100 * 1e5) / 1e5}
+            onChange={(e) => {
+              const pct = parseFloat(e.target.value);
+              if (!isNaN(pct)) onChange({ ...hedge, fundingRate: (pct / 100) * FUNDING_PERIODS_PER_YEAR });
+            }}
+            inputProps={{ step: 0.001 }}
+          />
+        </Box>
+      )}
+
+      {hedge && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+          {hedge.size >= 0 ? 'Long' : 'Short'} {Math.abs(hedge.size).toFixed(4)} {cryptoSymbol} — notional $
+          {Math.abs(hedge.size * spot).toLocaleString(undefined, { maximumFractionDigits: 0 })}, funding carry $
+          {(-hedge.size * hedge.entryPrice * hedge.fundingRate / 365.25).toFixed(2)} / day
+        </Typography>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import { Alert, Box, Button, CircularProgress, IconButton, MenuItem, Paper, TextField, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material';
+import { Add, DeleteOutline, AccountBalanceWallet } from '@mui/icons-material';
+import type { HeldPosition, ParsedMarket, Side } from '../types';
+import { sideQuote } from '../api/clob';
+import { importWalletPositions, isWalletAddress } from '../api/positions';
+
+const HELD_COLOR = '#A78BFA';
+
+interface HeldPositionsPanelProps {
+  markets: ParsedMarket[];
+  positions: HeldPosition[];
+  onChange: (positions: HeldPosition[]) => void;
+}
+
+function formatUsd(value: number): string {
+  const sign = value < 0 ? '−' : '';
+  return `${sign}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Editor for positions already held. Each row has its own side, signed size and
+ * average entry price; the book is marked at the current mid of the side held.
+ * Positions can also be imported from a Polymarket proxy wallet.
+ */
+export function HeldPositionsPanel({ markets, positions, onChange }: HeldPositionsPanelProps) {
+  const strikeMarkets = markets.filter((m) => m.strikePrice > 0);
+  const [wallet, setWallet] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [importMessage, setImportMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+  // Bumped on import so rows remount and their inputs show the imported values
+  const [generation, setGeneration] = useState(0);
+
+  // Replaces previously imported positions; hand-entered ones are kept
+  const handleImport = () => {
+    setImporting(true);
+    setImportMessage(null);
+    importWalletPositions(wallet, markets)
+      .then((imported) => {
+        onChange([...positions.filter((p) => !p.id.startsWith('wallet-')), ...imported]);
+        setGeneration((g) => g + 1);
+        setImportMessage({
+          severity: 'success',
+          text: imported.length > 0
+            ? `Imported ${imported.length} position${imported.length === 1 ? '' : 's'} in this event`
+            : 'This wallet holds no positions in this event',
+        });
+      })
+      .catch((err) => {
+        console.error('Failed to import wallet positions:', err);
+        setImportMessage({ severity: 'error', text: err instanceof Error ? err.message : 'Failed to load wallet positions' });
+      })
+      .finally(() => setImporting(false));
+  };
+
+  const update = (id: string, patch: Partial<HeldPosition>) => {
+    onChange(positions.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+  };
+
+  const handleAdd = () => {
+    const market = strikeMarkets[0];
+    if (!market) return;
+    onChange([
+      ...positions,
+      {
+        id: crypto.randomUUID(),
+        marketId: market.id,
+        side: 'YES',
+        quantity: 1,
+        avgPrice: Math.round(sideQuote(market, 'YES').mid * 1000) / 1000,
+      },
+    ]);
+  };
+
+  const marks = positions.map((p) => {
+    const market = markets.find((m) => m.id === p.marketId);
+    return market ? sideQuote(market, p.side).mid : null;
+  });
+  const costBasis = positions.reduce((sum, p) => sum + p.quantity * p.avgPrice, 0);
+  const unrealised = positions.reduce(
+    (sum, p, i) => sum + (marks[i] !== null ? p.quantity * (marks[i]! - p.avgPrice) : 0),
+    0
+  );
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 3,
+        border: '1px solid rgba(139, 157, 195, 0.15)',
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2, gap: 2 }}>
+        <Box>
+          <Typography variant="h6" sx={{ fontWeight: 600 }}>
+            Held Positions
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            Overlaid on the chart as a separate portfolio, alone and combined with the selection
+          </Typography>
+        </Box>
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={<Add />}
+          disabled={strikeMarkets.length === 0}
+          onClick={handleAdd}
+          sx={{ py: 0.5 }}
+        >
+          Add position
+        </Button>
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+        <TextField
+          size="small"
+          fullWidth
+          placeholder="Polymarket wallet address (0x…)"
+          value={wallet}
+          onChange={(e) => setWallet(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && isWalletAddress(wallet) && !importing && handleImport()}
+        />
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={importing ? <CircularProgress size={16} /> : <AccountBalanceWallet />}
+          disabled={importing || !isWalletAddress(wallet)}
+          onClick={handleImport}
+          sx={{ whiteSpace: 'nowrap', px: 2 }}
+        >
+          Import wallet
+        </Button>
+      </Box>
+
+      {importMessage && (
+        <Alert severity={importMessage.severity} onClose={() => setImportMessage(null)} sx={{ mb: 2 }}>
+          {importMessage.text}
+        </Alert>
+      )}
+
+      {positions.map((position, i) => {
+        const mark = marks[i];
+        const pnl = mark !== null ? position.quantity * (mark - position.avgPrice) : null;
+        return (
+          <Box
+            key={`${generation}-${position.id}`}
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: '1fr 110px 100px 110px 130px 40px',
+              gap: 1,
+              alignItems: 'center',
+              py: 0.75,
+              borderBottom: '1px solid rgba(139, 157, 195, 0.06)',
+            }}
+          >
+            <TextField
+              select
+              size="small"
+              value={position.marketId}
+              onChange={(e) => update(position.id, { marketId: e.target.value })}
+            >
+              {strikeMarkets.map((m) => (
+                <MenuItem key={m.id} value={m.id}>
+                  {m.groupItemTitle || m.question}
+                </MenuItem>
+              ))}
+            </TextField>
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={position.side}
+              onChange={(_, side: Side | null) => side && update(position.id, { side })}
+            >
+              <ToggleButton value="YES" sx={{ px: 1.25, py: 0.25, '&.Mui-selected': { color: '#22C55E' } }}>YES</ToggleButton>
+              <ToggleButton value="NO" sx={{ px: 1.25, py: 0.25, '&.Mui-selected': { color: '#EF4444' } }}>NO</ToggleButton>
+            </ToggleButtonGroup>
+            <TextField
+              type="number"
+              size="small"
+              label="Shares"
+              defaultValue={position.quantity}
+              onChange={(e) => {
+                const quantity = parseFloat(e.target.value);
+                if (!isNaN(quantity)) update(position.id, { quantity });
+              }}
+            />
+            <TextField
+              type="number"
+              size="small"
+              label="Avg (¢)"
+              defaultValue={Math.round(position.avgPrice * 1000) / 10}
+              onChange={(e) => {
+                const cents = parseFloat(e.target.value);
+                if (!isNaN(cents) && cents >= 0 && cents <= 100) update(position.id, { avgPrice: cents / 100 });
+              }}
+              inputProps={{ step: 0.1 }}
+            />
+            <Box sx={{ textAlign: 'right' }}>
+              <Typography variant="body2" sx={{ color: pnl === null ? 'text.secondary' : pnl >= 0 ? '#22C55E' : '#EF4444', fontWeight: 600 }}>
+                {pnl === null ? '—' : `${pnl > 0 ? '+' : ''}${formatUsd(pnl)}`}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                mark {mark === null ? '—' : `${(mark * 100).toFixed(1)}¢`}
+              </Typography>
+            </Box>
+            <IconButton size="small" onClick={() => onChange(positions.filter((p) => p.id !== position.id))}>
+              <DeleteOutline fontSize="small" />
+            </IconButton>
+          </Box>
+        );
+      })}
+
+      {positions.length > 0 && (
+        <Box
+          sx={{
+            mt: 2,
+            pt: 2,
+            borderTop: '1px solid rgba(139, 157, 195, 0.15)',
+            display: 'flex',
+            gap: 3,
+            justifyContent: 'center',
+          }}
+        >
+          <Typography variant="body2" color="text.secondary">
+            Positions: {positions.length}
+          </Typography>
+          <Typography variant="body2" sx={{ color: HELD_COLOR, fontWeight: 600 }}>
+            Cost basis: {formatUsd(costBasis)}
+          </Typography>
+          <Typography variant="body2" sx={{ color: unrealised >= 0 ? '#22C55E' : '#EF4444', fontWeight: 600 }}>
+            Unrealised at mid: {unrealised > 0 ? '+' : ''}{formatUsd(unrealised)}
+          </Typography>
+        </Box>
+      )}
+    </Paper>
+  );
+}
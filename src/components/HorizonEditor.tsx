@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { Box, Button, Chip, TextField, Typography } from '@mui/material';
+import { Add } from '@mui/icons-material';
+import type { Horizon } from '../types';
+import { DEFAULT_HORIZONS, describeHorizon, parseHorizon } from '../pricing/horizons';
+
+interface HorizonEditorProps {
+  horizons: Horizon[];
+  onChange: (horizons: Horizon[]) => void;
+}
+
+/**
+ * Projection snapshot list. Horizons are typed as "+6h", "-1h" (before expiry),
+ * "1/3", "now", "expiry" or a UTC date-time like "2026-10-20 16:00".
+ */
+export function HorizonEditor({ horizons, onChange }: HorizonEditorProps) {
+  const [input, setInput] = useState('');
+  const [invalid, setInvalid] = useState(false);
+
+  const handleAdd = () => {
+    const horizon = parseHorizon(input);
+    if (!horizon) {
+      setInvalid(true);
+      return;
+    }
+    onChange([...horizons, horizon]);
+    setInput('');
+    setInvalid(false);
+  };
+
+  return (
+    <Box sx={{ mt: 2, pt: 2, px: 3, borderTop: '1px solid rgba(139, 157, 195, 0.1)' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="body2" color="text.secondary" sx={{ fontWeight: 600 }}>
+          Horizons
+        </Typography>
+        <Button size="small" onClick={() => onChange(DEFAULT_HORIZONS)} sx={{ py: 0 }}>
+          Reset
+        </Button>
+      </Box>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, alignItems: 'center' }}>
+        {horizons.map((horizon, i) => (
+          <Chip
+            key={`${i}-${describeHorizon(horizon)}`}
+            label={describeHorizon(horizon)}
+            size="small"
+            onDelete={horizons.length > 1 ? () => onChange(horizons.filter((_, j) => j !== i)) : undefined}
+            sx={{
+              bgcolor: 'rgba(139, 157, 195, 0.1)',
+              color: '#8B9DC3',
+              border: '1px solid rgba(139, 157, 195, 0.2)',
+            }}
+          />
+        ))}
+        <TextField
+          size="small"
+          placeholder="+6h, -1h, 2026-10-20 16:00"
+          value={input}
+          error={invalid}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setInvalid(false);
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          inputProps={{ style: { padding: '4px 8px', width: 190 } }}
+        />
+        <Button size="small" startIcon={<Add />} disabled={!input.trim()} onClick={handleAdd} sx={{ py: 0.25 }}>
+          Add
+        </Button>
+      </Box>
+      <Typography variant="caption" color={invalid ? 'error' : 'text.secondary'}>
+        {invalid
+          ? 'Not understood — try +6h, +2d, -1h (before expiry), 1/3, now, expiry or YYYY-MM-DD HH:MM (UTC)'
+          : '+N h from now · -N h before expiry · fraction of time left · UTC date-time'}
+      </Typography>
+    </Box>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { Alert, Box, Button, Checkbox, CircularProgress, IconButton, Paper, TextField, Typography } from '@mui/material';
+import { Add, Close } from '@mui/icons-material';
+import type { CryptoOption, LoadedEvent, Side } from '../types';
+import { extractSlugFromUrl, loadEvent } from '../api/polymarket';
+import { sideQuote } from '../api/clob';
+import { formatUtc } from '../pricing/horizons';
+
+const SIDES: Side[] = ['YES', 'NO'];
+const COLUMNS = '1fr 170px 170px';
+
+interface LinkedEventsPanelProps {
+  events: LoadedEvent[]; // Linked events only — the primary event is the strike table below
+  loadedIds: string[]; // Every loaded event, primary included, to reject duplicates
+  crypto: CryptoOption | null;
+  legs: Record<string, number>; // Signed shares keyed by `${marketId}-${side}`
+  onLegChange: (key: string, shares: number | null) => void; // null removes the leg
+  onAddEvent: (loaded: LoadedEvent) => void;
+  onRemoveEvent: (eventId: string) => void;
+}
+
+/**
+ * Further events on the same underlying — other expiries or the other option
+ * type — whose legs join the selection. Each event keeps its own expiry, τ, H and
+ * smile; the chart combines them on one spot axis.
+ */
+export function LinkedEventsPanel({
+  events,
+  loadedIds,
+  crypto,
+  legs,
+  onLegChange,
+  onAddEvent,
+  onRemoveEvent,
+}: LinkedEventsPanelProps) {
+  const [url, setUrl] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    const slug = extractSlugFromUrl(url) ?? url.trim();
+    if (!slug) return;
+    setLoading(true);
+    setError(null);
+    loadEvent(slug)
+      .then((loaded) => {
+        if (loadedIds.includes(loaded.event.id)) throw new Error('That event is already loaded');
+        if (loaded.crypto !== crypto) throw new Error(`That event is not on ${crypto}`);
+        onAddEvent(loaded);
+        setUrl('');
+      })
+      .catch((err) => {
+        console.error('Failed to load linked event:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load event');
+      })
+      .finally(() => setLoading(false));
+  };
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 3,
+        border: '1px solid rgba(139, 157, 195, 0.15)',
+      }}
+    >
+      <Box sx={{ mb: 2 }}>
+        <Typography variant="h6" sx={{ fontWeight: 600 }}>
+          Linked events
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          {events.length > 0
+            ? 'Legs here are priced on their own event’s clock and smile and added to the selection — horizons are in absolute time'
+            : `Add another ${crypto ?? ''} event — a different expiry or option type — to trade it alongside this one`}
+        </Typography>
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 2 }}>
+        <TextField
+          size="small"
+          fullWidth
+          placeholder="Polymarket event URL"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+        />
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={loading ? <CircularProgress size={14} /> : <Add />}
+          disabled={loading || !url.trim()}
+          onClick={handleAdd}
+          sx={{ whiteSpace: 'nowrap' }}
+        >
+          Add event
+        </Button>
+      </Box>
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      {events.map(({ event, markets, optionType }) => (
+        <Box key={event.id} sx={{ mt: 2, pt: 2, borderTop: '1px solid rgba(139, 157, 195, 0.1)' }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, mb: 1 }}>
+            <Box>
+              <Typography variant="body1" sx={{ fontWeight: 600 }}>
+                {event.title}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                {optionType === 'above' ? 'European Binary' : 'One-Touch Barrier'} · expires {formatUtc(event.endDate)}
+              </Typography>
+            </Box>
+            <IconButton size="small" onClick={() => onRemoveEvent(event.id)}>
+              <Close fontSize="small" />
+            </IconButton>
+          </Box>
+
+          {markets.filter((m) => m.strikePrice > 0).map((market) => (
+            <Box
+              key={market.id}
+              sx={{
+                display: 'grid',
+                gridTemplateColumns: COLUMNS,
+                gap: 1,
+                py: 0.25,
+                alignItems: 'center',
+              }}
+            >
+              <Typography variant="body2">{market.groupItemTitle || market.question}</Typography>
+              {SIDES.map((side) => {
+                const key = `${market.id}-${side}`;
+                const shares = legs[key];
+                const quote = sideQuote(market, side);
+                return (
+                  <Box key={side} sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                    <Checkbox
+                      size="small"
+                      checked={shares !== undefined}
+                      onChange={(e) => onLegChange(key, e.target.checked ? 1 : null)}
+                      sx={{ p: 0.5 }}
+                    />
+                    <Typography variant="caption" color="text.secondary" sx={{ minWidth: 64 }}>
+                      {side} {(quote.ask * 100).toFixed(1)}¢
+                    </Typography>
+                    {shares !== undefined && (
+                      <TextField
+                        type="number"
+                        size="small"
+                        defaultValue={shares}
+                        onChange={(e) => {
+                          const value = parseFloat(e.target.value);
+                          if (!isNaN(value) && value !== 0) onLegChange(key, value);
+                        }}
+                        inputProps={{ step: 1, style: { padding: '2px 6px', width: 56 } }}
+                      />
+                    )}
+                  </Box>
+                );
+              })}
+            </Box>
+          ))}
+        </Box>
+      ))}
+    </Paper>
+  );
+}
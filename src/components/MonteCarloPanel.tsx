@@ -0,0 +1,281 @@
+import { useEffect, useRef, useState } from 'react';
+import { useTheme } from '@mui/material/styles';
+import { Box, Button, LinearProgress, Paper, TextField, Typography } from '@mui/material';
+import { Casino } from '@mui/icons-material';
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import {
+  DEFAULT_MC_CONFIG,
+  type HistogramBin,
+  type MonteCarloConfig,
+  type MonteCarloRequest,
+  type MonteCarloResult,
+} from '../pricing/montecarlo';
+import type { MonteCarloMessage } from '../pricing/montecarlo.worker';
+
+const GREEN = '#22C55E';
+const RED = '#EF4444';
+const COLUMNS = '1fr 130px 90px 110px 110px';
+
+interface MonteCarloPanelProps {
+  request: Omit<MonteCarloRequest, 'config'> | null; // Portfolio and market state; null = nothing to simulate
+}
+
+function formatUsd(value: number): string {
+  const sign = value < 0 ? '−' : '';
+  return `${sign}$${Math.abs(value).toFixed(2)}`;
+}
+
+/** Numeric setting with an uncontrolled input; invalid entries leave the config unchanged */
+function ConfigField({ label, value, step, onChange }: {
+  label: string;
+  value: number | null;
+  step?: number;
+  onChange: (value: number | null) => void;
+}) {
+  return (
+    <TextField
+      type="number"
+      size="small"
+      label={label}
+      defaultValue={value ?? ''}
+      onChange={(e) => {
+        if (e.target.value === '') return onChange(null);
+        const parsed = parseFloat(e.target.value);
+        if (!isNaN(parsed)) onChange(parsed);
+      }}
+      inputProps={{ step }}
+    />
+  );
+}
+
+/**
+ * Seeded Monte Carlo of the portfolio P&L at each projection horizon, run in a Web
+ * Worker: histogram, expected value, probability of profit and 95% VaR / CVaR, plus
+ * a per-strike cross-check of the closed-form prices.
+ */
+export function MonteCarloPanel({ request }: MonteCarloPanelProps) {
+  const muiTheme = useTheme();
+  const isDark = muiTheme.palette.mode === 'dark';
+  const axisColor = isDark ? '#8B9DC3' : '#5A6A85';
+  const gridColor = isDark ? 'rgba(139, 157, 195, 0.1)' : 'rgba(0, 0, 0, 0.08)';
+  const tooltipBg = isDark ? 'rgba(19, 26, 42, 0.95)' : 'rgba(255, 255, 255, 0.95)';
+  const tooltipBorder = isDark ? 'rgba(139, 157, 195, 0.3)' : 'rgba(0, 0, 0, 0.12)';
+
+  const [config, setConfig] = useState<MonteCarloConfig>(DEFAULT_MC_CONFIG);
+  const [progress, setProgress] = useState<number | null>(null); // Fraction done while running
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [horizonIndex, setHorizonIndex] = useState(0);
+  const workerRef = useRef<Worker | null>(null);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const handleRun = () => {
+    if (!request) return;
+    workerRef.current?.terminate();
+    const worker = new Worker(new URL('../pricing/montecarlo.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    setProgress(0);
+    setError(null);
+
+    worker.onmessage = (e: MessageEvent<MonteCarloMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        setProgress(message.done / message.total);
+        return;
+      }
+      if (message.type === 'result') {
+        setResult(message.result);
+        setHorizonIndex((i) => Math.min(i, message.result.horizons.length - 1));
+      } else {
+        setError(message.message);
+      }
+      setProgress(null);
+      worker.terminate();
+      workerRef.current = null;
+    };
+    worker.postMessage({ ...request, config } satisfies MonteCarloRequest);
+  };
+
+  const update = (patch: Partial<MonteCarloConfig>) => setConfig((prev) => ({ ...prev, ...patch }));
+  const selected = result?.horizons[horizonIndex];
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 3,
+        border: '1px solid rgba(139, 157, 195, 0.15)',
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2, gap: 2 }}>
+        <Box>
+          <Typography variant="h6" sx={{ fontWeight: 600 }}>
+            Monte Carlo
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            Smile local vol on the τ^H clock, continuous barrier monitoring, optional jumps and fat tails
+          </Typography>
+        </Box>
+        <Button
+          variant="contained"
+          size="small"
+          startIcon={<Casino />}
+          disabled={!request || progress !== null}
+          onClick={handleRun}
+          sx={{ py: 0.5 }}
+        >
+          {progress !== null ? 'Simulating…' : 'Run simulation'}
+        </Button>
+      </Box>
+
+      <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(6, 1fr)', gap: 2, mb: 2 }}>
+        <ConfigField
+          label="Paths"
+          value={config.paths}
+          step={1000}
+          onChange={(v) => {
+            if (v !== null && v >= 100) update({ paths: Math.round(v) });
+          }}
+        />
+        <ConfigField
+          label="Seed"
+          value={config.seed}
+          onChange={(v) => {
+            if (v !== null) update({ seed: Math.round(v) });
+          }}
+        />
+        <ConfigField label="Jumps / year" value={config.jumpIntensity} onChange={(v) => update({ jumpIntensity: Math.max(v ?? 0, 0) })} />
+        <ConfigField
+          label="Mean jump (%)"
+          value={config.jumpMean * 100}
+          step={0.5}
+          onChange={(v) => update({ jumpMean: (v ?? 0) / 100 })}
+        />
+        <ConfigField
+          label="Jump vol (%)"
+          value={config.jumpVol * 100}
+          step={0.5}
+          onChange={(v) => update({ jumpVol: Math.max(v ?? 0, 0) / 100 })}
+        />
+        <ConfigField
+          label="Tail ν (blank = normal)"
+          value={config.tailDof}
+          onChange={(v) => update({ tailDof: v !== null && v > 2 ? v : null })}
+        />
+      </Box>
+
+      {progress !== null && <LinearProgress variant="determinate" value={progress * 100} sx={{ mb: 2 }} />}
+      {error && (
+        <Typography variant="body2" color="error" sx={{ mb: 2 }}>
+          {error}
+        </Typography>
+      )}
+
+      {result && selected && (
+        <>
+          <Box sx={{ display: 'grid', gridTemplateColumns: COLUMNS, gap: 1, mb: 1 }}>
+            {['Horizon', 'Expected P&L', 'P(profit)', 'VaR 95%', 'CVaR 95%'].map((h, i) => (
+              <Typography key={h} variant="body2" color="text.secondary" sx={{ fontWeight: 600, textAlign: i === 0 ? 'left' : 'right' }}>
+                {h}
+              </Typography>
+            ))}
+          </Box>
+          {result.horizons.map((h, i) => (
+            <Box
+              key={h.label}
+              onClick={() => setHorizonIndex(i)}
+              sx={{
+                display: 'grid',
+                gridTemplateColumns: COLUMNS,
+                gap: 1,
+                py: 0.5,
+                cursor: 'pointer',
+                borderRadius: 1,
+                bgcolor: i === horizonIndex ? 'rgba(0, 209, 255, 0.08)' : 'transparent',
+              }}
+            >
+              <Typography variant="body2">{h.label}</Typography>
+              <Typography variant="body2" sx={{ textAlign: 'right', color: h.mean >= 0 ? GREEN : RED }}>
+                {formatUsd(h.mean)} ± {h.stdErr.toFixed(2)}
+              </Typography>
+              <Typography variant="body2" sx={{ textAlign: 'right' }}>
+                {(h.probProfit * 100).toFixed(1)}%
+              </Typography>
+              <Typography variant="body2" sx={{ textAlign: 'right' }}>
+                {formatUsd(h.var95)}
+              </Typography>
+              <Typography variant="body2" sx={{ textAlign: 'right' }}>
+                {formatUsd(h.cvar95)}
+              </Typography>
+            </Box>
+          ))}
+
+          <Typography variant="body2" color="text.secondary" sx={{ fontWeight: 600, mt: 2 }}>
+            P&L distribution — {selected.label}
+          </Typography>
+          <ResponsiveContainer width="100%" height={220}>
+            <BarChart data={selected.histogram} margin={{ top: 10, right: 20, bottom: 10, left: 10 }} barCategoryGap={1}>
+              <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+              <XAxis
+                dataKey="from"
+                stroke={axisColor}
+                fontSize={11}
+                tickFormatter={(v: number) => formatUsd(v)}
+                interval="preserveStartEnd"
+              />
+              <YAxis stroke={axisColor} fontSize={11} tickFormatter={(v: number) => `${((v / result.paths) * 100).toFixed(0)}%`} />
+              <Tooltip
+                cursor={{ fill: gridColor }}
+                contentStyle={{ backgroundColor: tooltipBg, border: `1px solid ${tooltipBorder}`, borderRadius: 8 }}
+                labelFormatter={(_, payload) => {
+                  const bin = payload?.[0]?.payload as HistogramBin | undefined;
+                  return bin ? `${formatUsd(bin.from)} … ${formatUsd(bin.to)}` : '';
+                }}
+                formatter={(v) => [`${((Number(v) / result.paths) * 100).toFixed(2)}% of paths`, 'Frequency']}
+              />
+              <ReferenceLine x={selected.histogram.find((b) => b.to > 0)?.from} stroke={axisColor} strokeDasharray="3 3" />
+              <Bar dataKey="count" isAnimationActive={false}>
+                {selected.histogram.map((bin) => (
+                  <Cell key={bin.from} fill={(bin.from + bin.to) / 2 >= 0 ? GREEN : RED} fillOpacity={0.75} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+
+          {result.crossCheck.length > 0 && (
+            <>
+              <Typography variant="body2" color="text.secondary" sx={{ fontWeight: 600, mt: 2, mb: 0.5 }}>
+                Closed-form cross-check (flat IV, no jumps, normal shocks)
+              </Typography>
+              {result.crossCheck.map((row) => {
+                const z = row.stdErr > 0 ? (row.simulated - row.analytic) / row.stdErr : 0;
+                return (
+                  <Box key={row.marketId} sx={{ display: 'grid', gridTemplateColumns: '1fr 90px 110px 150px 80px', gap: 1 }}>
+                    <Typography variant="body2">{row.label}</Typography>
+                    <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'right' }}>
+                      IV {(row.iv * 100).toFixed(1)}%
+                    </Typography>
+                    <Typography variant="body2" sx={{ textAlign: 'right' }}>
+                      {(row.analytic * 100).toFixed(2)}¢
+                    </Typography>
+                    <Typography variant="body2" sx={{ textAlign: 'right' }}>
+                      {(row.simulated * 100).toFixed(2)}¢ ± {(row.stdErr * 100).toFixed(2)}
+                    </Typography>
+                    <Typography variant="body2" sx={{ textAlign: 'right', color: Math.abs(z) > 3 ? RED : 'text.secondary' }}>
+                      z {z.toFixed(1)}
+                    </Typography>
+                  </Box>
+                );
+              })}
+            </>
+          )}
+
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1.5 }}>
+            {result.paths.toLocaleString()} paths, seed {result.seed}, {(result.elapsedMs / 1000).toFixed(1)} s — click a horizon row for its histogram
+          </Typography>
+        </>
+      )}
+    </Paper>
+  );
+}
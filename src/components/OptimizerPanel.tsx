@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { Alert, Box, Button, FormControlLabel, IconButton, Paper, Switch, TextField, Typography } from '@mui/material';
+import { Add, Calculate, Close } from '@mui/icons-material';
+import type { OptionType, ParsedMarket, Side } from '../types';
+import type { TemplateLeg } from '../pricing/templates';
+import { sideQuote } from '../api/clob';
+import { optimizePayoff, type CandidateLeg, type OptimizerResult, type TargetZone } from '../pricing/optimizer';
+
+const ZONE_COLUMNS = '1fr 1fr 110px 32px';
+
+interface ZoneInput {
+  id: number;
+  lower: string;
+  upper: string;
+  payout: string;
+}
+
+interface OptimizerPanelProps {
+  markets: ParsedMarket[];
+  spot: number;
+  optionType: OptionType;
+  cryptoSymbol: string;
+  onApply: (legs: TemplateLeg[]) => void; // Replaces the current selection
+}
+
+function parseZone(zone: ZoneInput): TargetZone | null {
+  const lower = zone.lower.trim() === '' ? 0 : parseFloat(zone.lower);
+  const upper = zone.upper.trim() === '' ? Infinity : parseFloat(zone.upper);
+  const payout = parseFloat(zone.payout);
+  if (isNaN(lower) || isNaN(upper) || isNaN(payout) || upper <= lower || payout <= 0) return null;
+  return { lower, upper, payout };
+}
+
+/**
+ * Target payoff by price zone, solved for the cheapest combination of YES/NO
+ * legs across the event's markets at the current asks.
+ */
+export function OptimizerPanel({ markets, spot, optionType, cryptoSymbol, onApply }: OptimizerPanelProps) {
+  const [zones, setZones] = useState<ZoneInput[]>(() => [
+    { id: 0, lower: String(Math.round(spot * 0.95)), upper: String(Math.round(spot * 1.05)), payout: '1' },
+  ]);
+  const [wholeShares, setWholeShares] = useState(false);
+  const [result, setResult] = useState<OptimizerResult | null>(null);
+  const [solvedZones, setSolvedZones] = useState<TargetZone[]>([]);
+  const [infeasible, setInfeasible] = useState(false);
+
+  const parsed = zones.map(parseZone);
+  const valid = parsed.length > 0 && parsed.every((z) => z !== null);
+
+  const updateZone = (id: number, patch: Partial<ZoneInput>) =>
+    setZones((prev) => prev.map((z) => (z.id === id ? { ...z, ...patch } : z)));
+
+  const handleSolve = () => {
+    const targets = parsed.filter((z): z is TargetZone => z !== null);
+    const candidates: CandidateLeg[] = markets.flatMap((m) =>
+      (['YES', 'NO'] as Side[]).map((side) => ({
+        marketId: m.id,
+        label: m.groupItemTitle || m.question,
+        strikePrice: m.strikePrice,
+        side,
+        ask: sideQuote(m, side).ask,
+      }))
+    );
+    const solved = optimizePayoff(candidates, targets, spot, optionType, wholeShares);
+    setResult(solved);
+    setSolvedZones(targets);
+    setInfeasible(solved === null);
+  };
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 3,
+        border: '1px solid rgba(139, 157, 195, 0.15)',
+      }}
+    >
+      <Box sx={{ mb: 2 }}>
+        <Typography variant="h6" sx={{ fontWeight: 600 }}>
+          Payoff optimizer
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          {optionType === 'hit'
+            ? `Minimum payout by zone — a zone around spot means ${cryptoSymbol} stays inside it, a zone above (below) spot means its high (low) lands there`
+            : `Minimum payout by zone of where ${cryptoSymbol} ends — solved for the cheapest YES/NO combination at the current asks`}
+        </Typography>
+      </Box>
+
+      <Box sx={{ display: 'grid', gridTemplateColumns: ZONE_COLUMNS, gap: 1, mb: 1 }}>
+        {['From ($)', 'To ($, blank = no limit)', 'Pays at least ($)', ''].map((h, i) => (
+          <Typography key={i} variant="body2" color="text.secondary" sx={{ fontWeight: 600 }}>
+            {h}
+          </Typography>
+        ))}
+      </Box>
+      {zones.map((zone, i) => (
+        <Box key={zone.id} sx={{ display: 'grid', gridTemplateColumns: ZONE_COLUMNS, gap: 1, mb: 1, alignItems: 'center' }}>
+          <TextField size="small" type="number" value={zone.lower} error={parsed[i] === null} onChange={(e) => updateZone(zone.id, { lower: e.target.value })} />
+          <TextField size="small" type="number" value={zone.upper} error={parsed[i] === null} onChange={(e) => updateZone(zone.id, { upper: e.target.value })} />
+          <TextField size="small" type="number" value={zone.payout} error={parsed[i] === null} onChange={(e) => updateZone(zone.id, { payout: e.target.value })} />
+          <IconButton size="small" disabled={zones.length === 1} onClick={() => setZones((prev) => prev.filter((z) => z.id !== zone.id))}>
+            <Close fontSize="small" />
+          </IconButton>
+        </Box>
+      ))}
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 1 }}>
+        <Button
+          size="small"
+          startIcon={<Add />}
+          onClick={() => setZones((prev) => [...prev, { id: Math.max(...prev.map((z) => z.id)) + 1, lower: '', upper: '', payout: '1' }])}
+        >
+          Zone
+        </Button>
+        <FormControlLabel
+          control={<Switch checked={wholeShares} onChange={(e) => setWholeShares(e.target.checked)} />}
+          label={<Typography variant="body2" color="text.secondary">Whole shares</Typography>}
+        />
+        <Button variant="outlined" size="small" startIcon={<Calculate />} disabled={!valid} onClick={handleSolve} sx={{ ml: 'auto' }}>
+          Solve
+        </Button>
+      </Box>
+
+      {infeasible && (
+        <Alert severity="warning" sx={{ mt: 2 }}>
+          No combination of this event&apos;s legs pays in every zone — the zones need strikes inside or beyond them.
+        </Alert>
+      )}
+      {result && (
+        <Box sx={{ mt: 2, pt: 2, borderTop: '1px solid rgba(139, 157, 195, 0.1)' }}>
+          {result.legs.map((leg) => (
+            <Box key={`${leg.marketId}-${leg.side}`} sx={{ display: 'flex', justifyContent: 'space-between', py: 0.25 }}>
+              <Typography variant="body2">
+                Buy {leg.shares.toLocaleString(undefined, { maximumFractionDigits: 4 })} {leg.side} {leg.label}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                @ {(leg.ask * 100).toFixed(1)}¢ = ${(leg.shares * leg.ask).toFixed(2)}
+              </Typography>
+            </Box>
+          ))}
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, mt: 1 }}>
+            <Typography variant="body2" sx={{ fontWeight: 600 }}>
+              Cost ${result.cost.toFixed(2)}
+              <Typography component="span" variant="caption" color="text.secondary">
+                {' · '}net in each zone at least{' '}
+                {solvedZones.map((z) => `${z.payout - result.cost >= 0 ? '+' : '−'}$${Math.abs(z.payout - result.cost).toFixed(2)}`).join(', ')}
+                {' · '}{result.states} settlement states
+              </Typography>
+            </Typography>
+            <Button variant="contained" size="small" disabled={result.legs.length === 0} onClick={() => onApply(result.legs)}>
+              Select this portfolio
+            </Button>
+          </Box>
+        </Box>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,215 @@
+import { useMemo, useState } from 'react';
+import { useTheme } from '@mui/material/styles';
+import { Box, Typography } from '@mui/material';
+import { breakEvenContour, type PnlSurface } from '../pricing/surface';
+import { formatUtc } from '../pricing/horizons';
+
+interface PnlHeatmapProps {
+  surface: PnlSurface;
+  currentCryptoPrice: number;
+  cryptoSymbol: string;
+  totalEntryCost: number; // Net USD paid (negative = credit)
+}
+
+// Drawing area in viewBox units; the SVG scales to the container width
+const WIDTH = 1000;
+const HEIGHT = 520;
+const MARGIN = { top: 16, right: 20, bottom: 44, left: 92 };
+const PLOT_W = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_H = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+const GREEN: [number, number, number] = [34, 197, 94];
+const RED: [number, number, number] = [239, 68, 68];
+const BREAK_EVEN_COLOR = '#FACC15';
+
+function formatUsd(value: number): string {
+  const sign = value < 0 ? '−' : value > 0 ? '+' : '';
+  return `${sign}$${Math.abs(value).toFixed(2)}`;
+}
+
+function formatTimeLeft(seconds: number): string {
+  if (seconds <= 0) return 'expiry';
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.round((seconds % 86400) / 3600);
+  return days > 0 ? `${days}d ${hours}h left` : `${Math.max(hours, 0)}h left`;
+}
+
+/** Cell fill: green for profit, red for loss, opacity by |P&L| on a square-root scale */
+function cellColor(pnl: number, maxAbs: number): string {
+  const [r, g, b] = pnl >= 0 ? GREEN : RED;
+  const intensity = maxAbs > 0 ? Math.sqrt(Math.min(Math.abs(pnl) / maxAbs, 1)) : 0;
+  return `rgba(${r}, ${g}, ${b}, ${(0.06 + 0.84 * intensity).toFixed(3)})`;
+}
+
+/**
+ * P&L over spot (x) × time (y, now at the top, expiry at the bottom) as a colour
+ * grid, with the break-even contour and a crosshair readout on hover.
+ */
+export function PnlHeatmap({ surface, currentCryptoPrice, cryptoSymbol, totalEntryCost }: PnlHeatmapProps) {
+  const muiTheme = useTheme();
+  const isDark = muiTheme.palette.mode === 'dark';
+  const axisColor = isDark ? '#8B9DC3' : '#5A6A85';
+  const refLineColor = isDark ? 'rgba(139, 157, 195, 0.7)' : 'rgba(0, 0, 0, 0.35)';
+  const tooltipBg = isDark ? 'rgba(19, 26, 42, 0.95)' : 'rgba(255, 255, 255, 0.95)';
+  const tooltipBorder = isDark ? 'rgba(139, 157, 195, 0.3)' : 'rgba(0, 0, 0, 0.12)';
+
+  const [hover, setHover] = useState<{ row: number; col: number } | null>(null);
+
+  const { spots, times, pnl, maxAbs } = surface;
+  const cols = spots.length;
+  const rows = times.length;
+  const cellW = PLOT_W / cols;
+  const cellH = PLOT_H / rows;
+  const lower = spots[0];
+  const upper = spots[cols - 1];
+  const expiryTs = times[rows - 1];
+
+  // Grid values sit at cell centres, so contour coordinates shift by half a cell
+  const contour = useMemo(() => breakEvenContour(surface), [surface]);
+  const toX = (col: number) => MARGIN.left + (col + 0.5) * cellW;
+  const toY = (row: number) => MARGIN.top + (row + 0.5) * cellH;
+  const spotX = (price: number) => MARGIN.left + ((price - lower) / (upper - lower)) * (PLOT_W - cellW) + cellW / 2;
+
+  const xTicks = useMemo(() => {
+    const count = 6;
+    return Array.from({ length: count }, (_, i) => lower + ((upper - lower) * i) / (count - 1));
+  }, [lower, upper]);
+  const yTicks = useMemo(() => {
+    const count = Math.min(6, rows);
+    return Array.from({ length: count }, (_, i) => Math.round(((rows - 1) * i) / (count - 1)));
+  }, [rows]);
+
+  const handleMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * WIDTH - MARGIN.left;
+    const y = ((e.clientY - rect.top) / rect.height) * HEIGHT - MARGIN.top;
+    if (x < 0 || y < 0 || x >= PLOT_W || y >= PLOT_H) {
+      setHover(null);
+      return;
+    }
+    setHover({ row: Math.floor(y / cellH), col: Math.floor(x / cellW) });
+  };
+
+  const hovered = hover ? pnl[hover.row]?.[hover.col] : undefined;
+
+  return (
+    <Box sx={{ position: 'relative' }}>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        style={{ width: '100%', display: 'block', cursor: 'crosshair' }}
+        onMouseMove={handleMove}
+        onMouseLeave={() => setHover(null)}
+      >
+        {pnl.map((row, r) =>
+          row.map((value, c) => (
+            <rect
+              key={`${r}-${c}`}
+              x={MARGIN.left + c * cellW}
+              y={MARGIN.top + r * cellH}
+              width={cellW + 0.5}
+              height={cellH + 0.5}
+              fill={cellColor(value, maxAbs)}
+            />
+          ))
+        )}
+
+        {/* Break-even contour */}
+        {contour.map((s, i) => (
+          <line
+            key={i}
+            x1={toX(s.x1)}
+            y1={toY(s.y1)}
+            x2={toX(s.x2)}
+            y2={toY(s.y2)}
+            stroke={BREAK_EVEN_COLOR}
+            strokeWidth={2}
+            strokeLinecap="round"
+          />
+        ))}
+
+        {/* Current spot */}
+        {currentCryptoPrice >= lower && currentCryptoPrice <= upper && (
+          <line
+            x1={spotX(currentCryptoPrice)}
+            x2={spotX(currentCryptoPrice)}
+            y1={MARGIN.top}
+            y2={MARGIN.top + PLOT_H}
+            stroke={refLineColor}
+            strokeDasharray="5 5"
+          />
+        )}
+
+        {/* Crosshair */}
+        {hover && (
+          <g pointerEvents="none">
+            <line x1={toX(hover.col)} x2={toX(hover.col)} y1={MARGIN.top} y2={MARGIN.top + PLOT_H} stroke={axisColor} strokeWidth={0.75} />
+            <line x1={MARGIN.left} x2={MARGIN.left + PLOT_W} y1={toY(hover.row)} y2={toY(hover.row)} stroke={axisColor} strokeWidth={0.75} />
+          </g>
+        )}
+
+        {/* Axes */}
+        <rect x={MARGIN.left} y={MARGIN.top} width={PLOT_W} height={PLOT_H} fill="none" stroke={axisColor} strokeOpacity={0.4} />
+        {xTicks.map((price) => (
+          <g key={price} transform={`translate(${spotX(price)},${MARGIN.top + PLOT_H})`}>
+            <line y1={0} y2={6} stroke={axisColor} />
+            <text y={22} textAnchor="middle" fill={axisColor} fontSize={13} fontFamily="JetBrains Mono, monospace">
+              ${Math.round(price).toLocaleString()}
+            </text>
+          </g>
+        ))}
+        {yTicks.map((row) => (
+          <g key={row} transform={`translate(${MARGIN.left},${toY(row)})`}>
+            <line x1={-6} x2={0} stroke={axisColor} />
+            <text x={-10} dy="0.35em" textAnchor="end" fill={axisColor} fontSize={12} fontFamily="JetBrains Mono, monospace">
+              {row === 0 ? 'now' : formatTimeLeft(expiryTs - times[row])}
+            </text>
+          </g>
+        ))}
+        <text x={MARGIN.left + PLOT_W / 2} y={HEIGHT - 4} textAnchor="middle" fill={axisColor} fontSize={14}>
+          {cryptoSymbol} price
+        </text>
+      </svg>
+
+      {hover && hovered !== undefined && (
+        <div
+          style={{
+            position: 'absolute',
+            top: 12,
+            right: 28,
+            pointerEvents: 'none',
+            backgroundColor: tooltipBg,
+            border: `1px solid ${tooltipBorder}`,
+            borderRadius: 8,
+            padding: '10px 14px',
+          }}
+        >
+          <div style={{ color: axisColor, fontSize: 14, marginBottom: 4 }}>
+            {cryptoSymbol}: ${spots[hover.col].toLocaleString(undefined, { maximumFractionDigits: 0 })}
+          </div>
+          <div style={{ color: axisColor, fontSize: 13 }}>
+            {formatUtc(times[hover.row])} ({formatTimeLeft(expiryTs - times[hover.row])})
+          </div>
+          <div style={{ color: hovered >= 0 ? '#22C55E' : '#EF4444', fontSize: 13, marginTop: 4 }}>
+            P&L: {formatUsd(hovered)}
+            {totalEntryCost !== 0 && ` (${((hovered / Math.abs(totalEntryCost)) * 100).toFixed(1)}%)`}
+          </div>
+        </div>
+      )}
+
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', gap: 3, mt: 1 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Box sx={{ width: 120, height: 10, borderRadius: 1, background: `linear-gradient(to right, rgb(${RED.join(',')}), rgba(${RED.join(',')}, 0.06), rgba(${GREEN.join(',')}, 0.06), rgb(${GREEN.join(',')}))` }} />
+          <Typography variant="caption" color="text.secondary">
+            {formatUsd(-maxAbs)} … {formatUsd(maxAbs)}
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Box sx={{ width: 24, height: 2, bgcolor: BREAK_EVEN_COLOR }} />
+          <Typography variant="caption" color="text.secondary">
+            Break-even
+          </Typography>
+        </Box>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useTheme } from '@mui/material/styles';
+import { Box, CircularProgress, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import type { PriceHistoryInterval, PricePoint } from '../types';
+import { fetchPriceHistory } from '../api/clob';
+
+const GREEN = '#22C55E';
+const RED = '#EF4444';
+
+const INTERVALS: PriceHistoryInterval[] = ['1h', '6h', '1d', '1w', '1m', 'max'];
+
+// Minutes per point for the expanded chart — keeps every window at a few hundred points
+const FIDELITY: Record<PriceHistoryInterval, number> = {
+  '1h': 1,
+  '6h': 2,
+  '1d': 10,
+  '1w': 60,
+  '1m': 240,
+  'max': 720,
+};
+
+function trendColor(points: PricePoint[]): string {
+  if (points.length < 2) return GREEN;
+  return points[points.length - 1].p >= points[0].p ? GREEN : RED;
+}
+
+function formatTime(t: number, interval: PriceHistoryInterval): string {
+  const date = new Date(t * 1000);
+  if (interval === '1h' || interval === '6h' || interval === '1d') {
+    return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+  }
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+interface SparklineProps {
+  points: PricePoint[];
+  width?: number;
+  height?: number;
+}
+
+/** Tiny trend line of a YES price history — no axes, coloured by net change */
+export function Sparkline({ points, width = 100, height = 28 }: SparklineProps) {
+  if (points.length < 2) {
+    return <Box sx={{ width, height }} />;
+  }
+
+  return (
+    <LineChart width={width} height={height} data={points} margin={{ top: 2, right: 2, bottom: 2, left: 2 }}>
+      <YAxis hide domain={['dataMin', 'dataMax']} />
+      <Line
+        type="monotone"
+        dataKey="p"
+        stroke={trendColor(points)}
+        strokeWidth={1.5}
+        dot={false}
+        isAnimationActive={false}
+      />
+    </LineChart>
+  );
+}
+
+interface PriceHistoryChartProps {
+  tokenId: string;
+  title: string;
+}
+
+/** Expanded YES price history for one strike with a selectable lookback window */
+export function PriceHistoryChart({ tokenId, title }: PriceHistoryChartProps) {
+  const muiTheme = useTheme();
+  const isDark = muiTheme.palette.mode === 'dark';
+  const axisColor = isDark ? '#8B9DC3' : '#5A6A85';
+  const gridColor = isDark ? 'rgba(139, 157, 195, 0.1)' : 'rgba(0, 0, 0, 0.08)';
+  const tooltipBg = isDark ? 'rgba(19, 26, 42, 0.95)' : 'rgba(255, 255, 255, 0.95)';
+  const tooltipBorder = isDark ? 'rgba(139, 157, 195, 0.3)' : 'rgba(0, 0, 0, 0.12)';
+
+  const [lookback, setLookback] = useState<PriceHistoryInterval>('1d');
+  const [result, setResult] = useState<{ interval: PriceHistoryInterval; points: PricePoint[]; error: string | null } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPriceHistory(tokenId, { interval: lookback, fidelity: FIDELITY[lookback] })
+      .then((points) => {
+        if (!cancelled) setResult({ interval: lookback, points, error: null });
+      })
+      .catch((err) => {
+        console.error('Failed to fetch price history:', err);
+        if (!cancelled) setResult({ interval: lookback, points: [], error: 'Failed to load price history' });
+      });
+    return () => { cancelled = true; };
+  }, [tokenId, lookback]);
+
+  const loading = result?.interval !== lookback;
+  const points = useMemo(() => (loading ? [] : result?.points ?? []), [loading, result]);
+
+  const change = points.length >= 2 ? points[points.length - 1].p - points[0].p : 0;
+
+  return (
+    <Box sx={{ py: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1, gap: 2 }}>
+        <Typography variant="body2" color="text.secondary" sx={{ fontWeight: 600 }}>
+          {title} — YES price
+          {points.length >= 2 && (
+            <Box component="span" sx={{ ml: 1, color: change >= 0 ? GREEN : RED }}>
+              {change >= 0 ? '+' : ''}{(change * 100).toFixed(1)}¢
+            </Box>
+          )}
+        </Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={lookback}
+          onChange={(_, value: PriceHistoryInterval | null) => value && setLookback(value)}
+        >
+          {INTERVALS.map((iv) => (
+            <ToggleButton key={iv} value={iv} sx={{ px: 1.25, py: 0.25 }}>
+              {iv}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Box>
+
+      {loading ? (
+        <Box sx={{ height: 220, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : result?.error || points.length === 0 ? (
+        <Box sx={{ height: 220, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+          <Typography variant="body2" color="text.secondary">
+            {result?.error ?? 'No trades in this window'}
+          </Typography>
+        </Box>
+      ) : (
+        <ResponsiveContainer width="100%" height={220}>
+          <LineChart data={points} margin={{ top: 8, right: 24, bottom: 8, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+            <XAxis
+              dataKey="t"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={(t: number) => formatTime(t, lookback)}
+              stroke={axisColor}
+              fontSize={12}
+            />
+            <YAxis
+              domain={['auto', 'auto']}
+              tickFormatter={(p: number) => `${(p * 100).toFixed(0)}¢`}
+              stroke={axisColor}
+              fontSize={12}
+              width={48}
+            />
+            <Tooltip
+              contentStyle={{ backgroundColor: tooltipBg, border: `1px solid ${tooltipBorder}`, borderRadius: 8 }}
+              labelFormatter={(t) => new Date(Number(t) * 1000).toLocaleString('en-US')}
+              formatter={(p) => [`${(Number(p) * 100).toFixed(1)}¢`, 'YES']}
+            />
+            <Line
+              type="monotone"
+              dataKey="p"
+              stroke={trendColor(points)}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+    </Box>
+  );
+}
@@ -1,29 +1,74 @@
 import { useState, useMemo, useCallback } from 'react';
 import { useTheme } from '@mui/material/styles';
 import {
-  LineChart,
+  ComposedChart,
   Line,
+  Area,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
   ReferenceLine,
+  ReferenceDot,
 } from 'recharts';
 import type { ProjectionPoint } from '../types';
+import type { GreeksPoint } from '../pricing/greeks';
+import type { CurveStyle } from '../pricing/horizons';
+import type { DensityPoint } from '../pricing/density';
+import { costTotal, type CostBreakdown } from '../pricing/costs';
 
 const GREEN = '#22C55E';
 const RED = '#EF4444';
+const DELTA_COLOR = '#F59E0B';
+const THETA_COLOR = '#EC4899';
+const DENSITY_COLOR = '#818CF8';
+const GROSS_COLOR = '#94A3B8';
 
-// Dash patterns per curve: [Now=solid, 1/3=short, 2/3=medium, Expiry=long]
-const DASH_ARRAYS = ['', '4 3', '8 5', '14 6'];
+type SecondaryCurve = 'none' | 'delta' | 'theta';
+
+const SECONDARY_CURVES: { key: Exclude<SecondaryCurve, 'none'>; label: string; color: string }[] = [
+  { key: 'delta', label: 'Δ vs spot', color: DELTA_COLOR },
+  { key: 'theta', label: 'Θ / day', color: THETA_COLOR },
+];
 
 interface ProjectionChartProps {
-  curves: ProjectionPoint[][]; // 4 curves: now, 1/3, 2/3, expiry
+  curves: ProjectionPoint[][]; // One per horizon, chronological
   curveLabels: string[];
+  curveStyles: CurveStyle[]; // Width, dash and opacity per curve (see horizons.ts)
   currentCryptoPrice: number;
   cryptoSymbol: string;
-  totalEntryCost: number;
+  totalEntryCost: number; // Net USD paid (negative = credit), including entry costs when the curves are net
+  legs: PositionLeg[];
+  grossCurves?: ProjectionPoint[][]; // Same horizons before trading costs — set when `curves` are net
+  entryCosts?: CostBreakdown; // Itemised in the tooltip alongside the legs
+  overlays?: ProjectionOverlay[]; // Extra single-colour curves, e.g. the held portfolio
+  greeks?: GreeksPoint[]; // Delta and theta on the "now" grid, shown on a secondary axis
+  density?: DensityPoint[]; // Market-implied probability per $ on the same grid, shaded along the bottom
+  densityLabel?: string;
+  markers?: ChartMarker[]; // Labelled points, e.g. stress scenarios
+}
+
+/** A single labelled (spot, P&L) point drawn over the curves */
+export interface ChartMarker {
+  label: string;
+  cryptoPrice: number;
+  pnl: number;
+  color: string;
+}
+
+/** A curve drawn in one colour over the selection curves */
+export interface ProjectionOverlay {
+  label: string;
+  points: ProjectionPoint[]; // Same price grid as the selection curves
+  color: string;
+  dashArray?: string;
+}
+
+/** One leg as listed in the tooltip */
+export interface PositionLeg {
+  label: string;
+  quantity: number; // Signed shares
 }
 
 interface ChartDataRow {
@@ -33,10 +78,8 @@ interface ChartDataRow {
 
 const CHART_MARGIN = { top: 20, right: 60, bottom: 50, left: 20 };
 const ACTIVE_DOT = { r: 4 };
-
-// Line styles per curve index: [Now, 1/3, 2/3, Expiry]
-const LINE_WIDTHS = [2, 1.5, 2, 2.5];
-const LINE_OPACITIES = [1, 0.45, 0.7, 1];
+const NO_OVERLAYS: ProjectionOverlay[] = [];
+const NO_MARKERS: ChartMarker[] = [];
 
 function getTickIntervals(range: number): { major: number; minor: number } {
   if (range > 100000) return { major: 10000, minor: 1000 };
@@ -47,6 +90,11 @@ function getTickIntervals(range: number): { major: number; minor: number } {
   return { major: 100, minor: 10 };
 }
 
+function formatUsd(value: number): string {
+  const sign = value < 0 ? '−' : '';
+  return `${sign}$${Math.abs(value).toFixed(2)}`;
+}
+
 function formatPct(value: number): string {
   const sign = value >= 0 ? '+' : '';
   return `${sign}${value.toFixed(1)}%`;
@@ -91,6 +139,14 @@ function CustomTooltipContent({
   hiddenCurves,
   currentCryptoPrice,
   totalEntryCost,
+  legs,
+  entryCosts,
+  showGross,
+  overlays,
+  hiddenOverlays,
+  secondary,
+  showDensity,
+  densityLabel,
   tooltipBg,
   tooltipBorder,
   secondaryColor,
@@ -104,14 +160,23 @@ function CustomTooltipContent({
   hiddenCurves: Set<number>;
   currentCryptoPrice: number;
   totalEntryCost: number;
+  legs: PositionLeg[];
+  entryCosts?: CostBreakdown;
+  showGross: boolean;
+  overlays: ProjectionOverlay[];
+  hiddenOverlays: Set<string>;
+  secondary: SecondaryCurve;
+  showDensity: boolean;
+  densityLabel: string;
   tooltipBg: string;
   tooltipBorder: string;
   secondaryColor: string;
 }) {
   if (!active || !payload || payload.length === 0) return null;
 
-  const cryptoPrice = payload[0]?.payload?.cryptoPrice;
-  if (cryptoPrice == null) return null;
+  const row = payload[0]?.payload as ChartDataRow | undefined;
+  const cryptoPrice = row?.cryptoPrice;
+  if (row == null || cryptoPrice == null) return null;
 
   const pricePct = ((cryptoPrice - currentCryptoPrice) / currentCryptoPrice) * 100;
 
@@ -139,16 +204,60 @@ function CustomTooltipContent({
         if (hiddenCurves.has(i)) return null;
         const pnl = valueMap.get(label);
         if (pnl == null) return null;
-        const cost = pnl + totalEntryCost;
-        const pnlPct = totalEntryCost > 0 ? (pnl / totalEntryCost) * 100 : 0;
-        const pnlSign = pnl >= 0 ? '+' : '';
+        const value = pnl + totalEntryCost;
+        const pnlPct = totalEntryCost !== 0 ? (pnl / Math.abs(totalEntryCost)) * 100 : 0;
+        const pnlSign = pnl > 0 ? '+' : '';
         const color = pnl >= 0 ? GREEN : RED;
+        const gross = row[`${label}__gross`];
         return (
-          <div key={label} style={{ color, fontSize: 13, padding: '2px 0' }}>
-            {label}: {cost.toFixed(2)} / {pnlSign}{pnl.toFixed(2)} ({formatPct(pnlPct)})
+          <div key={label} style={{ padding: '2px 0' }}>
+            <div style={{ color, fontSize: 13 }}>
+              {label}: {formatUsd(value)} / {pnlSign}{formatUsd(pnl)} ({formatPct(pnlPct)})
+            </div>
+            {showGross && gross != null && (
+              <div style={{ color: GROSS_COLOR, fontSize: 12 }}>
+                gross {gross > 0 ? '+' : ''}{formatUsd(gross)} · costs {formatUsd(gross - pnl)}
+              </div>
+            )}
           </div>
         );
       })}
+      {overlays.map((overlay) => {
+        const pnl = row[`${overlay.label}__overlay`];
+        if (hiddenOverlays.has(overlay.label) || pnl == null) return null;
+        return (
+          <div key={overlay.label} style={{ color: overlay.color, fontSize: 13, padding: '2px 0' }}>
+            {overlay.label}: {pnl > 0 ? '+' : ''}{formatUsd(pnl)}
+          </div>
+        );
+      })}
+      {secondary === 'delta' && row.__delta != null && (
+        <div style={{ color: DELTA_COLOR, fontSize: 13, padding: '2px 0' }}>
+          Δ: {row.__delta.toFixed(4)} $/$
+        </div>
+      )}
+      {secondary === 'theta' && row.__theta != null && (
+        <div style={{ color: THETA_COLOR, fontSize: 13, padding: '2px 0' }}>
+          Θ: {row.__theta > 0 ? '+' : ''}{formatUsd(row.__theta)} / day
+        </div>
+      )}
+      {showDensity && row.__density != null && (
+        <div style={{ color: DENSITY_COLOR, fontSize: 13, padding: '2px 0' }}>
+          {densityLabel}: {(row.__density * 1000 * 100).toFixed(2)}% per $1k
+        </div>
+      )}
+      {legs.length > 0 && <div style={{ borderTop: `1px solid ${tooltipBorder}`, marginTop: 6, paddingTop: 6 }}>
+        {legs.map((leg, i) => (
+          <div key={i} style={{ color: secondaryColor, fontSize: 12 }}>
+            {leg.quantity >= 0 ? '+' : '−'}{Math.abs(leg.quantity).toLocaleString(undefined, { maximumFractionDigits: 4 })} × {leg.label}
+          </div>
+        ))}
+      </div>}
+      {entryCosts && (
+        <div style={{ color: GROSS_COLOR, fontSize: 12, marginTop: 4 }}>
+          Entry costs {formatUsd(costTotal(entryCosts))}: fees {formatUsd(entryCosts.fees)} · fixed {formatUsd(entryCosts.fixed)} · slippage {formatUsd(entryCosts.slippage)}
+        </div>
+      )}
     </div>
   );
 }
@@ -156,9 +265,18 @@ function CustomTooltipContent({
 export function ProjectionChart({
   curves,
   curveLabels,
+  curveStyles,
   currentCryptoPrice,
   cryptoSymbol,
   totalEntryCost,
+  legs,
+  grossCurves,
+  entryCosts,
+  overlays = NO_OVERLAYS,
+  greeks,
+  density,
+  densityLabel = 'Implied density',
+  markers = NO_MARKERS,
 }: ProjectionChartProps) {
   const muiTheme = useTheme();
   const isDark = muiTheme.palette.mode === 'dark';
@@ -172,14 +290,30 @@ export function ProjectionChart({
   const legendColor = isDark ? '#8B9DC3' : '#5A6A85';
 
   const [hiddenCurves, setHiddenCurves] = useState<Set<number>>(new Set());
+  const [hiddenOverlays, setHiddenOverlays] = useState<Set<string>>(new Set());
+  const [secondary, setSecondary] = useState<SecondaryCurve>('none');
+  const [showDensity, setShowDensity] = useState(true);
+  const [grossVisible, setGrossVisible] = useState(true);
+  const showGross = grossVisible && grossCurves !== undefined && grossCurves.length > 0;
 
   const chartData = useMemo(() => {
-    if (curves.length === 0 || curves[0].length === 0) return [];
+    // Price grid from the selection curves, or the first overlay when nothing is selected
+    const grid = curves[0]?.length ? curves[0] : overlays.find((o) => o.points.length > 0)?.points;
+    if (!grid) return [];
 
     // First pass: split pos/neg
-    const data = curves[0].map((point, i) => {
+    const data = grid.map((point, i) => {
       const row: ChartDataRow = { cryptoPrice: point.cryptoPrice };
+      for (const overlay of overlays) {
+        if (overlay.points[i]) row[`${overlay.label}__overlay`] = overlay.points[i].pnl;
+      }
+      if (greeks?.[i]) {
+        row.__delta = greeks[i].delta;
+        row.__theta = greeks[i].thetaPerDay;
+      }
+      if (density?.[i]) row.__density = density[i].density;
       for (let c = 0; c < curves.length; c++) {
+        if (grossCurves?.[c]?.[i]) row[`${curveLabels[c]}__gross`] = grossCurves[c][i].pnl;
         if (curves[c][i]) {
           const pnl = curves[c][i].pnl;
           if (pnl >= 0) {
@@ -214,7 +348,11 @@ export function ProjectionChart({
     }
 
     return data;
-  }, [curves, curveLabels]);
+  }, [curves, curveLabels, grossCurves, overlays, greeks, density]);
+
+  // Density axis tops out well above the peak so the shading stays in the lower part of the chart
+  const densityMax = useMemo(() => (density ? Math.max(0, ...density.map((d) => d.density)) : 0), [density]);
+  const hasDensity = densityMax > 0;
 
   const { yDomain, yTicks } = useMemo(() => {
     let min = 0;
@@ -225,6 +363,24 @@ export function ProjectionChart({
         if (pt.pnl < min) min = pt.pnl;
         if (pt.pnl > max) max = pt.pnl;
       }
+      for (const pt of showGross ? grossCurves?.[c] ?? [] : []) {
+        if (pt.pnl < min) min = pt.pnl;
+        if (pt.pnl > max) max = pt.pnl;
+      }
+    }
+    for (const overlay of overlays) {
+      if (hiddenOverlays.has(overlay.label)) continue;
+      for (const pt of overlay.points) {
+        if (pt.pnl < min) min = pt.pnl;
+        if (pt.pnl > max) max = pt.pnl;
+      }
+    }
+    // Markers inside the price range stretch the P&L axis so a stress point is never clipped
+    const [xMin, xMax] = chartData.length > 0 ? [chartData[0].cryptoPrice, chartData[chartData.length - 1].cryptoPrice] : [0, 0];
+    for (const marker of markers) {
+      if (marker.cryptoPrice < xMin || marker.cryptoPrice > xMax) continue;
+      if (marker.pnl < min) min = marker.pnl;
+      if (marker.pnl > max) max = marker.pnl;
     }
     const pad = Math.max(0.1, (max - min) * 0.1);
     const domain: [number, number] = [min - pad, max + pad];
@@ -242,7 +398,7 @@ export function ProjectionChart({
     ticks.sort((a, b) => a - b);
 
     return { yDomain: domain, yTicks: ticks };
-  }, [curves, hiddenCurves]);
+  }, [curves, hiddenCurves, grossCurves, showGross, overlays, hiddenOverlays, markers, chartData]);
 
   const { allTicks, majorInterval, minorInterval, xDomain } = useMemo(() => {
     if (chartData.length === 0) return { allTicks: [], majorInterval: 1000, minorInterval: 100, xDomain: [0, 1] };
@@ -259,8 +415,8 @@ export function ProjectionChart({
     return { allTicks: ticks, majorInterval: major, minorInterval: minor, xDomain: [min, max] };
   }, [chartData]);
 
-  const formatYAxisCost = useCallback((v: number) => (v + totalEntryCost).toFixed(2), [totalEntryCost]);
-  const formatYAxisPnl = useCallback((v: number) => v.toFixed(2), []);
+  const formatYAxisCost = useCallback((v: number) => formatUsd(v + totalEntryCost), [totalEntryCost]);
+  const formatYAxisPnl = useCallback((v: number) => formatUsd(v), []);
 
   const handleLegendClick = useCallback((idx: number) => {
     setHiddenCurves((prev) => {
@@ -270,6 +426,14 @@ export function ProjectionChart({
     });
   }, []);
 
+  const handleOverlayLegendClick = useCallback((label: string) => {
+    setHiddenOverlays((prev) => {
+      const next = new Set(prev);
+      if (next.has(label)) next.delete(label); else next.add(label);
+      return next;
+    });
+  }, []);
+
   const renderTick = useCallback(
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     (props: any) => (
@@ -288,20 +452,32 @@ export function ProjectionChart({
         hiddenCurves={hiddenCurves}
         currentCryptoPrice={currentCryptoPrice}
         totalEntryCost={totalEntryCost}
+        legs={legs}
+        entryCosts={entryCosts}
+        showGross={showGross}
+        overlays={overlays}
+        hiddenOverlays={hiddenOverlays}
+        secondary={secondary}
+        showDensity={hasDensity && showDensity}
+        densityLabel={densityLabel}
         tooltipBg={tooltipBg}
         tooltipBorder={tooltipBorder}
         secondaryColor={axisColor}
       />
     ),
-    [curveLabels, cryptoSymbol, hiddenCurves, currentCryptoPrice, totalEntryCost, tooltipBg, tooltipBorder, axisColor]
+    [curveLabels, cryptoSymbol, hiddenCurves, currentCryptoPrice, totalEntryCost, legs, entryCosts, showGross, overlays, hiddenOverlays, secondary, hasDensity, showDensity, densityLabel, tooltipBg, tooltipBorder, axisColor]
   );
 
   if (chartData.length === 0) return null;
 
+  const secondaryCurve = greeks && greeks.length > 0
+    ? SECONDARY_CURVES.find((c) => c.key === secondary)
+    : undefined;
+
   return (
     <div>
       <ResponsiveContainer width="100%" minHeight={600}>
-        <LineChart data={chartData} margin={CHART_MARGIN}>
+        <ComposedChart data={chartData} margin={CHART_MARGIN}>
           <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
           <XAxis
             dataKey="cryptoPrice"
@@ -322,7 +498,7 @@ export function ProjectionChart({
             stroke={axisColor}
             fontSize={13}
             label={{
-              value: 'Cost',
+              value: 'Value ($)',
               angle: -90,
               position: 'insideLeft',
               style: { fill: axisColor, fontSize: 14 },
@@ -337,12 +513,23 @@ export function ProjectionChart({
             stroke={axisColor}
             fontSize={13}
             label={{
-              value: 'P&L',
+              value: 'P&L ($)',
               angle: 90,
               position: 'insideRight',
               style: { fill: axisColor, fontSize: 14 },
             }}
           />
+          {secondaryCurve && (
+            <YAxis
+              yAxisId="greek"
+              orientation="right"
+              stroke={secondaryCurve.color}
+              fontSize={12}
+              width={56}
+              tickFormatter={(v: number) => (secondary === 'delta' ? v.toPrecision(2) : v.toFixed(2))}
+            />
+          )}
+          {hasDensity && <YAxis yAxisId="density" hide domain={[0, densityMax * 2.5]} />}
           <Tooltip content={renderTooltip} />
           <ReferenceLine
             yAxisId="left"
@@ -363,6 +550,22 @@ export function ProjectionChart({
             }}
           />
 
+          {/* Market-implied density, behind the curves */}
+          {hasDensity && showDensity && (
+            <Area
+              yAxisId="density"
+              type="stepAfter"
+              dataKey="__density"
+              stroke="none"
+              fill={DENSITY_COLOR}
+              fillOpacity={0.18}
+              activeDot={false}
+              isAnimationActive={false}
+              legendType="none"
+              tooltipType="none"
+            />
+          )}
+
           {/* Invisible line bound to right YAxis — Recharts needs a data series to compute scale */}
           <Line
             yAxisId="right"
@@ -377,7 +580,7 @@ export function ProjectionChart({
           />
 
           {/* All curves: split into green (>=0) and red (<0) lines */}
-          {[0, 1, 2, 3].map((i) => [
+          {curves.map((_, i) => [
             <Line
               key={`${curveLabels[i]}__pos`}
               yAxisId="left"
@@ -385,13 +588,13 @@ export function ProjectionChart({
               dataKey={`${curveLabels[i]}__pos`}
               name={`${curveLabels[i]}__pos`}
               stroke={GREEN}
-              strokeWidth={LINE_WIDTHS[i]}
-              strokeDasharray={DASH_ARRAYS[i] || undefined}
+              strokeWidth={curveStyles[i].width}
+              strokeDasharray={curveStyles[i].dashArray || undefined}
               dot={false}
               activeDot={ACTIVE_DOT}
               connectNulls={false}
               hide={hiddenCurves.has(i)}
-              strokeOpacity={hiddenCurves.has(i) ? 0.15 : LINE_OPACITIES[i]}
+              strokeOpacity={hiddenCurves.has(i) ? 0.15 : curveStyles[i].opacity}
               legendType="none"
             />,
             <Line
@@ -401,22 +604,91 @@ export function ProjectionChart({
               dataKey={`${curveLabels[i]}__neg`}
               name={`${curveLabels[i]}__neg`}
               stroke={RED}
-              strokeWidth={LINE_WIDTHS[i]}
-              strokeDasharray={DASH_ARRAYS[i] || undefined}
+              strokeWidth={curveStyles[i].width}
+              strokeDasharray={curveStyles[i].dashArray || undefined}
               dot={false}
               activeDot={ACTIVE_DOT}
               connectNulls={false}
               hide={hiddenCurves.has(i)}
-              strokeOpacity={hiddenCurves.has(i) ? 0.15 : LINE_OPACITIES[i]}
+              strokeOpacity={hiddenCurves.has(i) ? 0.15 : curveStyles[i].opacity}
               legendType="none"
             />,
           ])}
-        </LineChart>
+
+          {/* Gross curves (before trading costs) behind the net ones */}
+          {showGross && curves.map((_, i) => (
+            <Line
+              key={`${curveLabels[i]}__gross`}
+              yAxisId="left"
+              type="monotone"
+              dataKey={`${curveLabels[i]}__gross`}
+              name={`${curveLabels[i]}__gross`}
+              stroke={GROSS_COLOR}
+              strokeWidth={1}
+              strokeDasharray={curveStyles[i].dashArray || undefined}
+              strokeOpacity={0.7}
+              dot={false}
+              activeDot={false}
+              hide={hiddenCurves.has(i)}
+              legendType="none"
+              tooltipType="none"
+            />
+          ))}
+
+          {secondaryCurve && (
+            <Line
+              yAxisId="greek"
+              type="monotone"
+              dataKey={secondary === 'delta' ? '__delta' : '__theta'}
+              name={secondaryCurve.label}
+              stroke={secondaryCurve.color}
+              strokeWidth={1.5}
+              strokeDasharray="2 3"
+              dot={false}
+              activeDot={false}
+              legendType="none"
+              tooltipType="none"
+            />
+          )}
+
+          {/* Overlays: one colour regardless of sign */}
+          {overlays.map((overlay) => (
+            <Line
+              key={`${overlay.label}__overlay`}
+              yAxisId="left"
+              type="monotone"
+              dataKey={`${overlay.label}__overlay`}
+              name={`${overlay.label}__overlay`}
+              stroke={overlay.color}
+              strokeWidth={2}
+              strokeDasharray={overlay.dashArray}
+              dot={false}
+              activeDot={ACTIVE_DOT}
+              hide={hiddenOverlays.has(overlay.label)}
+              legendType="none"
+            />
+          ))}
+
+          {/* Labelled points — off-range markers are dropped by the axis */}
+          {markers.map((marker) => (
+            <ReferenceDot
+              key={`${marker.label}__marker`}
+              yAxisId="left"
+              x={marker.cryptoPrice}
+              y={marker.pnl}
+              r={5}
+              fill={marker.color}
+              stroke={tooltipBg}
+              strokeWidth={1.5}
+              label={{ value: marker.label, position: 'top', fill: marker.color, fontSize: 12 }}
+            />
+          ))}
+        </ComposedChart>
       </ResponsiveContainer>
 
-      {/* Custom legend — fixed order */}
+      {/* Custom legend — chronological, then overlays */}
       <div style={{ display: 'flex', justifyContent: 'center', gap: 24, paddingTop: 12, flexWrap: 'wrap' }}>
-        {curveLabels.map((label, i) => (
+        {curves.length > 0 && curveLabels.map((label, i) => (
           <div
             key={label}
             onClick={() => handleLegendClick(i)}
@@ -428,17 +700,87 @@ export function ProjectionChart({
               opacity: hiddenCurves.has(i) ? 0.3 : 1,
             }}
           >
-            <svg width={24} height={LINE_WIDTHS[i] + 2} style={{ display: 'block' }}>
-              <line x1={0} y1={(LINE_WIDTHS[i] + 2) / 2} x2={12} y2={(LINE_WIDTHS[i] + 2) / 2}
-                stroke={GREEN} strokeWidth={LINE_WIDTHS[i]}
-                strokeDasharray={DASH_ARRAYS[i] || undefined} />
-              <line x1={12} y1={(LINE_WIDTHS[i] + 2) / 2} x2={24} y2={(LINE_WIDTHS[i] + 2) / 2}
-                stroke={RED} strokeWidth={LINE_WIDTHS[i]}
-                strokeDasharray={DASH_ARRAYS[i] || undefined} />
+            <svg width={24} height={curveStyles[i].width + 2} style={{ display: 'block' }}>
+              <line x1={0} y1={(curveStyles[i].width + 2) / 2} x2={12} y2={(curveStyles[i].width + 2) / 2}
+                stroke={GREEN} strokeWidth={curveStyles[i].width}
+                strokeDasharray={curveStyles[i].dashArray || undefined} />
+              <line x1={12} y1={(curveStyles[i].width + 2) / 2} x2={24} y2={(curveStyles[i].width + 2) / 2}
+                stroke={RED} strokeWidth={curveStyles[i].width}
+                strokeDasharray={curveStyles[i].dashArray || undefined} />
             </svg>
             <span style={{ color: legendColor, fontSize: 14 }}>{label}</span>
           </div>
         ))}
+        {overlays.map((overlay) => (
+          <div
+            key={overlay.label}
+            onClick={() => handleOverlayLegendClick(overlay.label)}
+            style={{
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: 6,
+              opacity: hiddenOverlays.has(overlay.label) ? 0.3 : 1,
+            }}
+          >
+            <svg width={24} height={4} style={{ display: 'block' }}>
+              <line x1={0} y1={2} x2={24} y2={2} stroke={overlay.color} strokeWidth={2} strokeDasharray={overlay.dashArray} />
+            </svg>
+            <span style={{ color: legendColor, fontSize: 14 }}>{overlay.label}</span>
+          </div>
+        ))}
+        {grossCurves && grossCurves.length > 0 && (
+          <div
+            onClick={() => setGrossVisible((prev) => !prev)}
+            style={{
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: 6,
+              opacity: grossVisible ? 1 : 0.3,
+            }}
+          >
+            <svg width={24} height={4} style={{ display: 'block' }}>
+              <line x1={0} y1={2} x2={24} y2={2} stroke={GROSS_COLOR} strokeWidth={1} />
+            </svg>
+            <span style={{ color: legendColor, fontSize: 14 }}>Gross (before costs)</span>
+          </div>
+        )}
+        {greeks && greeks.length > 0 && SECONDARY_CURVES.map((curve) => (
+          <div
+            key={curve.key}
+            onClick={() => setSecondary((prev) => (prev === curve.key ? 'none' : curve.key))}
+            style={{
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: 6,
+              opacity: secondary === curve.key ? 1 : 0.3,
+            }}
+          >
+            <svg width={24} height={4} style={{ display: 'block' }}>
+              <line x1={0} y1={2} x2={24} y2={2} stroke={curve.color} strokeWidth={1.5} strokeDasharray="2 3" />
+            </svg>
+            <span style={{ color: legendColor, fontSize: 14 }}>{curve.label}</span>
+          </div>
+        ))}
+        {hasDensity && (
+          <div
+            onClick={() => setShowDensity((prev) => !prev)}
+            style={{
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: 6,
+              opacity: showDensity ? 1 : 0.3,
+            }}
+          >
+            <svg width={24} height={10} style={{ display: 'block' }}>
+              <rect x={0} y={0} width={24} height={10} fill={DENSITY_COLOR} fillOpacity={0.35} />
+            </svg>
+            <span style={{ color: legendColor, fontSize: 14 }}>{densityLabel}</span>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,184 @@
+import { useMemo } from 'react';
+import { useTheme } from '@mui/material/styles';
+import { Box, Button, CircularProgress, Paper, Slider, Typography } from '@mui/material';
+import { History, FileDownload } from '@mui/icons-material';
+import {
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import type { ReplayFrame } from '../pricing/replay';
+
+const IV_COLOR = '#00D1FF';
+const H_COLOR = '#A78BFA';
+
+interface ReplayPanelProps {
+  frames: ReplayFrame[];
+  frameIndex: number | null; // null = live
+  loading: boolean;
+  loaded: boolean;
+  onLoad: () => void;
+  onFrameChange: (index: number | null) => void;
+  onExportFixture: () => void;
+}
+
+function formatDateTime(ts: number): string {
+  return new Date(ts * 1000).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * History replay: ATM IV term structure over the event's life with the autoH tier
+ * in force, plus a scrubber that re-renders the screen as of any past frame.
+ */
+export function ReplayPanel({ frames, frameIndex, loading, loaded, onLoad, onFrameChange, onExportFixture }: ReplayPanelProps) {
+  const muiTheme = useTheme();
+  const isDark = muiTheme.palette.mode === 'dark';
+  const axisColor = isDark ? '#8B9DC3' : '#5A6A85';
+  const gridColor = isDark ? 'rgba(139, 157, 195, 0.1)' : 'rgba(0, 0, 0, 0.08)';
+  const tooltipBg = isDark ? 'rgba(19, 26, 42, 0.95)' : 'rgba(255, 255, 255, 0.95)';
+  const tooltipBorder = isDark ? 'rgba(139, 157, 195, 0.3)' : 'rgba(0, 0, 0, 0.12)';
+
+  const chartData = useMemo(
+    () => frames.map((f) => ({
+      ts: f.ts,
+      atmIv: f.atmIv !== null ? f.atmIv * 100 : null,
+      H: f.H,
+      tauDays: f.tau * 365.25,
+    })),
+    [frames]
+  );
+
+  const activeFrame = frameIndex !== null ? frames[frameIndex] : null;
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 3,
+        border: '1px solid rgba(139, 157, 195, 0.15)',
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2, gap: 2 }}>
+        <Typography variant="h6" sx={{ fontWeight: 600 }}>
+          History Replay
+        </Typography>
+        {!loaded ? (
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={loading ? <CircularProgress size={16} /> : <History />}
+            disabled={loading}
+            onClick={onLoad}
+            sx={{ py: 0.5 }}
+          >
+            Load history
+          </Button>
+        ) : (
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<FileDownload />}
+              onClick={onExportFixture}
+              sx={{ py: 0.5 }}
+            >
+              Export fixture
+            </Button>
+            <Button
+              variant={frameIndex === null ? 'contained' : 'outlined'}
+              size="small"
+              onClick={() => onFrameChange(null)}
+              sx={{ py: 0.5 }}
+            >
+              Live
+            </Button>
+          </Box>
+        )}
+      </Box>
+
+      {loaded && frames.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          No overlapping price and spot history for this event.
+        </Typography>
+      )}
+
+      {frames.length > 0 && (
+        <>
+          <ResponsiveContainer width="100%" height={200}>
+            <ComposedChart data={chartData} margin={{ top: 8, right: 8, bottom: 8, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+              <XAxis
+                dataKey="ts"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={formatDateTime}
+                stroke={axisColor}
+                fontSize={12}
+              />
+              <YAxis
+                yAxisId="iv"
+                domain={['auto', 'auto']}
+                tickFormatter={(v: number) => `${v.toFixed(0)}%`}
+                stroke={IV_COLOR}
+                fontSize={12}
+                width={48}
+              />
+              <YAxis
+                yAxisId="h"
+                orientation="right"
+                domain={[0.4, 0.8]}
+                tickFormatter={(v: number) => v.toFixed(2)}
+                stroke={H_COLOR}
+                fontSize={12}
+                width={40}
+              />
+              <Tooltip
+                contentStyle={{ backgroundColor: tooltipBg, border: `1px solid ${tooltipBorder}`, borderRadius: 8 }}
+                labelFormatter={(ts) => formatDateTime(Number(ts))}
+                formatter={(value, name) =>
+                  name === 'ATM IV' ? [`${Number(value).toFixed(1)}%`, name] : [Number(value).toFixed(2), name]
+                }
+              />
+              <Line yAxisId="iv" type="monotone" dataKey="atmIv" name="ATM IV" stroke={IV_COLOR} strokeWidth={2} dot={false} isAnimationActive={false} connectNulls />
+              <Line yAxisId="h" type="stepAfter" dataKey="H" name="H" stroke={H_COLOR} strokeWidth={1.5} strokeDasharray="4 3" dot={false} isAnimationActive={false} />
+              {activeFrame && (
+                <ReferenceLine yAxisId="iv" x={activeFrame.ts} stroke={axisColor} strokeDasharray="5 5" />
+              )}
+            </ComposedChart>
+          </ResponsiveContainer>
+
+          <Box sx={{ px: 2, mt: 1 }}>
+            <Slider
+              value={frameIndex ?? frames.length - 1}
+              onChange={(_, value) => onFrameChange(value as number)}
+              min={0}
+              max={frames.length - 1}
+              step={1}
+              valueLabelDisplay="auto"
+              valueLabelFormat={(i) => formatDateTime(frames[i].ts)}
+              sx={{
+                color: IV_COLOR,
+                '& .MuiSlider-rail': { bgcolor: 'rgba(139, 157, 195, 0.2)' },
+              }}
+            />
+            <Typography variant="caption" color="text.secondary">
+              {activeFrame
+                ? `As of ${formatDateTime(activeFrame.ts)} — spot $${activeFrame.spot.toLocaleString(undefined, { maximumFractionDigits: 2 })}, τ ${(activeFrame.tau * 365.25).toFixed(2)}d, H ${activeFrame.H.toFixed(2)}, ATM IV ${activeFrame.atmIv !== null ? `${(activeFrame.atmIv * 100).toFixed(1)}%` : '—'}`
+                : 'Showing live prices — drag the scrubber to replay a past moment'}
+            </Typography>
+          </Box>
+        </>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { Box, Button, IconButton, Paper, TextField, Typography } from '@mui/material';
+import { Add, Close, Restore } from '@mui/icons-material';
+import type { Scenario } from '../types';
+import { DEFAULT_SCENARIOS, describeScenario, type ScenarioResult } from '../pricing/scenarios';
+import { formatUtc } from '../pricing/horizons';
+
+export const SCENARIO_COLOR = '#F97316';
+
+const GREEN = '#22C55E';
+const RED = '#EF4444';
+const COLUMNS = '1fr 170px 130px 110px 32px';
+
+interface ScenarioPanelProps {
+  scenarios: Scenario[];
+  results: ScenarioResult[]; // Same order as scenarios; empty when there is no book to stress
+  cryptoSymbol: string;
+  bookLabel: string; // Which book is stressed, e.g. "Selection + hedge"
+  onChange: (scenarios: Scenario[]) => void;
+}
+
+function formatUsd(value: number): string {
+  const sign = value < 0 ? '−' : value > 0 ? '+' : '';
+  return `${sign}$${Math.abs(value).toFixed(2)}`;
+}
+
+/**
+ * Named stress scenarios — spot gap, relative IV shock and time jump — marked
+ * through the pricing engine against the current book. The list is saved in the
+ * browser and shared across events.
+ */
+export function ScenarioPanel({ scenarios, results, cryptoSymbol, bookLabel, onChange }: ScenarioPanelProps) {
+  const [name, setName] = useState('');
+  const [spotPct, setSpotPct] = useState('');
+  const [ivPct, setIvPct] = useState('');
+  const [hours, setHours] = useState('');
+
+  const spotShock = parseFloat(spotPct || '0') / 100;
+  const ivShock = parseFloat(ivPct || '0') / 100;
+  const hoursLater = parseFloat(hours || '0');
+  const valid = !isNaN(spotShock) && spotShock > -1 && !isNaN(ivShock) && ivShock > -1 && !isNaN(hoursLater) && hoursLater >= 0;
+
+  const handleAdd = () => {
+    if (!valid) return;
+    const scenario: Scenario = { id: crypto.randomUUID(), name: '', spotShock, ivShock, hoursLater };
+    onChange([...scenarios, { ...scenario, name: name.trim() || describeScenario(scenario) }]);
+    setName('');
+    setSpotPct('');
+    setIvPct('');
+    setHours('');
+  };
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 3,
+        border: '1px solid rgba(139, 157, 195, 0.15)',
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2, gap: 2 }}>
+        <Box>
+          <Typography variant="h6" sx={{ fontWeight: 600 }}>
+            Scenarios
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            {results.length > 0 ? `${bookLabel} under each shock — marked on the chart` : 'Select strikes or add a held position to stress the book'}
+          </Typography>
+        </Box>
+        <Button size="small" startIcon={<Restore />} onClick={() => onChange(DEFAULT_SCENARIOS)} sx={{ py: 0.5 }}>
+          Standard pack
+        </Button>
+      </Box>
+
+      {scenarios.length > 0 && (
+        <Box sx={{ display: 'grid', gridTemplateColumns: COLUMNS, gap: 1, mb: 1 }}>
+          {['Scenario', 'Shocks', `${cryptoSymbol} at`, 'P&L', ''].map((h, i) => (
+            <Typography key={h || i} variant="body2" color="text.secondary" sx={{ fontWeight: 600, textAlign: i < 2 ? 'left' : 'right' }}>
+              {h}
+            </Typography>
+          ))}
+        </Box>
+      )}
+      {scenarios.map((scenario, i) => {
+        const result = results[i];
+        return (
+          <Box
+            key={scenario.id}
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: COLUMNS,
+              gap: 1,
+              py: 0.5,
+              alignItems: 'center',
+              borderTop: '1px solid rgba(139, 157, 195, 0.06)',
+            }}
+          >
+            <Typography variant="body2" sx={{ color: SCENARIO_COLOR, fontWeight: 500 }}>
+              {scenario.name}
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              {describeScenario(scenario)}
+            </Typography>
+            <Box sx={{ textAlign: 'right' }}>
+              {result && (
+                <>
+                  <Typography variant="body2">${result.spot.toLocaleString(undefined, { maximumFractionDigits: 2 })}</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {result.tau > 0 ? formatUtc(result.ts) : 'settled at expiry'}
+                  </Typography>
+                </>
+              )}
+            </Box>
+            <Typography
+              variant="body2"
+              sx={{ textAlign: 'right', fontWeight: 600, color: result ? (result.pnl >= 0 ? GREEN : RED) : 'text.secondary' }}
+            >
+              {result ? formatUsd(result.pnl) : '—'}
+            </Typography>
+            <IconButton size="small" onClick={() => onChange(scenarios.filter((s) => s.id !== scenario.id))}>
+              <Close fontSize="small" />
+            </IconButton>
+          </Box>
+        );
+      })}
+
+      <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 110px 110px 110px auto', gap: 1, mt: 2, alignItems: 'center' }}>
+        <TextField size="small" label="Name (optional)" value={name} onChange={(e) => setName(e.target.value)} />
+        <TextField size="small" type="number" label="Spot gap (%)" value={spotPct} onChange={(e) => setSpotPct(e.target.value)} />
+        <TextField size="small" type="number" label="IV change (%)" value={ivPct} onChange={(e) => setIvPct(e.target.value)} />
+        <TextField size="small" type="number" label="Hours later" value={hours} onChange={(e) => setHours(e.target.value)} />
+        <Button
+          size="small"
+          startIcon={<Add />}
+          disabled={!valid || (!spotPct && !ivPct && !hours)}
+          onClick={handleAdd}
+        >
+          Add
+        </Button>
+      </Box>
+    </Paper>
+  );
+}
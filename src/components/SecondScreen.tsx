@@ -6,25 +6,75 @@ import {
   Paper,
   Checkbox,
   CircularProgress,
+  TextField,
   IconButton,
   Chip,
   Alert,
   Slider,
+  Collapse,
+  ToggleButton,
+  ToggleButtonGroup,
+  TableSortLabel,
+  Tooltip,
+  Snackbar,
 } from '@mui/material';
-import { ArrowBack } from '@mui/icons-material';
-import type { CryptoOption, OptionType, ParsedMarket, PolymarketEvent, SelectedStrike, ProjectionPoint, Side } from '../types';
-import { fetchCurrentPrice } from '../api/binance';
-import { solveImpliedVol, computePnlCurve, computeExpiryPnl, autoH, type SmilePoint } from '../pricing/engine';
-import { ProjectionChart } from './ProjectionChart';
+import { ArrowBack, BookmarkAdd, ExpandMore, ExpandLess, Link } from '@mui/icons-material';
+import type { ChartState, CryptoOption, LoadedEvent, ParsedMarket, SelectedStrike, ProjectionPoint, Side, PricePoint, SpotSource, LegSize, SizingMode, HeldPosition, HedgeLeg, Horizon, Scenario, SmileDynamics, StrategyLeg } from '../types';
+import { subscribeSpot, detectSpotSource, failoverOrder, SPOT_PROVIDERS, SPOT_SOURCES, type SpotStreamStatus } from '../api/spot';
+import { sideQuote, fetchPriceHistory } from '../api/clob';
+import { fetchEventHistory, type EventHistory } from '../api/history';
+import { solveImpliedVol, computeExpiryPnl, autoH, buildIvSmile, legQuantity, totalEntryCost, SMILE_DYNAMICS_LABELS, type SmileModel, type SmilePoint } from '../pricing/engine';
+import { buildReplayFrames, marketsAsOf } from '../pricing/replay';
+import { toBacktestFixture } from '../pricing/backtest';
+import { DEFAULT_HORIZONS, curveStyles, resolveHorizons } from '../pricing/horizons';
+import { computePnlSurface } from '../pricing/surface';
+import { bookTau, computePortfolioGreeks, computePortfolioGreeksCurve, computePortfolioPnlCurve, type EventBook } from '../pricing/portfolio';
+import { densityOnGrid, impliedDistribution, impliedOdds } from '../pricing/density';
+import { checkArbitrage } from '../pricing/arbitrage';
+import { costTotal, depthSlippage, entryCosts, executionLevels, hasCosts, type CostModel } from '../pricing/costs';
+import { evaluateScenario } from '../pricing/scenarios';
+import { loadCostModel, loadScenarios, loadStrategies, saveCostModel, saveScenarios, saveStrategies } from '../api/storage';
+import { encodeChartState, replaceHash } from '../api/share';
+import { fairValues, fitSmile, type FairValue } from '../pricing/smilefit';
+import type { MonteCarloRequest } from '../pricing/montecarlo';
+import { ProjectionChart, type ChartMarker, type ProjectionOverlay } from './ProjectionChart';
+import { Sparkline, PriceHistoryChart } from './PriceHistoryChart';
+import { ReplayPanel } from './ReplayPanel';
+import { HeldPositionsPanel } from './HeldPositionsPanel';
+import { GreeksPanel, type GreeksRow } from './GreeksPanel';
+import { HedgePanel } from './HedgePanel';
+import { HorizonEditor } from './HorizonEditor';
+import { PnlHeatmap } from './PnlHeatmap';
+import { MonteCarloPanel } from './MonteCarloPanel';
+import { ArbitragePanel, ARB_COLOR, INCONSISTENT_COLOR } from './ArbitragePanel';
+import { SmileModelPanel } from './SmileModelPanel';
+import { CostModelPanel } from './CostModelPanel';
+import { ScenarioPanel, SCENARIO_COLOR } from './ScenarioPanel';
+import { LinkedEventsPanel } from './LinkedEventsPanel';
+import { SaveStrategyDialog } from './StrategyLibrary';
+import { TemplatePanel } from './TemplatePanel';
+import { OptimizerPanel } from './OptimizerPanel';
+import type { TemplateLeg } from '../pricing/templates';
 
 interface SecondScreenProps {
-  event: PolymarketEvent;
-  markets: ParsedMarket[];
-  crypto: CryptoOption | null;
-  optionType: OptionType;
+  events: LoadedEvent[]; // First = primary event (strike table, replay, arbitrage); the rest are linked
+  onAddEvent: (loaded: LoadedEvent) => void;
+  onRemoveEvent: (eventId: string) => void;
   onBack: () => void;
+  initialState?: ChartState | null; // From a shared link; applied on mount only
 }
 
+// Replay never reaches further back than this, even for long-running events
+const MAX_REPLAY_SPAN_SEC = 60 * 86400;
+
+const SPOT_STATUS_LABELS: Record<SpotStreamStatus, string> = {
+  connecting: 'Connecting to',
+  live: 'Streaming',
+  reconnecting: 'Reconnecting to',
+  polling: 'Polling',
+  failed: 'Still waiting on',
+};
+
 const CRYPTO_COLORS: Record<CryptoOption, string> = {
   BTC: '#F7931A',
   ETH: '#627EEA',
@@ -43,6 +93,14 @@ function roundTo3Zeros(value: number, direction: 'down' | 'up'): number {
     : Math.ceil(value / unit) * unit;
 }
 
+function computeSliderBounds(markets: ParsedMarket[]): [number, number] {
+  const strikes = markets.map((m) => m.strikePrice).filter((s) => s > 0);
+  if (strikes.length === 0) return [0, 0];
+  const minStrike = Math.min(...strikes);
+  const maxStrike = Math.max(...strikes);
+  return [roundTo3Zeros(minStrike * 0.9, 'down'), roundTo3Zeros(maxStrike * 1.1, 'up')];
+}
+
 function formatTimeToExpiry(seconds: number): string {
   if (seconds <= 0) return 'Expired';
   const days = Math.floor(seconds / 86400);
@@ -52,97 +110,369 @@ function formatTimeToExpiry(seconds: number): string {
   return `${hours}h ${minutes}m`;
 }
 
-function formatHours(seconds: number): string {
-  const h = Math.round(seconds / 3600);
-  return `${h}h`;
-}
-
 // Selection key: marketId-YES or marketId-NO
 function selKey(marketId: string, side: Side): string {
   return `${marketId}-${side}`;
 }
 
+const DEFAULT_LEG_SIZE: LegSize = { mode: 'shares', value: 1 };
+
+const HELD_COLOR = '#A78BFA';
+const COMBINED_COLOR = '#00D1FF';
+const DYNAMICS_COLORS: Record<SmileDynamics, string> = {
+  'sticky-strike': '#F472B6',
+  'sticky-moneyness': '#34D399',
+  'sticky-delta': '#FBBF24',
+};
+const STRIKE_COLUMNS = '1fr 130px 150px 140px 140px';
+
+function formatUsd(value: number): string {
+  const sign = value < 0 ? '−' : '';
+  return `${sign}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/** Price in cents, e.g. 1.2¢; `signed` adds an explicit + for positive values */
+function formatCents(value: number, signed: boolean = false): string {
+  const sign = value < 0 ? '−' : signed ? '+' : '';
+  return `${sign}${Math.abs(value * 100).toFixed(1)}¢`;
+}
+
+/**
+ * Signed size input for one leg — shares, or USD notional filled at the ask (buy) / bid (sell).
+ * A reopened leg converts at its recorded fill price instead, the price its cost basis uses.
+ */
+function LegSizeInput({
+  size,
+  ask: quotedAsk,
+  bid: quotedBid,
+  entryPrice,
+  color,
+  onChange,
+}: {
+  size: LegSize;
+  ask: number;
+  bid: number;
+  entryPrice?: number;
+  color: string;
+  onChange: (size: LegSize) => void;
+}) {
+  const ask = entryPrice ?? quotedAsk;
+  const bid = entryPrice ?? quotedBid;
+  const shares = legQuantity(size, ask, bid);
+
+  // Controlled draft: follows sizes set elsewhere (mode switch, templates, optimizer)
+  // without rewriting what is being typed, e.g. "1." or "-"
+  const [draft, setDraft] = useState(String(size.value));
+  const [shownValue, setShownValue] = useState(size.value);
+  if (size.value !== shownValue) {
+    setShownValue(size.value);
+    if (parseFloat(draft) !== size.value) setDraft(String(size.value));
+  }
+
+  // Switching mode keeps the position: convert the value at the current fill price
+  const handleModeChange = (_: unknown, mode: SizingMode | null) => {
+    if (!mode || mode === size.mode) return;
+    const fill = shares >= 0 ? ask : bid;
+    const value = mode === 'usd' ? shares * fill : shares;
+    onChange({ mode, value: Math.round(value * 100) / 100 });
+  };
+
+  return (
+    <Box sx={{ flexBasis: '100%', display: 'flex', flexWrap: 'wrap', alignItems: 'center', justifyContent: 'center', gap: 0.5 }}>
+      <TextField
+        type="number"
+        size="small"
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          const value = parseFloat(e.target.value);
+          if (!isNaN(value)) onChange({ ...size, value });
+        }}
+        inputProps={{ step: size.mode === 'usd' ? 10 : 1, style: { padding: '2px 6px', width: 56, color } }}
+      />
+      <ToggleButtonGroup size="small" exclusive value={size.mode} onChange={handleModeChange}>
+        <ToggleButton value="shares" sx={{ px: 0.75, py: 0, fontSize: '0.7rem' }}>sh</ToggleButton>
+        <ToggleButton value="usd" sx={{ px: 0.75, py: 0, fontSize: '0.7rem' }}>$</ToggleButton>
+      </ToggleButtonGroup>
+      {/* Negative sizes (e.g. a template's far leg) are sold — make that visible in the table */}
+      {shares < 0 && (
+        <Typography variant="caption" sx={{ flexBasis: '100%', textAlign: 'center', lineHeight: 1.2, color }}>
+          short {Math.abs(shares).toLocaleString(undefined, { maximumFractionDigits: 2 })} @ {entryPrice !== undefined ? 'entry' : 'bid'} {(bid * 100).toFixed(1)}¢
+        </Typography>
+      )}
+    </Box>
+  );
+}
+
 export function SecondScreen({
-  event,
-  markets,
-  crypto,
-  optionType,
+  events,
+  onAddEvent,
+  onRemoveEvent,
   onBack,
+  initialState = null,
 }: SecondScreenProps) {
+  const { event, markets, crypto, optionType } = events[0];
+  const linkedEvents = useMemo(() => events.slice(1), [events]);
   const muiTheme = useTheme();
   const isDark = muiTheme.palette.mode === 'dark';
 
-  const [selections, setSelections] = useState<Set<string>>(new Set());
+  const [selections, setSelections] = useState<Set<string>>(() => new Set(initialState?.selections));
+  const [heldPositions, setHeldPositions] = useState<HeldPosition[]>([]);
+  const [hedge, setHedge] = useState<HedgeLeg | null>(null);  // Joins the selection portfolio
+  const [horizons, setHorizons] = useState<Horizon[]>(
+    initialState && initialState.horizons.length > 0 ? initialState.horizons : DEFAULT_HORIZONS
+  );
+  const [chartView, setChartView] = useState<'curves' | 'heatmap'>('curves');
+  const [costModel, setCostModel] = useState<CostModel>(loadCostModel);  // Fees and slippage in the projection curves
+  const [strikeSort, setStrikeSort] = useState<'event' | 'rich' | 'cheap'>('event');
+  const [companionAbove, setCompanionAbove] = useState<{ title: string; markets: ParsedMarket[] } | null>(null);
+  const [legSizes, setLegSizes] = useState<Record<string, LegSize>>(initialState?.legSizes ?? {});  // keyed by selKey; default 1 share
+  const [linkedLegs, setLinkedLegs] = useState<Record<string, number>>(initialState?.linkedLegs ?? {});  // Linked-event legs: selKey → signed shares
+  const [entryPrices, setEntryPrices] = useState<Record<string, number>>(initialState?.entryPrices ?? {});  // Recorded fills of reopened legs, kept while the leg stays
   const [spotPrice, setSpotPrice] = useState<number | null>(null);
-  const [loadingSpot, setLoadingSpot] = useState(true);
+  const [spotStatus, setSpotStatus] = useState<SpotStreamStatus>('connecting');
+  const resolutionSpotSource = useMemo(() => detectSpotSource(event), [event]);
+  const [spotSource, setSpotSource] = useState<SpotSource>(resolutionSpotSource);
+  const [activeSpotSource, setActiveSpotSource] = useState<SpotSource>(resolutionSpotSource);
   const [error, setError] = useState<string | null>(null);
-  const [priceRange, setPriceRange] = useState<[number, number]>([0, 0]);
-  const [sliderBounds, setSliderBounds] = useState<[number, number]>([0, 0]);
-  const [hDelta, setHDelta] = useState(0.00);  // offset to auto-computed H tiers
+  const [hDelta, setHDelta] = useState(initialState?.hDelta ?? 0.00);  // offset to auto-computed H tiers
+  const [smileDynamics, setSmileDynamics] = useState<SmileDynamics>(initialState?.smileDynamics ?? 'sticky-moneyness');
+  const [volShift, setVolShift] = useState(initialState?.volShift ?? 0);
+  const [compareDynamics, setCompareDynamics] = useState(false);
+  const [scenarios, setScenarios] = useState<Scenario[]>(loadScenarios);
+  const [sparklines, setSparklines] = useState<Record<string, PricePoint[]>>({});
+  const [expandedMarket, setExpandedMarket] = useState<string | null>(null);
+  const [eventHistory, setEventHistory] = useState<EventHistory | null>(null);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [replayIndex, setReplayIndex] = useState<number | null>(null);  // null = live
+
+  // Advanced on every spot tick so τ stays consistent with the streamed spot
+  const [nowTs, setNowTs] = useState(() => Math.floor(Date.now() / 1000));
+  const loadingSpot = spotPrice === null;
 
   const expirationTs = event.endDate;
-  const nowTs = Math.floor(Date.now() / 1000);
-  const timeToExpirySec = expirationTs - nowTs;
+
+  // Recalibrated state at past timestamps — recomputed when ΔH changes
+  const replayFrames = useMemo(() => {
+    if (!eventHistory) return [];
+    return buildReplayFrames(
+      markets, eventHistory.histories, eventHistory.candles, expirationTs, optionType, hDelta,
+      eventHistory.startTs, eventHistory.endTs, eventHistory.stepSec
+    );
+  }, [eventHistory, markets, expirationTs, optionType, hDelta]);
+  const replayFrame = replayIndex !== null ? replayFrames[replayIndex] ?? null : null;
+
+  // "As of" state: live values, or the selected replay frame
+  const asOfTs = replayFrame?.ts ?? nowTs;
+  const asOfSpot = replayFrame?.spot ?? spotPrice;
+  const pricedMarkets = useMemo(
+    () => (replayFrame ? marketsAsOf(markets, replayFrame) : markets),
+    [markets, replayFrame]
+  );
+
+  const timeToExpirySec = expirationTs - asOfTs;
   const tauNow = Math.max(timeToExpirySec / (365.25 * 24 * 3600), 0);
+  // Horizons run to the last expiry across all loaded events
+  const lastExpiryTs = useMemo(() => Math.max(...events.map((e) => e.event.endDate)), [events]);
 
   // Compute slider bounds from strike prices
+  const sliderBounds: [number, number] = useMemo(() => computeSliderBounds(markets), [markets]);
+  const [priceRange, setPriceRange] = useState<[number, number]>(initialState?.priceRange ?? sliderBounds);
+  // A range restored from a link or strategy survives a change of bounds while it still fits them;
+  // otherwise the range follows the primary event's strikes
+  const [rangeRestored, setRangeRestored] = useState(initialState?.priceRange != null);
+  const [rangeBounds, setRangeBounds] = useState(sliderBounds);
+  if (sliderBounds[0] !== rangeBounds[0] || sliderBounds[1] !== rangeBounds[1]) {
+    setRangeBounds(sliderBounds);
+    const fits = priceRange[0] >= sliderBounds[0] && priceRange[1] <= sliderBounds[1];
+    if (!rangeRestored || !fits) {
+      setPriceRange(sliderBounds);
+      setRangeRestored(false);
+    }
+  }
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [savedName, setSavedName] = useState<string | null>(null);  // Confirmation toast
+
+  // Mirror the shareable state into the URL hash — debounced, since browsers throttle
+  // history updates and the sliders fire on every step
   useEffect(() => {
-    if (markets.length === 0) return;
-    const strikes = markets.map((m) => m.strikePrice).filter((s) => s > 0);
-    if (strikes.length === 0) return;
-    const minStrike = Math.min(...strikes);
-    const maxStrike = Math.max(...strikes);
-    const lower = roundTo3Zeros(minStrike * 0.9, 'down');
-    const upper = roundTo3Zeros(maxStrike * 1.1, 'up');
-    setSliderBounds([lower, upper]);
-    setPriceRange([lower, upper]);
-  }, [markets]);
+    const timer = setTimeout(() => {
+      replaceHash(encodeChartState({
+        slugs: events.map((e) => e.event.slug),
+        selections: [...selections],
+        legSizes: Object.fromEntries(Object.entries(legSizes).filter(([key]) => selections.has(key))),
+        linkedLegs,
+        entryPrices,
+        priceRange,
+        hDelta,
+        horizons,
+        smileDynamics,
+        volShift,
+      }));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [events, selections, legSizes, linkedLegs, entryPrices, priceRange, hDelta, horizons, smileDynamics, volShift]);
+
+  const handleCopyLink = useCallback(() => {
+    navigator.clipboard.writeText(window.location.href)
+      .then(() => setLinkCopied(true))
+      .catch((err) => console.error('Failed to copy link:', err));
+  }, []);
+
+  // Stream spot price — every (throttled) tick recalibrates the smile and curves.
+  // The selected venue is tried first; the others take over if it goes down.
+  useEffect(() => {
+    if (!crypto) return;
+    const failure = `Failed to fetch ${crypto} price`;
+    return subscribeSpot(
+      failoverOrder(spotSource),
+      crypto,
+      (price, source) => {
+        setError((prev) => (prev === failure ? null : prev));
+        setSpotPrice(price);
+        setActiveSpotSource(source);
+        setNowTs(Math.floor(Date.now() / 1000));
+      },
+      (status, source) => {
+        setSpotStatus(status);
+        setActiveSpotSource(source);
+        if (status === 'failed') setError(failure);
+      }
+    );
+  }, [crypto, spotSource]);
 
-  // Fetch current crypto price
+  // Fetch past-day YES price history for every strike's sparkline
   useEffect(() => {
+    let cancelled = false;
+    for (const market of markets) {
+      if (!market.yesTokenId) continue;
+      fetchPriceHistory(market.yesTokenId, { interval: '1d', fidelity: 30 })
+        .then((points) => {
+          if (!cancelled) setSparklines((prev) => ({ ...prev, [market.id]: points }));
+        })
+        .catch((err) => console.warn(`Failed to fetch price history for ${market.id}:`, err));
+    }
+    return () => { cancelled = true; };
+  }, [markets]);
+
+  const handleLoadHistory = useCallback(() => {
     if (!crypto) return;
-    setLoadingSpot(true);
-    fetchCurrentPrice(crypto)
-      .then((price) => setSpotPrice(price))
+    const endTs = Math.min(nowTs, expirationTs);
+    const startTs = Math.max(event.startDate, endTs - MAX_REPLAY_SPAN_SEC);
+    setLoadingHistory(true);
+    fetchEventHistory(markets, crypto, startTs, endTs)
+      .then((history) => setEventHistory(history))
       .catch((err) => {
-        console.error('Failed to fetch spot price:', err);
-        setError(`Failed to fetch ${crypto} price`);
+        console.error('Failed to fetch event history:', err);
+        setError('Failed to load price history for replay');
       })
-      .finally(() => setLoadingSpot(false));
-  }, [crypto]);
+      .finally(() => setLoadingHistory(false));
+  }, [crypto, markets, event.startDate, expirationTs, nowTs]);
+
+  // Download the loaded replay data as a backtest fixture (see scripts/backtest.ts)
+  const handleExportFixture = useCallback(() => {
+    if (!eventHistory || !crypto) return;
+    const fixture = toBacktestFixture(
+      event.slug, crypto, optionType, event.startDate, expirationTs,
+      markets, eventHistory.histories, eventHistory.candles
+    );
+    const blob = new Blob([JSON.stringify(fixture)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${event.slug}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [eventHistory, crypto, event.slug, event.startDate, optionType, expirationTs, markets]);
+
+  const handleToggleExpanded = useCallback((marketId: string) => {
+    setExpandedMarket((prev) => (prev === marketId ? null : marketId));
+  }, []);
+
+  // A recorded entry price is dropped with its leg, so a leg selected again enters at the live quote
+  const dropEntryPrices = useCallback((keys: string[]) => {
+    setEntryPrices((prev) => {
+      if (!keys.some((key) => key in prev)) return prev;
+      const next = { ...prev };
+      for (const key of keys) delete next[key];
+      return next;
+    });
+  }, []);
 
   const handleToggle = useCallback((marketId: string, side: Side) => {
+    const key = selKey(marketId, side);
+    if (selections.has(key)) dropEntryPrices([key]);
     setSelections((prev) => {
       const next = new Set(prev);
-      const key = selKey(marketId, side);
       if (next.has(key)) next.delete(key); else next.add(key);
       return next;
     });
+  }, [selections, dropEntryPrices]);
+
+  const handleLegSizeChange = useCallback((key: string, size: LegSize) => {
+    setLegSizes((prev) => ({ ...prev, [key]: size }));
   }, []);
 
+  // A template or optimizer result replaces the selection; its legs get explicit share sizes
+  const handleReplaceSelection = useCallback((legs: TemplateLeg[]) => {
+    dropEntryPrices([...selections]);
+    setSelections(new Set(legs.map((l) => selKey(l.marketId, l.side))));
+    setLegSizes((prev) => {
+      const next = { ...prev };
+      for (const l of legs) next[selKey(l.marketId, l.side)] = { mode: 'shares', value: l.shares };
+      return next;
+    });
+  }, [selections, dropEntryPrices]);
+
+  const handleLinkedLegChange = useCallback((key: string, shares: number | null) => {
+    if (shares === null) dropEntryPrices([key]);
+    setLinkedLegs((prev) => {
+      const next = { ...prev };
+      if (shares === null) delete next[key]; else next[key] = shares;
+      return next;
+    });
+  }, [dropEntryPrices]);
+
   const handleSliderChange = useCallback((_: unknown, value: number | number[]) => {
     setPriceRange(value as [number, number]);
+    setRangeRestored(false);
   }, []);
 
   const handleHChange = useCallback((_: unknown, value: number | number[]) => {
     setHDelta(value as number);
   }, []);
 
-  // Calibrate IV and build selected strikes
+  // Calibrate IV per market — shared by both sides, the selection and held positions
+  const strikeIvs: Map<string, number | null> = useMemo(() => {
+    const ivs = new Map<string, number | null>();
+    if (!asOfSpot || tauNow <= 0) return ivs;
+    const hNow = autoH(tauNow, hDelta);
+    for (const market of pricedMarkets) {
+      if (market.strikePrice <= 0) continue;
+      const isUpBarrier = market.strikePrice > asOfSpot;
+      ivs.set(market.id, solveImpliedVol(asOfSpot, market.strikePrice, tauNow, market.currentPrice, optionType, isUpBarrier, hNow));
+    }
+    return ivs;
+  }, [pricedMarkets, asOfSpot, tauNow, optionType, hDelta]);
+
+  // Build selected strikes
   const selectedStrikes: SelectedStrike[] = useMemo(() => {
-    if (!spotPrice || tauNow <= 0) return [];
+    if (!asOfSpot || tauNow <= 0) return [];
 
     const result: SelectedStrike[] = [];
     for (const key of selections) {
       const [marketId, sideStr] = key.split('-') as [string, Side];
-      const market = markets.find((m) => m.id === marketId);
+      const market = pricedMarkets.find((m) => m.id === marketId);
       if (!market || market.strikePrice <= 0) continue;
 
-      const isUpBarrier = market.strikePrice > spotPrice;
-      const hNow = autoH(tauNow, hDelta);
-      const iv = solveImpliedVol(spotPrice, market.strikePrice, tauNow, market.currentPrice, optionType, isUpBarrier, hNow);
+      const isUpBarrier = market.strikePrice > asOfSpot;
+      const iv = strikeIvs.get(market.id);
       const side: Side = sideStr;
-      const entryPrice = side === 'YES' ? market.currentPrice : (1 - market.currentPrice);
+      const quote = sideQuote(market, side);
+      const recorded = entryPrices[key];
+      const quantity = legQuantity(legSizes[key] ?? DEFAULT_LEG_SIZE, recorded ?? quote.ask, recorded ?? quote.bid);
+      const isLong = quantity >= 0;
 
       result.push({
         marketId: market.id,
@@ -150,62 +480,405 @@ export function SecondScreen({
         groupItemTitle: market.groupItemTitle,
         strikePrice: market.strikePrice,
         side,
-        entryPrice,
+        quantity,
+        entryPrice: recorded ?? (isLong ? quote.ask : quote.bid),
+        exitDiscount: isLong ? quote.mid - quote.bid : quote.ask - quote.mid,
+        entrySlippage: depthSlippage(executionLevels(market, side, isLong ? 'buy' : 'sell'), Math.abs(quantity)),
+        exitSlippage: depthSlippage(executionLevels(market, side, isLong ? 'sell' : 'buy'), Math.abs(quantity)),
         impliedVol: iv ?? 0.5,
         isUpBarrier,
       });
     }
     return result;
-  }, [markets, selections, spotPrice, tauNow, optionType, hDelta]);
+  }, [pricedMarkets, selections, legSizes, entryPrices, strikeIvs, asOfSpot, tauNow]);
+
+  // Held positions priced like the selection, but at their own average entry price
+  const heldStrikes: SelectedStrike[] = useMemo(() => {
+    if (!asOfSpot || tauNow <= 0) return [];
+
+    const result: SelectedStrike[] = [];
+    for (const position of heldPositions) {
+      const market = pricedMarkets.find((m) => m.id === position.marketId);
+      if (!market || market.strikePrice <= 0) continue;
+      const quote = sideQuote(market, position.side);
+      result.push({
+        marketId: market.id,
+        question: market.question,
+        groupItemTitle: market.groupItemTitle,
+        strikePrice: market.strikePrice,
+        side: position.side,
+        quantity: position.quantity,
+        entryPrice: position.avgPrice,
+        exitDiscount: position.quantity >= 0 ? quote.mid - quote.bid : quote.ask - quote.mid,
+        exitSlippage: depthSlippage(executionLevels(market, position.side, position.quantity >= 0 ? 'sell' : 'buy'), Math.abs(position.quantity)),
+        impliedVol: strikeIvs.get(market.id) ?? 0.5,
+        isUpBarrier: market.strikePrice > asOfSpot,
+      });
+    }
+    return result;
+  }, [pricedMarkets, heldPositions, strikeIvs, asOfSpot, tauNow]);
 
   // Build IV smile from ALL market strikes (not just selected) — calibrate with H at current τ
   const ivSmile: SmilePoint[] = useMemo(() => {
-    if (!spotPrice || tauNow <= 0) return [];
-    const hNow = autoH(tauNow, hDelta);
-    const points: SmilePoint[] = [];
-    for (const market of markets) {
-      if (market.strikePrice <= 0 || market.currentPrice <= 0.001 || market.currentPrice >= 0.999) continue;
-      const isUpBarrier = market.strikePrice > spotPrice;
-      const iv = solveImpliedVol(spotPrice, market.strikePrice, tauNow, market.currentPrice, optionType, isUpBarrier, hNow);
-      if (iv !== null) {
-        points.push({ moneyness: Math.log(spotPrice / market.strikePrice), iv });
+    if (!asOfSpot || tauNow <= 0) return [];
+    return buildIvSmile(pricedMarkets, asOfSpot, tauNow, optionType, autoH(tauNow, hDelta));
+  }, [pricedMarkets, asOfSpot, tauNow, optionType, hDelta]);
+
+  // How projections move the smile; each book carries the τ^H its smile was calibrated at
+  const smileModel: SmileModel = useMemo(() => ({ dynamics: smileDynamics, volShift }), [smileDynamics, volShift]);
+
+  // The primary event's selection as a book on its own clock
+  const primaryBook: EventBook = useMemo(() => ({
+    label: event.title,
+    strikes: selectedStrikes,
+    optionType,
+    expiryTs: expirationTs,
+    smile: ivSmile,
+    calibrationTauH: Math.pow(tauNow, autoH(tauNow, hDelta)),
+  }), [event.title, selectedStrikes, optionType, expirationTs, ivSmile, tauNow, hDelta]);
+
+  // Linked events' legs, each event calibrated on its own ladder, τ and H at the as-of spot.
+  // Linked quotes are always live — replay scrubs the primary event only.
+  const linkedBooks: EventBook[] = useMemo(() => {
+    if (!asOfSpot) return [];
+    return linkedEvents.map(({ event: linked, markets: linkedMarkets, optionType: linkedType }) => {
+      const tau = Math.max((linked.endDate - asOfTs) / (365.25 * 24 * 3600), 0);
+      const H = autoH(tau, hDelta);
+      const strikes: SelectedStrike[] = [];
+      for (const market of linkedMarkets) {
+        if (market.strikePrice <= 0) continue;
+        for (const side of ['YES', 'NO'] as Side[]) {
+          const quantity = linkedLegs[selKey(market.id, side)];
+          if (!quantity) continue;
+          const isUpBarrier = market.strikePrice > asOfSpot;
+          const quote = sideQuote(market, side);
+          const isLong = quantity >= 0;
+          const iv = tau > 0 ? solveImpliedVol(asOfSpot, market.strikePrice, tau, market.currentPrice, linkedType, isUpBarrier, H) : null;
+          strikes.push({
+            marketId: market.id,
+            question: market.question,
+            groupItemTitle: market.groupItemTitle,
+            strikePrice: market.strikePrice,
+            side,
+            quantity,
+            entryPrice: entryPrices[selKey(market.id, side)] ?? (isLong ? quote.ask : quote.bid),
+            exitDiscount: isLong ? quote.mid - quote.bid : quote.ask - quote.mid,
+            entrySlippage: depthSlippage(executionLevels(market, side, isLong ? 'buy' : 'sell'), Math.abs(quantity)),
+            exitSlippage: depthSlippage(executionLevels(market, side, isLong ? 'sell' : 'buy'), Math.abs(quantity)),
+            impliedVol: iv ?? 0.5,
+            isUpBarrier,
+          });
+        }
       }
-    }
-    return points.sort((a, b) => a.moneyness - b.moneyness);
-  }, [markets, spotPrice, tauNow, optionType, hDelta]);
-
-  // Curve labels with hours
-  const curveLabels = useMemo(() => {
-    const h1 = formatHours(timeToExpirySec);
-    const h2 = formatHours(timeToExpirySec * 2 / 3);
-    const h3 = formatHours(timeToExpirySec / 3);
-    return [
-      `Now (${h1} to exp)`,
-      `1/3 to expiry (${h2})`,
-      `2/3 to expiry (${h3})`,
-      'At expiry',
-    ];
-  }, [timeToExpirySec]);
+      return {
+        label: linked.title,
+        strikes,
+        optionType: linkedType,
+        expiryTs: linked.endDate,
+        smile: tau > 0 ? buildIvSmile(linkedMarkets, asOfSpot, tau, linkedType, H) : [],
+        calibrationTauH: Math.pow(tau, H),
+      };
+    });
+  }, [linkedEvents, linkedLegs, entryPrices, asOfSpot, asOfTs, hDelta]);
+
+  const selectionBooks = useMemo(() => [primaryBook, ...linkedBooks], [primaryBook, linkedBooks]);
+  const linkedLegCount = linkedBooks.reduce((n, b) => n + b.strikes.length, 0);
+  const hasSelection = selectedStrikes.length > 0 || linkedLegCount > 0 || hedge !== null;
+  const heldBook: EventBook = useMemo(() => ({ ...primaryBook, strikes: heldStrikes }), [primaryBook, heldStrikes]);
+  // Held plus selection: the primary book gains the held legs, linked books join as they are
+  const combinedBooks = useMemo(
+    () => [{ ...primaryBook, strikes: [...heldStrikes, ...selectedStrikes] }, ...linkedBooks],
+    [primaryBook, heldStrikes, selectedStrikes, linkedBooks]
+  );
+
+  // Smooth parametric smile for fair values — the interpolated smile reprices every strike exactly
+  const smileQuotes = useMemo(
+    () => pricedMarkets.map((m) => ({ id: m.id, strikePrice: m.strikePrice, ...sideQuote(m, 'YES') })),
+    [pricedMarkets]
+  );
+  const smileFit = useMemo(() => {
+    if (!asOfSpot || tauNow <= 0) return null;
+    return fitSmile(smileQuotes, asOfSpot, tauNow, optionType, autoH(tauNow, hDelta));
+  }, [smileQuotes, asOfSpot, tauNow, optionType, hDelta]);
+  const fairByMarket = useMemo(() => {
+    if (!smileFit || !asOfSpot) return new Map<string, FairValue>();
+    return fairValues(smileQuotes, smileFit, asOfSpot, tauNow, optionType, autoH(tauNow, hDelta));
+  }, [smileQuotes, smileFit, asOfSpot, tauNow, optionType, hDelta]);
+
+  // Strike table order: event order, or by richness vs the fitted smile (unpriced rows last)
+  const strikeRows = useMemo(() => {
+    if (strikeSort === 'event') return pricedMarkets;
+    const dir = strikeSort === 'rich' ? -1 : 1;
+    return [...pricedMarkets].sort((a, b) => {
+      const ra = fairByMarket.get(a.id)?.richness;
+      const rb = fairByMarket.get(b.id)?.richness;
+      if (ra === undefined || rb === undefined) return (ra === undefined ? 1 : 0) - (rb === undefined ? 1 : 0);
+      return dir * (ra - rb);
+    });
+  }, [pricedMarkets, fairByMarket, strikeSort]);
 
-  // Compute 4 P&L curves — each snapshot uses H auto-assigned by its own τ
+  // Snapshot times pinned to the as-of clock, with labels and line styles — in absolute
+  // time once several expiries are loaded
+  const resolvedHorizons = useMemo(
+    () => resolveHorizons(horizons, asOfTs, lastExpiryTs, linkedEvents.length > 0),
+    [horizons, asOfTs, lastExpiryTs, linkedEvents.length]
+  );
+  const curveLabels = useMemo(() => resolvedHorizons.map((r) => r.label), [resolvedHorizons]);
+  const horizonStyles = useMemo(() => curveStyles(resolvedHorizons), [resolvedHorizons]);
+
+  // One P&L curve per horizon — at each snapshot every event's legs use H auto-assigned by that event's own τ.
+  // With trading costs the curves are net, and the gross curves are kept alongside.
+  const costsActive = hasCosts(costModel);
+  const grossCurves: ProjectionPoint[][] = useMemo(() => {
+    const [lower, upper] = priceRange;
+    if (!hasSelection || lower <= 0 || upper <= lower) return [];
+
+    return resolvedHorizons.map(({ ts }) =>
+      computePortfolioPnlCurve(selectionBooks, lower, upper, ts, hDelta, hedge, smileModel)
+    );
+  }, [hasSelection, selectionBooks, hedge, priceRange, resolvedHorizons, hDelta, smileModel]);
   const projectionCurves: ProjectionPoint[][] = useMemo(() => {
     const [lower, upper] = priceRange;
-    if (selectedStrikes.length === 0 || lower <= 0 || upper <= lower) return [];
+    if (!costsActive || grossCurves.length === 0) return grossCurves;
+
+    return resolvedHorizons.map(({ ts }) =>
+      computePortfolioPnlCurve(selectionBooks, lower, upper, ts, hDelta, hedge, smileModel, undefined, costModel)
+    );
+  }, [costsActive, grossCurves, selectionBooks, hedge, priceRange, resolvedHorizons, hDelta, smileModel, costModel]);
+
+  // The selection under each smile dynamics at the last horizon before expiry, for side-by-side comparison
+  const compareHorizon = useMemo(
+    () => [...resolvedHorizons].reverse().find((r) => !r.isExpiry) ?? null,
+    [resolvedHorizons]
+  );
+  const dynamicsOverlays: ProjectionOverlay[] = useMemo(() => {
+    const [lower, upper] = priceRange;
+    if (!compareDynamics || !compareHorizon || !hasSelection || lower <= 0 || upper <= lower) return [];
+    const { ts, label } = compareHorizon;
+    return (Object.keys(SMILE_DYNAMICS_LABELS) as SmileDynamics[]).map((dynamics) => ({
+      label: `${SMILE_DYNAMICS_LABELS[dynamics]} — ${label}`,
+      points: computePortfolioPnlCurve(selectionBooks, lower, upper, ts, hDelta, hedge, { ...smileModel, dynamics }),
+      color: DYNAMICS_COLORS[dynamics],
+      dashArray: '4 3',
+    }));
+  }, [compareDynamics, compareHorizon, hasSelection, selectionBooks, hedge, priceRange, hDelta, smileModel]);
 
-    const tau1 = tauNow;
-    const tau2 = tauNow * (2 / 3);
-    const tau3 = tauNow * (1 / 3);
+  // Held book overlays — alone, and with the selection added to show the trade's marginal effect
+  const heldOverlays: ProjectionOverlay[] = useMemo(() => {
+    const [lower, upper] = priceRange;
+    if (heldStrikes.length === 0 || lower <= 0 || upper <= lower) return [];
 
-    return [
-      computePnlCurve(selectedStrikes, lower, upper, tau1, optionType, autoH(tau1, hDelta), ivSmile),
-      computePnlCurve(selectedStrikes, lower, upper, tau2, optionType, autoH(tau2, hDelta), ivSmile),
-      computePnlCurve(selectedStrikes, lower, upper, tau3, optionType, autoH(tau3, hDelta), ivSmile),
-      computeExpiryPnl(selectedStrikes, lower, upper, optionType),
+    const overlays: ProjectionOverlay[] = [
+      { label: 'Held — now', points: computePortfolioPnlCurve([heldBook], lower, upper, asOfTs, hDelta, null, smileModel), color: HELD_COLOR },
+      { label: 'Held — expiry', points: computeExpiryPnl(heldStrikes, lower, upper, optionType), color: HELD_COLOR, dashArray: '14 6' },
     ];
-  }, [selectedStrikes, priceRange, tauNow, optionType, hDelta, ivSmile]);
+    if (hasSelection) {
+      overlays.push(
+        { label: 'Held + selection — now', points: computePortfolioPnlCurve(combinedBooks, lower, upper, asOfTs, hDelta, hedge, smileModel), color: COMBINED_COLOR },
+        {
+          label: linkedEvents.length > 0 ? 'Held + selection — last expiry' : 'Held + selection — expiry',
+          points: computePortfolioPnlCurve(combinedBooks, lower, upper, lastExpiryTs, hDelta, hedge, smileModel),
+          color: COMBINED_COLOR,
+          dashArray: '14 6',
+        },
+      );
+    }
+    return overlays;
+  }, [heldStrikes, heldBook, combinedBooks, hasSelection, hedge, priceRange, asOfTs, lastExpiryTs, linkedEvents.length, optionType, hDelta, smileModel]);
+
+  const chartOverlays = useMemo(() => [...heldOverlays, ...dynamicsOverlays], [heldOverlays, dynamicsOverlays]);
+
+  // Greeks at spot: per selected leg (linked legs on their own event's τ and H), then totals
+  const greeksRows: GreeksRow[] = useMemo(() => {
+    if (!asOfSpot || tauNow <= 0) return [];
+    const greeksOf = (books: EventBook[], withHedge: HedgeLeg | null = null) =>
+      computePortfolioGreeks(books, asOfSpot, asOfTs, hDelta, withHedge, smileModel);
+
+    const rows: GreeksRow[] = selectionBooks.flatMap((book) => book.strikes.map((s) => ({
+      label: `${s.quantity >= 0 ? '+' : '−'}${Math.abs(s.quantity).toFixed(2)} ${s.side} ${s.groupItemTitle || s.question}${book === primaryBook ? '' : ` · ${book.label}`}`,
+      greeks: greeksOf([{ ...book, strikes: [s] }]),
+    })));
+    if (hedge) {
+      rows.push({ label: `${hedge.size >= 0 ? '+' : '−'}${Math.abs(hedge.size).toFixed(4)} ${crypto} hedge`, greeks: greeksOf([{ ...primaryBook, strikes: [] }], hedge) });
+    }
+    if (hasSelection) {
+      rows.push({ label: hedge ? 'Selection + hedge' : 'Selection', greeks: greeksOf(selectionBooks, hedge), emphasis: true });
+    }
+    if (heldStrikes.length > 0) {
+      rows.push({ label: 'Held', greeks: greeksOf([heldBook]), emphasis: true });
+      if (hasSelection) {
+        rows.push({ label: 'Held + selection', greeks: greeksOf(combinedBooks, hedge), emphasis: true });
+      }
+    }
+    return rows;
+  }, [selectionBooks, primaryBook, heldBook, combinedBooks, hasSelection, heldStrikes.length, hedge, crypto, asOfSpot, asOfTs, tauNow, hDelta, smileModel]);
+
+  // Delta of the options book the hedge offsets: selection plus held, without the hedge
+  const bookDelta = useMemo(() => {
+    if (!asOfSpot || tauNow <= 0) return 0;
+    return computePortfolioGreeks(combinedBooks, asOfSpot, asOfTs, hDelta, null, smileModel).delta;
+  }, [combinedBooks, asOfSpot, asOfTs, tauNow, hDelta, smileModel]);
+
+  // Solve the hedge size for zero net delta at the current spot, keeping any funding rate
+  const handleNeutralize = useCallback(() => {
+    if (!asOfSpot) return;
+    setHedge((prev) => ({
+      size: -bookDelta,
+      entryPrice: asOfSpot,
+      fundingRate: prev?.fundingRate ?? 0,
+      openTau: tauNow,
+    }));
+  }, [asOfSpot, bookDelta, tauNow]);
+
+  // Book analysed by the heatmap, scenarios, implied odds and Monte Carlo — selection (+ hedge), else the held book
+  const analyseSelection = hasSelection;
+  const analysisBooks = useMemo(() => (analyseSelection ? selectionBooks : [heldBook]), [analyseSelection, selectionBooks, heldBook]);
+  const analysisStrikes = analyseSelection ? selectedStrikes : heldStrikes;
+  const analysisHedge = analyseSelection ? hedge : null;
+  const analysisEmpty = analysisBooks.every((b) => b.strikes.length === 0) && !analysisHedge;
+
+  // Delta / theta across the price range for the chart's secondary axis
+  const greeksCurve = useMemo(() => {
+    const [lower, upper] = priceRange;
+    if (analysisEmpty || lower <= 0 || upper <= lower || tauNow <= 0) return [];
+    return computePortfolioGreeksCurve(analysisBooks, lower, upper, asOfTs, hDelta, analysisHedge, smileModel);
+  }, [analysisBooks, analysisHedge, analysisEmpty, priceRange, asOfTs, tauNow, hDelta, smileModel]);
+
+  // Spot × time P&L grid for the heatmap view, out to the last expiry
+  const pnlSurface = useMemo(() => {
+    const [lower, upper] = priceRange;
+    if (chartView !== 'heatmap' || lower <= 0 || upper <= lower) return null;
+    return computePnlSurface(analysisBooks, lower, upper, asOfTs, hDelta, analysisHedge, undefined, undefined, smileModel, costsActive ? costModel : null);
+  }, [chartView, analysisBooks, analysisHedge, priceRange, asOfTs, hDelta, smileModel, costsActive, costModel]);
+
+  // Named stress scenarios marked against the analysis book, and their points on the chart
+  const scenarioResults = useMemo(() => {
+    if (!asOfSpot || analysisEmpty) return [];
+    return scenarios.map((scenario) => evaluateScenario(analysisBooks, analysisHedge, scenario, asOfSpot, asOfTs, hDelta, smileModel, costsActive ? costModel : null));
+  }, [scenarios, analysisBooks, analysisHedge, analysisEmpty, asOfSpot, asOfTs, hDelta, smileModel, costsActive, costModel]);
+  const scenarioMarkers: ChartMarker[] = useMemo(
+    () => scenarioResults.map((r) => ({ label: r.scenario.name, cryptoPrice: r.spot, pnl: r.pnl, color: SCENARIO_COLOR })),
+    [scenarioResults]
+  );
+
+  const handleScenariosChange = useCallback((next: Scenario[]) => {
+    setScenarios(next);
+    saveScenarios(next);
+  }, []);
+
+  // Market-implied distribution from the YES ladder (terminal for "above", reach for "hit")
+  const distribution = useMemo(
+    () => (asOfSpot ? impliedDistribution(pricedMarkets, asOfSpot, optionType) : null),
+    [pricedMarkets, asOfSpot, optionType]
+  );
+  const impliedDensity = useMemo(() => {
+    const grid = projectionCurves[0]?.length ? projectionCurves[0] : heldOverlays[0]?.points;
+    if (!distribution || !grid) return undefined;
+    return densityOnGrid(distribution, grid.map((p) => p.cryptoPrice));
+  }, [distribution, projectionCurves, heldOverlays]);
+  // Primary event only: the ladder's distribution says nothing about other expiries
+  const odds = useMemo(() => {
+    const [lower, upper] = priceRange;
+    if (!distribution || !asOfSpot || linkedLegCount > 0 || (analysisStrikes.length === 0 && !analysisHedge)) return null;
+    const expiryCurve = computeExpiryPnl(analysisStrikes, lower, upper, optionType, analysisHedge);
+    return impliedOdds(distribution, analysisStrikes, analysisHedge, asOfSpot, expiryCurve);
+  }, [distribution, linkedLegCount, analysisStrikes, analysisHedge, asOfSpot, priceRange, optionType]);
+
+  // No-arbitrage violations across strikes; flagged rows are tinted in the strike table
+  const violations = useMemo(
+    () => (asOfSpot ? checkArbitrage(pricedMarkets, optionType, asOfSpot, costModel.feeBps, companionAbove?.markets) : []),
+    [pricedMarkets, optionType, asOfSpot, costModel.feeBps, companionAbove]
+  );
+  const flaggedRows = useMemo(() => {
+    const flags = new Map<string, 'arbitrage' | 'inconsistent'>();
+    for (const v of violations) {
+      for (const id of v.marketIds) {
+        if (v.executable) flags.set(id, 'arbitrage');
+        else if (!flags.has(id)) flags.set(id, 'inconsistent');
+      }
+    }
+    return flags;
+  }, [violations]);
+
+  // Inputs for the Monte Carlo panel, marked at every horizon — single-event books only
+  const monteCarloRequest: Omit<MonteCarloRequest, 'config'> | null = useMemo(() => {
+    if (!asOfSpot || tauNow <= 0 || linkedLegCount > 0 || (analysisStrikes.length === 0 && !analysisHedge)) return null;
+    return {
+      strikes: analysisStrikes,
+      hedge: analysisHedge,
+      spot: asOfSpot,
+      tau: tauNow,
+      optionType,
+      hDelta,
+      smile: ivSmile,
+      model: { ...smileModel, calibrationTauH: primaryBook.calibrationTauH },
+      costs: costsActive ? costModel : null,
+      horizons: resolvedHorizons.map((h) => ({ label: h.label, tau: bookTau(primaryBook, h.ts) })),
+    };
+  }, [linkedLegCount, analysisStrikes, analysisHedge, asOfSpot, tauNow, optionType, hDelta, ivSmile, smileModel, costsActive, costModel, resolvedHorizons, primaryBook]);
+
+  const entryCost = selectionBooks.reduce((sum, b) => sum + totalEntryCost(b.strikes), 0);
+  // Selection's entry fees, fixed costs and slippage under the cost model
+  const selectionCosts = useMemo(() => {
+    const legs = selectionBooks.flatMap((b) => b.strikes);
+    return legs.length > 0 ? entryCosts(legs, costModel) : null;
+  }, [selectionBooks, costModel]);
+  const handleCostModelChange = useCallback((next: CostModel) => {
+    setCostModel(next);
+    saveCostModel(next);
+  }, []);
+  const handleFeeChange = useCallback(
+    (feeBps: number) => handleCostModelChange({ ...costModel, feeBps }),
+    [costModel, handleCostModelChange]
+  );
+  const positionLegs = useMemo(() => {
+    const legs = selectionBooks.flatMap((book) => book.strikes.map((s) => ({
+      label: `${s.side} ${s.groupItemTitle || s.question}${book === primaryBook ? '' : ` · ${book.label}`}`,
+      quantity: s.quantity,
+    })));
+    if (hedge) legs.push({ label: `${crypto} hedge @ $${hedge.entryPrice.toLocaleString(undefined, { maximumFractionDigits: 2 })}`, quantity: hedge.size });
+    return legs;
+  }, [selectionBooks, primaryBook, hedge, crypto]);
+  // Save the selection, linked legs and model settings to the strategy library
+  const handleSaveStrategy = useCallback((name: string, notes: string) => {
+    const legs: StrategyLeg[] = [
+      ...selectedStrikes.map((s) => ({
+        eventSlug: event.slug,
+        marketId: s.marketId,
+        side: s.side,
+        label: s.groupItemTitle || s.question,
+        size: legSizes[selKey(s.marketId, s.side)] ?? DEFAULT_LEG_SIZE,
+        entryPrice: s.entryPrice,
+      })),
+      ...linkedBooks.flatMap((book, i) => book.strikes.map((s) => ({
+        eventSlug: linkedEvents[i].event.slug,
+        marketId: s.marketId,
+        side: s.side,
+        label: s.groupItemTitle || s.question,
+        size: { mode: 'shares' as const, value: s.quantity },
+        entryPrice: s.entryPrice,
+      }))),
+    ];
+    saveStrategies([...loadStrategies(), {
+      id: window.crypto.randomUUID(),
+      name,
+      notes,
+      savedAt: Math.floor(Date.now() / 1000),
+      eventTitle: event.title,
+      slugs: events.map((e) => e.event.slug),
+      legs,
+      priceRange,
+      hDelta,
+      horizons,
+      smileDynamics,
+      volShift,
+    }]);
+    setSaveOpen(false);
+    setSavedName(name);
+  }, [selectedStrikes, linkedBooks, linkedEvents, events, event.slug, event.title, legSizes, priceRange, hDelta, horizons, smileDynamics, volShift]);
 
   const expiryDate = new Date(expirationTs * 1000);
-  const hasSelections = selections.size > 0;
+  const hasSelections = selections.size > 0 || linkedLegCount > 0 || heldStrikes.length > 0 || hedge !== null;
 
   // Slider step: scale based on range
   const sliderStep = useMemo(() => {
@@ -237,6 +910,41 @@ export function SecondScreen({
         >
           <ArrowBack />
         </IconButton>
+        <Tooltip title={linkCopied ? 'Link copied' : 'Copy a link to this view'}>
+          <IconButton
+            onClick={handleCopyLink}
+            onMouseLeave={() => setLinkCopied(false)}
+            sx={{
+              bgcolor: 'rgba(139, 157, 195, 0.1)',
+              '&:hover': { bgcolor: 'rgba(139, 157, 195, 0.2)' },
+            }}
+          >
+            <Link />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title="Save as strategy">
+          <span>
+            <IconButton
+              onClick={() => setSaveOpen(true)}
+              disabled={selectedStrikes.length === 0 && linkedLegCount === 0}
+              sx={{
+                bgcolor: 'rgba(139, 157, 195, 0.1)',
+                '&:hover': { bgcolor: 'rgba(139, 157, 195, 0.2)' },
+              }}
+            >
+              <BookmarkAdd />
+            </IconButton>
+          </span>
+        </Tooltip>
+        {saveOpen && (
+          <SaveStrategyDialog open defaultName={event.title} onClose={() => setSaveOpen(false)} onSave={handleSaveStrategy} />
+        )}
+        <Snackbar
+          open={savedName !== null}
+          autoHideDuration={3000}
+          onClose={() => setSavedName(null)}
+          message={`Saved “${savedName ?? ''}” — reopen it from the start screen`}
+        />
         <Box sx={{ flex: 1 }}>
           <Typography
             variant="h4"
@@ -293,9 +1001,9 @@ export function SecondScreen({
                 border: '1px solid rgba(139, 157, 195, 0.2)',
               }}
             />
-            {spotPrice && (
+            {asOfSpot && (
               <Chip
-                label={`${crypto} Spot: $${spotPrice.toLocaleString(undefined, { maximumFractionDigits: 2 })}`}
+                label={`${crypto} Spot: $${asOfSpot.toLocaleString(undefined, { maximumFractionDigits: 2 })}${replayFrame ? '' : ` · ${SPOT_PROVIDERS[activeSpotSource].label} ${spotStatus}`}${!replayFrame && activeSpotSource !== spotSource ? ' (failover)' : ''}`}
                 size="small"
                 sx={{
                   bgcolor: 'rgba(34, 197, 94, 0.1)',
@@ -304,8 +1012,39 @@ export function SecondScreen({
                 }}
               />
             )}
+            {replayFrame && (
+              <Chip
+                label={`Replay: ${new Date(replayFrame.ts * 1000).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}`}
+                size="small"
+                onDelete={() => setReplayIndex(null)}
+                sx={{
+                  bgcolor: 'rgba(255, 176, 32, 0.1)',
+                  color: '#FFB020',
+                  border: '1px solid rgba(255, 176, 32, 0.3)',
+                }}
+              />
+            )}
           </Box>
         </Box>
+        {crypto && (
+          <Box sx={{ ml: 'auto', display: 'flex', flexDirection: 'column', alignItems: 'flex-end', gap: 0.5 }}>
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={spotSource}
+              onChange={(_, value: SpotSource | null) => value && setSpotSource(value)}
+            >
+              {SPOT_SOURCES.map((source) => (
+                <ToggleButton key={source} value={source} sx={{ px: 1.25, py: 0.25 }}>
+                  {SPOT_PROVIDERS[source].label}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+            <Typography variant="caption" color="text.secondary">
+              Resolves on {SPOT_PROVIDERS[resolutionSpotSource].label}
+            </Typography>
+          </Box>
+        )}
       </Box>
 
       {error && (
@@ -331,6 +1070,34 @@ export function SecondScreen({
           border: '1px solid rgba(139, 157, 195, 0.15)',
         }}
       >
+        {!loadingSpot && hasSelections && (
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, mb: 1 }}>
+            <Typography variant="body2" color="text.secondary">
+              {odds && (
+                <>
+                  Market-implied at expiry: E[P&L]{' '}
+                  <Box component="span" sx={{ color: odds.expectedPnl >= 0 ? '#22C55E' : '#EF4444', fontWeight: 600 }}>
+                    {odds.expectedPnl >= 0 ? '+' : '−'}${Math.abs(odds.expectedPnl).toFixed(2)}
+                  </Box>
+                  {' · '}P(profit) <strong>{(odds.probProfit * 100).toFixed(1)}%</strong>
+                  {' · '}Break-even{' '}
+                  {odds.breakEvens.length > 0
+                    ? odds.breakEvens.map((b) => `$${Math.round(b).toLocaleString()}`).join(', ')
+                    : 'none in range'}
+                </>
+              )}
+            </Typography>
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={chartView}
+              onChange={(_, value: 'curves' | 'heatmap' | null) => value && setChartView(value)}
+            >
+              <ToggleButton value="curves" sx={{ px: 1.25, py: 0.25 }}>Curves</ToggleButton>
+              <ToggleButton value="heatmap" sx={{ px: 1.25, py: 0.25 }}>Spot × time heatmap</ToggleButton>
+            </ToggleButtonGroup>
+          </Box>
+        )}
         {loadingSpot ? (
           <Box
             sx={{
@@ -339,9 +1106,14 @@ export function SecondScreen({
               display: 'flex',
               alignItems: 'center',
               justifyContent: 'center',
+              flexDirection: 'column',
+              gap: 2,
             }}
           >
-            <CircularProgress />
+            {spotStatus !== 'failed' && <CircularProgress />}
+            <Typography variant="body2" color="text.secondary">
+              {SPOT_STATUS_LABELS[spotStatus]} {SPOT_PROVIDERS[activeSpotSource].label} {crypto} spot price…
+            </Typography>
           </Box>
         ) : !hasSelections ? (
           <Box
@@ -358,16 +1130,32 @@ export function SecondScreen({
           >
             <Typography variant="h6">No strikes selected</Typography>
             <Typography variant="body2">
-              Select YES or NO on strikes below to see the P&L projection
+              Select YES or NO on strikes below, or add a held position, to see the P&L projection
             </Typography>
           </Box>
-        ) : projectionCurves.length > 0 && spotPrice ? (
+        ) : chartView === 'heatmap' && pnlSurface && asOfSpot ? (
+          <PnlHeatmap
+            surface={pnlSurface}
+            currentCryptoPrice={asOfSpot}
+            cryptoSymbol={crypto || 'BTC'}
+            totalEntryCost={analysisBooks.reduce((sum, b) => sum + totalEntryCost(b.strikes), 0)}
+          />
+        ) : (projectionCurves.length > 0 || heldOverlays.length > 0) && asOfSpot ? (
           <ProjectionChart
             curves={projectionCurves}
             curveLabels={curveLabels}
-            currentCryptoPrice={spotPrice}
+            curveStyles={horizonStyles}
+            currentCryptoPrice={asOfSpot}
             cryptoSymbol={crypto || 'BTC'}
-            totalEntryCost={selectedStrikes.reduce((sum, s) => sum + s.entryPrice, 0)}
+            totalEntryCost={entryCost + (costsActive && selectionCosts ? costTotal(selectionCosts) : 0)}
+            legs={positionLegs}
+            grossCurves={costsActive ? grossCurves : undefined}
+            entryCosts={costsActive ? selectionCosts ?? undefined : undefined}
+            overlays={chartOverlays}
+            greeks={greeksCurve}
+            density={impliedDensity}
+            densityLabel={optionType === 'hit' ? 'Implied reach (touch odds)' : 'Implied density'}
+            markers={scenarioMarkers}
           />
         ) : null}
 
@@ -413,8 +1201,41 @@ export function SecondScreen({
           </Box>
         )}
 
+        {/* Projection snapshot times */}
+        {!loadingSpot && <HorizonEditor horizons={horizons} onChange={setHorizons} />}
       </Paper>
 
+      {/* Greeks of the selection and held book at spot */}
+      {greeksRows.length > 0 && asOfSpot && (
+        <GreeksPanel rows={greeksRows} cryptoSymbol={crypto ?? ''} spot={asOfSpot} />
+      )}
+
+      {/* Linear hedge in the underlying */}
+      {!loadingSpot && asOfSpot && (hasSelection || heldStrikes.length > 0) && (
+        <HedgePanel
+          hedge={hedge}
+          cryptoSymbol={crypto ?? ''}
+          spot={asOfSpot}
+          bookDelta={bookDelta}
+          onChange={setHedge}
+          onNeutralize={handleNeutralize}
+        />
+      )}
+
+      {/* Named stress scenarios */}
+      {!loadingSpot && asOfSpot && (
+        <ScenarioPanel
+          scenarios={scenarios}
+          results={scenarioResults}
+          cryptoSymbol={crypto ?? ''}
+          bookLabel={analyseSelection ? (hedge ? 'Selection + hedge' : 'Selection') : 'Held book'}
+          onChange={handleScenariosChange}
+        />
+      )}
+
+      {/* P&L distribution by simulation */}
+      {!loadingSpot && monteCarloRequest && <MonteCarloPanel request={monteCarloRequest} />}
+
       {/* Time Exponent (H) Slider — ΔH offset applied to auto-computed tiers */}
       {!loadingSpot && (
         <Paper
@@ -463,6 +1284,87 @@ export function SecondScreen({
         </Paper>
       )}
 
+      {/* Smile dynamics and vol shift scenario */}
+      {!loadingSpot && (
+        <SmileModelPanel
+          dynamics={smileDynamics}
+          volShift={volShift}
+          compare={compareDynamics}
+          compareLabel={compareHorizon?.label ?? null}
+          onDynamicsChange={setSmileDynamics}
+          onVolShiftChange={setVolShift}
+          onCompareChange={setCompareDynamics}
+        />
+      )}
+
+      {/* Fees, fixed costs and slippage — net vs gross projection curves */}
+      {!loadingSpot && (
+        <CostModelPanel model={costModel} entryCosts={selectionCosts} onChange={handleCostModelChange} />
+      )}
+
+      {/* Further events on the same underlying, priced on their own clocks */}
+      {!loadingSpot && (
+        <LinkedEventsPanel
+          events={linkedEvents}
+          loadedIds={events.map((e) => e.event.id)}
+          crypto={crypto}
+          legs={linkedLegs}
+          onLegChange={handleLinkedLegChange}
+          onAddEvent={onAddEvent}
+          onRemoveEvent={onRemoveEvent}
+        />
+      )}
+
+      {/* History replay — scrub the primary event back to a past moment */}
+      {!loadingSpot && (
+        <ReplayPanel
+          frames={replayFrames}
+          frameIndex={replayIndex}
+          loading={loadingHistory}
+          loaded={eventHistory !== null}
+          onLoad={handleLoadHistory}
+          onFrameChange={setReplayIndex}
+          onExportFixture={handleExportFixture}
+        />
+      )}
+
+      {/* Positions already held — a separate book overlaid on the chart */}
+      <HeldPositionsPanel
+        markets={pricedMarkets}
+        positions={heldPositions}
+        onChange={setHeldPositions}
+      />
+
+      {/* Cross-strike consistency and arbitrage */}
+      {!loadingSpot && asOfSpot && (
+        <ArbitragePanel
+          violations={violations}
+          optionType={optionType}
+          crypto={crypto}
+          expirationTs={expirationTs}
+          feeBps={costModel.feeBps}
+          onFeeChange={handleFeeChange}
+          companionTitle={companionAbove?.title ?? null}
+          onCompanionChange={setCompanionAbove}
+        />
+      )}
+
+      {/* One-click structures mapped onto the strike list */}
+      {!loadingSpot && asOfSpot && (
+        <TemplatePanel markets={pricedMarkets} spot={asOfSpot} optionType={optionType} onApply={handleReplaceSelection} />
+      )}
+
+      {/* Cheapest legs meeting a target payoff */}
+      {!loadingSpot && asOfSpot && (
+        <OptimizerPanel
+          markets={pricedMarkets}
+          spot={asOfSpot}
+          optionType={optionType}
+          cryptoSymbol={crypto ?? ''}
+          onApply={handleReplaceSelection}
+        />
+      )}
+
       {/* Strike Selection — Single Column Polymarket Style */}
       <Paper
         elevation={0}
@@ -471,15 +1373,22 @@ export function SecondScreen({
           border: '1px solid rgba(139, 157, 195, 0.15)',
         }}
       >
-        <Typography variant="h6" sx={{ mb: 2, fontWeight: 600 }}>
-          Select Strikes
-        </Typography>
+        <Box sx={{ mb: 2 }}>
+          <Typography variant="h6" sx={{ fontWeight: 600 }}>
+            Select Strikes
+          </Typography>
+          {smileFit && (
+            <Typography variant="caption" color="text.secondary">
+              Fair values from a quadratic smile fit to {smileFit.points} strikes (RMS error {(smileFit.rmse * 100).toFixed(1)} vol pts) — buy / sell edges are vs the YES ask / bid
+            </Typography>
+          )}
+        </Box>
 
         {/* Header row */}
         <Box
           sx={{
             display: 'grid',
-            gridTemplateColumns: '1fr 120px 120px',
+            gridTemplateColumns: STRIKE_COLUMNS,
             gap: 1,
             mb: 1,
             px: 2,
@@ -488,6 +1397,19 @@ export function SecondScreen({
           <Typography variant="body2" color="text.secondary" sx={{ fontWeight: 600 }}>
             Strike
           </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ fontWeight: 600, textAlign: 'center' }}>
+            24h
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ fontWeight: 600, textAlign: 'right' }}>
+            <TableSortLabel
+              active={strikeSort !== 'event'}
+              direction={strikeSort === 'cheap' ? 'asc' : 'desc'}
+              onClick={() => setStrikeSort((s) => (s === 'event' ? 'rich' : s === 'rich' ? 'cheap' : 'event'))}
+              title="Sort by mid − fair: richest first, cheapest first, event order"
+            >
+              Fair · rich/cheap
+            </TableSortLabel>
+          </Typography>
           <Typography variant="body2" color="text.secondary" sx={{ fontWeight: 600, textAlign: 'center' }}>
             YES
           </Typography>
@@ -497,106 +1419,190 @@ export function SecondScreen({
         </Box>
 
         {/* Rows */}
-        {markets.map((market) => {
+        {strikeRows.map((market) => {
           const yesKey = selKey(market.id, 'YES');
           const noKey = selKey(market.id, 'NO');
           const yesSelected = selections.has(yesKey);
           const noSelected = selections.has(noKey);
-          const yesPrice = market.currentPrice;
-          const noPrice = 1 - market.currentPrice;
-          const ivInfo = selectedStrikes.find((s) => s.marketId === market.id);
+          const yesQuote = sideQuote(market, 'YES');
+          const noQuote = sideQuote(market, 'NO');
+          const iv = strikeIvs.get(market.id) ?? null;
+          const heldHere = heldPositions.filter((p) => p.marketId === market.id);
+          const isExpanded = expandedMarket === market.id;
+          const flag = flaggedRows.get(market.id);
+          const fairValue = fairByMarket.get(market.id);
+          const flagColor = flag === 'arbitrage' ? ARB_COLOR : INCONSISTENT_COLOR;
 
           return (
-            <Box
-              key={market.id}
-              sx={{
-                display: 'grid',
-                gridTemplateColumns: '1fr 120px 120px',
-                gap: 1,
-                alignItems: 'center',
-                px: 2,
-                py: 1,
-                borderRadius: 1,
-                bgcolor: (yesSelected || noSelected) ? 'rgba(0, 209, 255, 0.03)' : 'transparent',
-                borderBottom: '1px solid rgba(139, 157, 195, 0.06)',
-                '&:hover': { bgcolor: 'rgba(139, 157, 195, 0.04)' },
-              }}
-            >
-              {/* Strike info */}
-              <Box>
-                <Typography variant="body1" sx={{ fontWeight: 500, fontSize: '1.125rem' }}>
-                  {market.groupItemTitle || market.question}
-                </Typography>
-                {ivInfo && (
-                  <Typography variant="caption" sx={{ color: '#00D1FF' }}>
-                    IV: {(ivInfo.impliedVol * 100).toFixed(1)}%
-                  </Typography>
-                )}
-              </Box>
-
-              {/* YES */}
+            <Box key={market.id} sx={{ borderBottom: '1px solid rgba(139, 157, 195, 0.06)' }}>
               <Box
                 sx={{
-                  display: 'flex',
+                  display: 'grid',
+                  gridTemplateColumns: STRIKE_COLUMNS,
+                  gap: 1,
                   alignItems: 'center',
-                  justifyContent: 'center',
-                  gap: 0.5,
+                  px: 2,
+                  py: 1,
+                  borderRadius: 1,
+                  bgcolor: flag
+                    ? `${flagColor}14`
+                    : (yesSelected || noSelected) ? 'rgba(0, 209, 255, 0.03)' : 'transparent',
+                  borderLeft: flag ? `3px solid ${flagColor}` : '3px solid transparent',
+                  '&:hover': { bgcolor: 'rgba(139, 157, 195, 0.04)' },
                 }}
               >
-                <Checkbox
-                  checked={yesSelected}
-                  onChange={() => handleToggle(market.id, 'YES')}
-                  size="small"
-                  sx={{ '&.Mui-checked': { color: '#22C55E' }, p: 0.5 }}
-                />
-                <Typography
-                  variant="body2"
+                {/* Strike info */}
+                <Box>
+                  <Typography variant="body1" sx={{ fontWeight: 500, fontSize: '1.125rem' }}>
+                    {market.groupItemTitle || market.question}
+                  </Typography>
+                  {iv !== null && (yesSelected || noSelected || heldHere.length > 0) && (
+                    <Typography variant="caption" sx={{ color: '#00D1FF' }}>
+                      IV: {(iv * 100).toFixed(1)}%
+                    </Typography>
+                  )}
+                  {flag && (
+                    <Typography variant="caption" sx={{ display: 'block', color: flagColor }}>
+                      {flag === 'arbitrage' ? 'Arbitrage — see Arbitrage check' : 'Out of line with neighbouring strikes'}
+                    </Typography>
+                  )}
+                  {heldHere.map((p) => (
+                    <Typography key={p.id} variant="caption" sx={{ display: 'block', color: HELD_COLOR }}>
+                      Held {p.quantity >= 0 ? '+' : '−'}{Math.abs(p.quantity)} {p.side} @ {(p.avgPrice * 100).toFixed(1)}¢
+                    </Typography>
+                  ))}
+                </Box>
+
+                {/* 24h sparkline — click to expand the full history chart */}
+                <Box
+                  onClick={() => handleToggleExpanded(market.id)}
+                  sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', cursor: 'pointer' }}
+                >
+                  <Sparkline points={sparklines[market.id] ?? []} />
+                  {isExpanded
+                    ? <ExpandLess fontSize="small" sx={{ color: 'text.secondary' }} />
+                    : <ExpandMore fontSize="small" sx={{ color: 'text.secondary' }} />}
+                </Box>
+
+                {/* Fair value at the fitted smile and edge vs the YES quotes */}
+                <Box sx={{ textAlign: 'right' }}>
+                  {fairValue ? (
+                    <>
+                      <Typography variant="body2">
+                        {(fairValue.fair * 100).toFixed(1)}¢{' '}
+                        <Box component="span" sx={{ color: fairValue.richness > 0 ? '#EF4444' : '#22C55E', fontWeight: 600 }}>
+                          {fairValue.richness > 0 ? 'rich' : 'cheap'} {formatCents(Math.abs(fairValue.richness))}
+                        </Box>
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', lineHeight: 1.2 }}>
+                        buy {formatCents(fairValue.buyEdge, true)} · sell {formatCents(fairValue.sellEdge, true)}
+                      </Typography>
+                    </>
+                  ) : (
+                    <Typography variant="body2" color="text.secondary">—</Typography>
+                  )}
+                </Box>
+
+                {/* YES */}
+                <Box
                   sx={{
-                    color: yesSelected ? '#22C55E' : 'text.secondary',
-                    fontWeight: yesSelected ? 600 : 400,
-                    fontSize: '1rem',
-                    minWidth: 45,
-                    textAlign: 'right',
+                    display: 'flex',
+                    flexWrap: 'wrap',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    gap: 0.5,
                   }}
                 >
-                  {(yesPrice * 100).toFixed(1)}¢
-                </Typography>
-              </Box>
+                  <Checkbox
+                    checked={yesSelected}
+                    onChange={() => handleToggle(market.id, 'YES')}
+                    size="small"
+                    sx={{ '&.Mui-checked': { color: '#22C55E' }, p: 0.5 }}
+                  />
+                  <Box sx={{ textAlign: 'right', minWidth: 45 }}>
+                    <Typography
+                      variant="body2"
+                      sx={{
+                        color: yesSelected ? '#22C55E' : 'text.secondary',
+                        fontWeight: yesSelected ? 600 : 400,
+                        fontSize: '1rem',
+                      }}
+                    >
+                      {(yesQuote.ask * 100).toFixed(1)}¢
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block', lineHeight: 1.2 }}>
+                      bid {(yesQuote.bid * 100).toFixed(1)}
+                    </Typography>
+                  </Box>
+                  {yesSelected && (
+                    <LegSizeInput
+                      size={legSizes[yesKey] ?? DEFAULT_LEG_SIZE}
+                      ask={yesQuote.ask}
+                      bid={yesQuote.bid}
+                      entryPrice={entryPrices[yesKey]}
+                      color="#22C55E"
+                      onChange={(size) => handleLegSizeChange(yesKey, size)}
+                    />
+                  )}
+                </Box>
 
-              {/* NO */}
-              <Box
-                sx={{
-                  display: 'flex',
-                  alignItems: 'center',
-                  justifyContent: 'center',
-                  gap: 0.5,
-                }}
-              >
-                <Checkbox
-                  checked={noSelected}
-                  onChange={() => handleToggle(market.id, 'NO')}
-                  size="small"
-                  sx={{ '&.Mui-checked': { color: '#EF4444' }, p: 0.5 }}
-                />
-                <Typography
-                  variant="body2"
+                {/* NO */}
+                <Box
                   sx={{
-                    color: noSelected ? '#EF4444' : 'text.secondary',
-                    fontWeight: noSelected ? 600 : 400,
-                    fontSize: '1rem',
-                    minWidth: 45,
-                    textAlign: 'right',
+                    display: 'flex',
+                    flexWrap: 'wrap',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    gap: 0.5,
                   }}
                 >
-                  {(noPrice * 100).toFixed(1)}¢
-                </Typography>
+                  <Checkbox
+                    checked={noSelected}
+                    onChange={() => handleToggle(market.id, 'NO')}
+                    size="small"
+                    sx={{ '&.Mui-checked': { color: '#EF4444' }, p: 0.5 }}
+                  />
+                  <Box sx={{ textAlign: 'right', minWidth: 45 }}>
+                    <Typography
+                      variant="body2"
+                      sx={{
+                        color: noSelected ? '#EF4444' : 'text.secondary',
+                        fontWeight: noSelected ? 600 : 400,
+                        fontSize: '1rem',
+                      }}
+                    >
+                      {(noQuote.ask * 100).toFixed(1)}¢
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block', lineHeight: 1.2 }}>
+                      bid {(noQuote.bid * 100).toFixed(1)}
+                    </Typography>
+                  </Box>
+                  {noSelected && (
+                    <LegSizeInput
+                      size={legSizes[noKey] ?? DEFAULT_LEG_SIZE}
+                      ask={noQuote.ask}
+                      bid={noQuote.bid}
+                      entryPrice={entryPrices[noKey]}
+                      color="#EF4444"
+                      onChange={(size) => handleLegSizeChange(noKey, size)}
+                    />
+                  )}
+                </Box>
               </Box>
+              <Collapse in={isExpanded} unmountOnExit>
+                <Box sx={{ px: 2 }}>
+                  <PriceHistoryChart
+                    tokenId={market.yesTokenId}
+                    title={market.groupItemTitle || market.question}
+                  />
+                </Box>
+              </Collapse>
             </Box>
           );
         })}
 
         {/* Entry cost summary */}
-        {selectedStrikes.length > 0 && (
+        {(selectedStrikes.length > 0 || linkedLegCount > 0) && (
           <Box
             sx={{
               mt: 2,
@@ -608,10 +1614,13 @@ export function SecondScreen({
             }}
           >
             <Typography variant="body2" color="text.secondary">
-              Positions: {selectedStrikes.length}
+              Positions: {selectedStrikes.length + linkedLegCount}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Shares: {selectionBooks.flatMap((b) => b.strikes).map((s) => `${s.quantity >= 0 ? '+' : '−'}${Math.abs(s.quantity).toFixed(2)} ${s.side}`).join(', ')}
             </Typography>
             <Typography variant="body2" sx={{ color: '#00D1FF', fontWeight: 600 }}>
-              Entry cost: {selectedStrikes.reduce((sum, s) => sum + s.entryPrice, 0).toFixed(4)}
+              {entryCost >= 0 ? 'Entry cost' : 'Entry credit'}: {formatUsd(Math.abs(entryCost))}
             </Typography>
           </Box>
         )}
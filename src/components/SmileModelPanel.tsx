@@ -0,0 +1,97 @@
+import { Box, FormControlLabel, Paper, Slider, Switch, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material';
+import type { SmileDynamics } from '../types';
+import { SMILE_DYNAMICS_LABELS } from '../pricing/engine';
+
+const DYNAMICS_HINTS: Record<SmileDynamics, string> = {
+  'sticky-strike': 'Each strike keeps the IV calibrated at today’s spot',
+  'sticky-moneyness': 'IV follows ln(S/K) along today’s smile as spot moves',
+  'sticky-delta': 'IV follows ln(S/K) / τ^H — strikes drift out along the smile as expiry nears',
+};
+
+interface SmileModelPanelProps {
+  dynamics: SmileDynamics;
+  volShift: number; // In vol (0.05 = +5 points)
+  compare: boolean;
+  compareLabel: string | null; // Horizon the comparison curves are drawn at
+  onDynamicsChange: (dynamics: SmileDynamics) => void;
+  onVolShiftChange: (volShift: number) => void;
+  onCompareChange: (compare: boolean) => void;
+}
+
+/**
+ * Smile dynamics used by the projection curves, Greeks and heatmap, a parallel IV
+ * shift scenario, and a switch that overlays the selection under all three dynamics.
+ */
+export function SmileModelPanel({
+  dynamics,
+  volShift,
+  compare,
+  compareLabel,
+  onDynamicsChange,
+  onVolShiftChange,
+  onCompareChange,
+}: SmileModelPanelProps) {
+  const points = volShift * 100;
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 3,
+        border: '1px solid rgba(139, 157, 195, 0.15)',
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+        <Box>
+          <Typography variant="h6" sx={{ fontWeight: 600 }}>
+            Smile dynamics
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            {DYNAMICS_HINTS[dynamics]}
+          </Typography>
+        </Box>
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          value={dynamics}
+          onChange={(_, value: SmileDynamics | null) => {
+            if (value) onDynamicsChange(value);
+          }}
+        >
+          {(Object.keys(SMILE_DYNAMICS_LABELS) as SmileDynamics[]).map((d) => (
+            <ToggleButton key={d} value={d} sx={{ px: 1.25, py: 0.25 }}>
+              {SMILE_DYNAMICS_LABELS[d]}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Box>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 3 }}>
+        <Box sx={{ flex: 1, px: 1 }}>
+          <Typography variant="body2" color="text.secondary" sx={{ fontWeight: 600 }}>
+            Vol shift: {points >= 0 ? '+' : '−'}{Math.abs(points).toFixed(1)} vol pts
+          </Typography>
+          <Slider
+            value={points}
+            onChange={(_, value) => onVolShiftChange((value as number) / 100)}
+            min={-20}
+            max={20}
+            step={0.5}
+            marks={[{ value: 0 }]}
+            valueLabelDisplay="auto"
+            valueLabelFormat={(v) => `${v >= 0 ? '+' : '−'}${Math.abs(v)}`}
+            sx={{ color: '#34D399' }}
+          />
+        </Box>
+        <FormControlLabel
+          control={<Switch checked={compare} onChange={(e) => onCompareChange(e.target.checked)} />}
+          label={
+            <Typography variant="body2" color="text.secondary">
+              Compare all three{compareLabel ? ` at ${compareLabel}` : ''}
+            </Typography>
+          }
+        />
+      </Box>
+    </Paper>
+  );
+}
@@ -0,0 +1,202 @@
+import { useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Close, Download, FileUpload, OpenInNew } from '@mui/icons-material';
+import type { Strategy, StrategyLeg } from '../types';
+import { loadStrategies, saveStrategies } from '../api/storage';
+import { mergeStrategies, parseStrategies, serializeStrategies } from '../api/strategies';
+
+function describeLeg(leg: StrategyLeg): string {
+  const sign = leg.size.value >= 0 ? '+' : '−';
+  const size = leg.size.mode === 'usd' ? `$${Math.abs(leg.size.value)}` : `${Math.abs(leg.size.value)}`;
+  return `${sign}${size} ${leg.side} ${leg.label}`;
+}
+
+/** Entry cost at the prices the strategy was saved with (negative = credit) */
+function savedCost(strategy: Strategy): number {
+  return strategy.legs.reduce(
+    (sum, leg) => sum + (leg.size.mode === 'usd' ? leg.size.value : leg.size.value * leg.entryPrice),
+    0
+  );
+}
+
+function download(strategies: Strategy[], filename: string) {
+  const blob = new Blob([serializeStrategies(strategies)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function fileSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'strategy';
+}
+
+/**
+ * Saved strategies on the first screen: reopen, delete, and export / import as
+ * versioned JSON so standard structures can be shared as files.
+ */
+export function StrategyLibrary({ onOpen }: { onOpen: (strategy: Strategy) => void }) {
+  const [strategies, setStrategies] = useState<Strategy[]>(loadStrategies);
+  const [message, setMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const update = (next: Strategy[]) => {
+    setStrategies(next);
+    saveStrategies(next);
+  };
+
+  const handleImport = (file: File) => {
+    file.text()
+      .then((json) => {
+        const imported = parseStrategies(json);
+        update(mergeStrategies(strategies, imported));
+        setMessage({ severity: 'success', text: `Imported ${imported.length} ${imported.length === 1 ? 'strategy' : 'strategies'}` });
+      })
+      .catch((err) => {
+        console.error('Failed to import strategies:', err);
+        setMessage({ severity: 'error', text: err instanceof Error ? err.message : 'Failed to import strategies' });
+      });
+  };
+
+  return (
+    <Box sx={{ mt: 4, pt: 3, borderTop: '1px solid rgba(139, 157, 195, 0.15)' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="h6" sx={{ fontWeight: 600 }}>
+          Saved strategies
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button size="small" startIcon={<FileUpload />} onClick={() => fileInput.current?.click()}>
+            Import
+          </Button>
+          <Button
+            size="small"
+            startIcon={<Download />}
+            disabled={strategies.length === 0}
+            onClick={() => download(strategies, 'strategies.json')}
+          >
+            Export all
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            hidden
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </Box>
+      </Box>
+      {message && (
+        <Alert severity={message.severity} onClose={() => setMessage(null)} sx={{ mb: 1 }}>
+          {message.text}
+        </Alert>
+      )}
+
+      {strategies.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          Save a strategy from the chart screen, or import a strategy file.
+        </Typography>
+      ) : (
+        strategies.map((strategy) => {
+          const cost = savedCost(strategy);
+          return (
+            <Box
+              key={strategy.id}
+              sx={{
+                display: 'flex',
+                alignItems: 'flex-start',
+                gap: 1,
+                py: 1,
+                borderTop: '1px solid rgba(139, 157, 195, 0.06)',
+              }}
+            >
+              <Box sx={{ flex: 1, minWidth: 0 }}>
+                <Typography variant="body1" sx={{ fontWeight: 600 }}>
+                  {strategy.name}
+                </Typography>
+                <Typography variant="caption" color="text.secondary" component="div">
+                  {strategy.eventTitle}
+                  {strategy.slugs.length > 1 ? ` + ${strategy.slugs.length - 1} linked` : ''}
+                  {strategy.savedAt > 0 ? ` · saved ${new Date(strategy.savedAt * 1000).toLocaleDateString()}` : ''}
+                  {strategy.legs.length > 0 ? ` · ${cost >= 0 ? 'cost' : 'credit'} $${Math.abs(cost).toFixed(2)} when saved` : ''}
+                </Typography>
+                <Typography variant="caption" color="text.secondary" component="div">
+                  {strategy.legs.length > 0 ? strategy.legs.map(describeLeg).join(', ') : 'No legs'}
+                </Typography>
+                {strategy.notes && (
+                  <Typography variant="caption" component="div" sx={{ mt: 0.5, whiteSpace: 'pre-wrap' }}>
+                    {strategy.notes}
+                  </Typography>
+                )}
+              </Box>
+              <Tooltip title="Open">
+                <IconButton size="small" onClick={() => onOpen(strategy)}>
+                  <OpenInNew fontSize="small" />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Export">
+                <IconButton size="small" onClick={() => download([strategy], `${fileSlug(strategy.name)}.json`)}>
+                  <Download fontSize="small" />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Delete">
+                <IconButton size="small" onClick={() => update(strategies.filter((s) => s.id !== strategy.id))}>
+                  <Close fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            </Box>
+          );
+        })
+      )}
+    </Box>
+  );
+}
+
+interface SaveStrategyDialogProps {
+  open: boolean;
+  defaultName: string;
+  onClose: () => void;
+  onSave: (name: string, notes: string) => void;
+}
+
+/** Name and notes for saving the current chart state as a strategy */
+export function SaveStrategyDialog({ open, defaultName, onClose, onSave }: SaveStrategyDialogProps) {
+  const [name, setName] = useState(defaultName);
+  const [notes, setNotes] = useState('');
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Save strategy</DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: '8px !important' }}>
+        <TextField label="Name" size="small" value={name} onChange={(e) => setName(e.target.value)} autoFocus />
+        <TextField label="Notes" size="small" multiline minRows={3} value={notes} onChange={(e) => setNotes(e.target.value)} />
+        <Typography variant="caption" color="text.secondary">
+          Saves the events, legs with their sizes and current fill prices, the price range, H offset, horizons and smile model.
+        </Typography>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" disabled={!name.trim()} onClick={() => onSave(name.trim(), notes.trim())}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
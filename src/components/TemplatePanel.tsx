@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { Box, Button, FormControlLabel, Paper, Switch, TextField, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material';
+import { AutoFixHigh } from '@mui/icons-material';
+import type { OptionType, ParsedMarket } from '../types';
+import { buildTemplate, type StrategyTemplate, type TemplateLeg } from '../pricing/templates';
+
+const TEMPLATE_LABELS: Record<StrategyTemplate, string> = {
+  vertical: 'Vertical',
+  range: 'Range',
+  strangle: 'Strangle',
+  ladder: 'Ladder',
+  beyond: 'Beyond ±X%',
+};
+
+const TEMPLATE_HINTS: Record<OptionType, Record<StrategyTemplate, string>> = {
+  above: {
+    vertical: 'Long YES at the centre strike, short YES one width further — pays between the two',
+    range: 'YES on the lower wing + NO on the upper wing — pays most inside the range',
+    strangle: 'NO on the lower wing + YES on the upper wing — pays if spot finishes outside',
+    ladder: 'YES (up) or NO (down) on successive strikes away from the centre',
+    beyond: 'Every strike beyond ±X% of spot — fade sells the tails, otherwise buys them',
+  },
+  hit: {
+    vertical: 'Long the nearer barrier, short the farther one — pays if spot reaches the first but not the second',
+    range: 'NO on a barrier below and above spot — pays if neither is touched',
+    strangle: 'YES on a barrier below and above spot — pays if either is touched',
+    ladder: 'YES on successive barriers away from the centre, up or down',
+    beyond: 'Every barrier beyond ±X% of spot — fade bets on no touch, otherwise on a touch',
+  },
+};
+
+interface TemplatePanelProps {
+  markets: ParsedMarket[];
+  spot: number;
+  optionType: OptionType;
+  onApply: (legs: TemplateLeg[]) => void; // Replaces the current selection
+}
+
+/** Median gap between neighbouring strikes — the default wing width */
+function typicalStep(markets: ParsedMarket[]): number {
+  const strikes = markets.map((m) => m.strikePrice).filter((k) => k > 0).sort((a, b) => a - b);
+  const gaps = strikes.slice(1).map((k, i) => k - strikes[i]).sort((a, b) => a - b);
+  return gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : 0;
+}
+
+/**
+ * Builds common structures from the strike list in one click: each wing snaps to
+ * the nearest strike, and sides follow the event's option type.
+ */
+export function TemplatePanel({ markets, spot, optionType, onApply }: TemplatePanelProps) {
+  const [template, setTemplate] = useState<StrategyTemplate>('vertical');
+  const [centre, setCentre] = useState('');  // Empty = spot
+  const [width, setWidth] = useState(() => String(typicalStep(markets)));
+  const [count, setCount] = useState('3');
+  const [percent, setPercent] = useState('10');
+  const [size, setSize] = useState('1');
+  const [direction, setDirection] = useState<'up' | 'down'>('up');
+  const [fade, setFade] = useState(true);
+  const [empty, setEmpty] = useState(false);
+
+  const params = {
+    centre: centre ? parseFloat(centre) : spot,
+    width: parseFloat(width),
+    count: parseInt(count, 10),
+    percent: parseFloat(percent) / 100,
+    direction,
+    fade,
+    size: parseFloat(size),
+  };
+  const usesCentre = template !== 'beyond';
+  const usesWidth = template === 'vertical' || template === 'range' || template === 'strangle';
+  const valid = params.centre > 0 && params.size !== 0 && !isNaN(params.size) &&
+    (!usesWidth || params.width > 0) &&
+    (template !== 'ladder' || params.count >= 1) &&
+    (template !== 'beyond' || params.percent > 0);
+
+  const handleApply = () => {
+    const legs = buildTemplate(template, params, markets, spot, optionType);
+    setEmpty(legs.length === 0);
+    if (legs.length > 0) onApply(legs);
+  };
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 3,
+        border: '1px solid rgba(139, 157, 195, 0.15)',
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+        <Box>
+          <Typography variant="h6" sx={{ fontWeight: 600 }}>
+            Templates
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            {TEMPLATE_HINTS[optionType][template]}
+          </Typography>
+        </Box>
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          value={template}
+          onChange={(_, value: StrategyTemplate | null) => value && setTemplate(value)}
+        >
+          {(Object.keys(TEMPLATE_LABELS) as StrategyTemplate[]).map((t) => (
+            <ToggleButton key={t} value={t} sx={{ px: 1.25, py: 0.25 }}>
+              {TEMPLATE_LABELS[t]}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Box>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1.5 }}>
+        {usesCentre && (
+          <TextField
+            size="small"
+            type="number"
+            label="Centre ($)"
+            placeholder={`Spot ${Math.round(spot).toLocaleString()}`}
+            value={centre}
+            onChange={(e) => setCentre(e.target.value)}
+            slotProps={{ inputLabel: { shrink: true } }}
+            sx={{ width: 150 }}
+          />
+        )}
+        {usesWidth && (
+          <TextField size="small" type="number" label="Width ($)" value={width} onChange={(e) => setWidth(e.target.value)} sx={{ width: 130 }} />
+        )}
+        {template === 'ladder' && (
+          <TextField size="small" type="number" label="Rungs" value={count} onChange={(e) => setCount(e.target.value)} sx={{ width: 90 }} />
+        )}
+        {template === 'beyond' && (
+          <TextField size="small" type="number" label="± %" value={percent} onChange={(e) => setPercent(e.target.value)} sx={{ width: 90 }} />
+        )}
+        <TextField size="small" type="number" label="Shares / leg" value={size} onChange={(e) => setSize(e.target.value)} sx={{ width: 110 }} />
+        {(template === 'vertical' || template === 'ladder') && (
+          <ToggleButtonGroup exclusive size="small" value={direction} onChange={(_, value: 'up' | 'down' | null) => value && setDirection(value)}>
+            <ToggleButton value="up" sx={{ px: 1.25, py: 0.25 }}>Up</ToggleButton>
+            <ToggleButton value="down" sx={{ px: 1.25, py: 0.25 }}>Down</ToggleButton>
+          </ToggleButtonGroup>
+        )}
+        {template === 'beyond' && (
+          <FormControlLabel
+            control={<Switch checked={fade} onChange={(e) => setFade(e.target.checked)} />}
+            label={<Typography variant="body2" color="text.secondary">Fade the tails</Typography>}
+          />
+        )}
+        <Button variant="outlined" size="small" startIcon={<AutoFixHigh />} disabled={!valid} onClick={handleApply} sx={{ ml: 'auto' }}>
+          Build selection
+        </Button>
+      </Box>
+      {empty && (
+        <Typography variant="caption" color="error" sx={{ display: 'block', mt: 1 }}>
+          No strikes in this event fit those parameters
+        </Typography>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,226 @@
+import type { OptionType, OrderBookLevel, ParsedMarket, Side } from '../types';
+import { takerFee } from './costs';
+
+export type ArbitrageKind = 'vertical' | 'touch-order' | 'touch-vs-above' | 'crossed';
+
+/** One order in the trade that locks in the mispricing */
+export interface ArbitrageLeg {
+  marketId: string;
+  label: string;
+  side: Side;
+  action: 'buy' | 'sell';
+  price: number;
+  size: number; // Shares available at that price
+}
+
+/**
+ * A pair of quotes that violates a no-arbitrage bound. `edge` is the guaranteed
+ * profit per share at the touch before fees; only a positive `net` is executable.
+ * Mid-price inconsistencies that the spread absorbs, and touch edges that the fees
+ * eat, are reported too, with executable = false.
+ */
+export interface ArbitrageViolation {
+  kind: ArbitrageKind;
+  marketIds: string[]; // Rows of the current event to highlight
+  description: string;
+  legs: ArbitrageLeg[];
+  edge: number; // Per share, before fees
+  fees: number; // Per share
+  net: number; // edge − fees
+  size: number; // Shares executable at the touch on every leg
+  profit: number; // net × size, USD
+  executable: boolean;
+}
+
+/** Best price and size to buy (ask) or sell (bid) one side, falling back to the opposite book */
+function touch(market: ParsedMarket, side: Side, action: 'buy' | 'sell'): OrderBookLevel | null {
+  const own = side === 'YES' ? market.yesBook : market.noBook;
+  const other = side === 'YES' ? market.noBook : market.yesBook;
+  const direct = action === 'buy' ? own?.asks[0] : own?.bids[0];
+  if (direct) return direct;
+  // Buying YES at 1 − (NO bid) is the same CLOB order as selling NO into that bid
+  const mirror = action === 'buy' ? other?.bids[0] : other?.asks[0];
+  return mirror ? { price: 1 - mirror.price, size: mirror.size } : null;
+}
+
+function label(market: ParsedMarket): string {
+  return market.groupItemTitle || market.question;
+}
+
+/**
+ * "Dominance" pair: `strong` pays YES in every state where `weak` does, so
+ * YES(strong) ≥ YES(weak). Buying YES strong and NO weak costs under $1 when
+ * violated and pays at least $1 in every state.
+ */
+function dominance(
+  kind: ArbitrageKind,
+  strong: ParsedMarket,
+  weak: ParsedMarket,
+  feeBps: number,
+  description: string,
+  highlight: string[]
+): ArbitrageViolation | null {
+  const midGap = weak.currentPrice - strong.currentPrice;
+  const yes = touch(strong, 'YES', 'buy');
+  const no = touch(weak, 'NO', 'buy');
+  if (!yes || !no) {
+    if (midGap <= 0) return null;
+    return {
+      kind, marketIds: highlight, description, legs: [],
+      edge: midGap, fees: 0, net: midGap, size: 0, profit: 0, executable: false,
+    };
+  }
+  const edge = 1 - yes.price - no.price;
+  if (edge <= 0 && midGap <= 0) return null;
+
+  const fees = takerFee(yes.price, feeBps) + takerFee(no.price, feeBps);
+  const size = Math.min(yes.size, no.size);
+  const net = edge - fees;
+  return {
+    kind,
+    marketIds: highlight,
+    description,
+    legs: [
+      { marketId: strong.id, label: label(strong), side: 'YES', action: 'buy', price: yes.price, size: yes.size },
+      { marketId: weak.id, label: label(weak), side: 'NO', action: 'buy', price: no.price, size: no.size },
+    ],
+    edge,
+    fees,
+    net,
+    size,
+    profit: net > 0 ? net * size : 0,
+    executable: net > 0,
+  };
+}
+
+/** YES and NO of one market quoted through each other: buy both under $1, or sell both over $1 */
+function crossed(market: ParsedMarket, feeBps: number): ArbitrageViolation | null {
+  if (!market.yesBook || !market.noBook) return null;
+  const yesAsk = market.yesBook.asks[0];
+  const noAsk = market.noBook.asks[0];
+  const yesBid = market.yesBook.bids[0];
+  const noBid = market.noBook.bids[0];
+
+  const build = (action: 'buy' | 'sell', yes: OrderBookLevel, no: OrderBookLevel, edge: number): ArbitrageViolation => {
+    const fees = takerFee(yes.price, feeBps) + takerFee(no.price, feeBps);
+    const size = Math.min(yes.size, no.size);
+    const net = edge - fees;
+    return {
+      kind: 'crossed',
+      marketIds: [market.id],
+      description: action === 'buy'
+        ? `YES ask + NO ask = ${((yes.price + no.price) * 100).toFixed(1)}¢ < $1 — buy both and merge`
+        : `YES bid + NO bid = ${((yes.price + no.price) * 100).toFixed(1)}¢ > $1 — split $1 and sell both`,
+      legs: [
+        { marketId: market.id, label: label(market), side: 'YES', action, price: yes.price, size: yes.size },
+        { marketId: market.id, label: label(market), side: 'NO', action, price: no.price, size: no.size },
+      ],
+      edge,
+      fees,
+      net,
+      size,
+      profit: net > 0 ? net * size : 0,
+      executable: net > 0,
+    };
+  };
+
+  if (yesAsk && noAsk && yesAsk.price + noAsk.price < 1) return build('buy', yesAsk, noAsk, 1 - yesAsk.price - noAsk.price);
+  if (yesBid && noBid && yesBid.price + noBid.price > 1) return build('sell', yesBid, noBid, yesBid.price + noBid.price - 1);
+  return null;
+}
+
+function formatStrike(price: number): string {
+  return `$${price.toLocaleString()}`;
+}
+
+/**
+ * Scan one event's strike ladder for no-arbitrage violations:
+ *   - "above": YES must not increase with strike — every pair is checked, so
+ *     butterflies (a mispriced strike between two others) show up as well, since
+ *     for digitals butterfly arbitrage on the implied call curve is a vertical spread
+ *   - "hit": touch probabilities must not increase with distance from spot on
+ *     either side
+ *   - "hit" with a companion "above" ladder of the same expiry: a touch must be
+ *     worth at least finishing beyond the barrier (same strike)
+ *   - any market whose YES and NO books cross
+ * Results are sorted by fee-adjusted profit, executable ones first.
+ */
+export function checkArbitrage(
+  markets: ParsedMarket[],
+  optionType: OptionType,
+  spot: number,
+  feeBps: number,
+  companionAbove: ParsedMarket[] = []
+): ArbitrageViolation[] {
+  const sorted = [...markets].filter((m) => m.strikePrice > 0).sort((a, b) => a.strikePrice - b.strikePrice);
+  const found: ArbitrageViolation[] = [];
+  const push = (v: ArbitrageViolation | null) => {
+    if (v) found.push(v);
+  };
+
+  for (const market of sorted) push(crossed(market, feeBps));
+
+  if (optionType === 'above') {
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        const low = sorted[i];
+        const high = sorted[j];
+        push(dominance(
+          'vertical', low, high, feeBps,
+          `Above ${formatStrike(high.strikePrice)} priced over above ${formatStrike(low.strikePrice)}`,
+          [low.id, high.id]
+        ));
+      }
+    }
+  } else {
+    // On either side of spot a farther barrier can only be touched after the nearer one
+    const up = sorted.filter((m) => m.strikePrice > spot);
+    const down = sorted.filter((m) => m.strikePrice <= spot).reverse();
+    for (const ladder of [up, down]) {
+      for (let i = 0; i < ladder.length; i++) {
+        for (let j = i + 1; j < ladder.length; j++) {
+          const near = ladder[i];
+          const far = ladder[j];
+          push(dominance(
+            'touch-order', near, far, feeBps,
+            `Touch ${formatStrike(far.strikePrice)} priced over nearer touch ${formatStrike(near.strikePrice)}`,
+            [near.id, far.id]
+          ));
+        }
+      }
+    }
+
+    for (const hit of sorted) {
+      const above = companionAbove.find((m) => m.strikePrice === hit.strikePrice);
+      if (!above) continue;
+      // Finishing beyond an up barrier means it was touched; for a down barrier the
+      // matching "above" NO (finish below) is the dominated claim
+      if (hit.strikePrice > spot) {
+        push(dominance(
+          'touch-vs-above', hit, above, feeBps,
+          `Finish above ${formatStrike(hit.strikePrice)} priced over touching it`,
+          [hit.id]
+        ));
+      } else {
+        const below = {
+          ...above,
+          currentPrice: 1 - above.currentPrice,
+          yesBook: above.noBook,
+          noBook: above.yesBook,
+        };
+        const v = dominance(
+          'touch-vs-above', hit, below, feeBps,
+          `Finish below ${formatStrike(hit.strikePrice)} priced over touching it`,
+          [hit.id]
+        );
+        // Report the companion leg as the real order: NO of "below" is YES of "above"
+        push(v && {
+          ...v,
+          legs: v.legs.map((leg) => (leg.marketId === above.id ? { ...leg, side: leg.side === 'YES' ? 'NO' : 'YES' } : leg)),
+        });
+      }
+    }
+  }
+
+  return found.sort((a, b) => Number(b.executable) - Number(a.executable) || b.net - a.net);
+}
@@ -0,0 +1,266 @@
+import type { Candle, CryptoOption, OptionType, ParsedMarket, PricePoint, SelectedStrike } from '../types';
+import { buildIvSmile, computePnlCurve } from './engine';
+import { spotAt, valueAt } from './replay';
+
+const SECONDS_PER_YEAR = 365.25 * 24 * 3600;
+
+/** Recorded market: strike plus its YES price history */
+export interface BacktestMarket {
+  id: string;
+  groupItemTitle: string;
+  strikePrice: number;
+  history: PricePoint[];
+}
+
+/** One recorded (ideally resolved) event — the JSON fixture format */
+export interface BacktestFixture {
+  slug: string;
+  asset: CryptoOption;
+  optionType: OptionType;
+  startDate: number; // Unix timestamp (seconds)
+  endDate: number; // Unix timestamp (seconds)
+  markets: BacktestMarket[];
+  candles: Candle[];
+}
+
+export interface BacktestTier {
+  label: string;
+  minDays: number; // Exclusive lower bound on τ (days) at the projected snapshot
+  maxDays: number; // Inclusive upper bound
+}
+
+export interface BacktestOptions {
+  horizonsHours: number[]; // Projection steps Δ
+  hCandidates: number[];
+  stepHours: number; // Spacing between calibration times
+  tiers: BacktestTier[];
+  minSamples: number; // Tiers with fewer samples get no recommendation
+}
+
+export interface HCandidateError {
+  H: number;
+  samples: number;
+  rmse: number;
+  mae: number;
+  bias: number; // Mean of projected − realised
+}
+
+export interface TierResult extends BacktestTier {
+  errors: HCandidateError[];
+  bestH: number | null;
+}
+
+export interface AssetReport {
+  asset: CryptoOption;
+  events: number;
+  tiers: TierResult[];
+}
+
+// Same boundaries as the autoH schedule
+export const AUTO_H_TIERS: BacktestTier[] = [
+  { label: '> 7d', minDays: 7, maxDays: Infinity },
+  { label: '3–7d', minDays: 3, maxDays: 7 },
+  { label: '≤ 3d', minDays: 0, maxDays: 3 },
+];
+
+export const DEFAULT_BACKTEST_OPTIONS: BacktestOptions = {
+  horizonsHours: [6, 24],
+  hCandidates: [0.40, 0.45, 0.50, 0.55, 0.60, 0.65, 0.70, 0.75, 0.80],
+  stepHours: 1,
+  tiers: AUTO_H_TIERS,
+  minSamples: 20,
+};
+
+/** Package loaded replay data as a fixture (recorded from the History Replay panel) */
+export function toBacktestFixture(
+  slug: string,
+  asset: CryptoOption,
+  optionType: OptionType,
+  startDate: number,
+  endDate: number,
+  markets: ParsedMarket[],
+  histories: Record<string, PricePoint[]>,
+  candles: Candle[]
+): BacktestFixture {
+  return {
+    slug,
+    asset,
+    optionType,
+    startDate,
+    endDate,
+    markets: markets
+      .filter((m) => m.strikePrice > 0)
+      .map((m) => ({
+        id: m.id,
+        groupItemTitle: m.groupItemTitle,
+        strikePrice: m.strikePrice,
+        history: histories[m.id] ?? [],
+      })),
+    candles,
+  };
+}
+
+interface ErrorAccumulator {
+  samples: number;
+  sumSq: number;
+  sumAbs: number;
+  sum: number;
+}
+
+function emptyAccumulator(): ErrorAccumulator {
+  return { samples: 0, sumSq: 0, sumAbs: 0, sum: 0 };
+}
+
+/**
+ * Replay one fixture and accumulate projection errors per (tier, H candidate).
+ *
+ * At each calibration time t the smile is calibrated from the recorded YES prices
+ * and spot with candidate H, every strike is projected with computePnlCurve to the
+ * realised spot at t+Δ using the same H, and the projected YES price is compared to
+ * the realised YES price at t+Δ. Errors are bucketed by τ at t+Δ, so each tier's
+ * best H is the exponent that best predicts prices inside that tier.
+ */
+function accumulateFixture(
+  fixture: BacktestFixture,
+  options: BacktestOptions,
+  acc: ErrorAccumulator[][]
+): void {
+  const firstTs = Math.max(
+    fixture.startDate,
+    fixture.candles.length > 0 ? fixture.candles[0].t : Infinity,
+    Math.min(...fixture.markets.map((m) => (m.history.length > 0 ? m.history[0].t : Infinity)))
+  );
+  if (!isFinite(firstTs)) return;
+
+  const stepSec = options.stepHours * 3600;
+  for (let t = firstTs; t < fixture.endDate; t += stepSec) {
+    const spot = spotAt(fixture.candles, t);
+    const tau = (fixture.endDate - t) / SECONDS_PER_YEAR;
+    if (spot === null || tau <= 0) continue;
+
+    const quotes = fixture.markets
+      .map((m) => ({ market: m, price: valueAt(m.history, t) }))
+      .filter((q): q is { market: BacktestMarket; price: number } =>
+        q.price !== null && q.price > 0.001 && q.price < 0.999 && q.market.strikePrice > 0);
+    if (quotes.length === 0) continue;
+
+    for (let hi = 0; hi < options.hCandidates.length; hi++) {
+      const H = options.hCandidates[hi];
+      const smile = buildIvSmile(
+        quotes.map((q) => ({ strikePrice: q.market.strikePrice, currentPrice: q.price })),
+        spot, tau, fixture.optionType, H
+      );
+      if (smile.length === 0) continue;
+
+      for (const horizonHours of options.horizonsHours) {
+        const t2 = t + horizonHours * 3600;
+        if (t2 >= fixture.endDate) continue;
+        const spot2 = spotAt(fixture.candles, t2);
+        if (spot2 === null) continue;
+        const tau2 = (fixture.endDate - t2) / SECONDS_PER_YEAR;
+        const tierIndex = options.tiers.findIndex(
+          (tier) => tau2 * 365.25 > tier.minDays && tau2 * 365.25 <= tier.maxDays
+        );
+        if (tierIndex < 0) continue;
+
+        for (const { market, price } of quotes) {
+          const realised = valueAt(market.history, t2);
+          if (realised === null) continue;
+
+          const strike: SelectedStrike = {
+            marketId: market.id,
+            question: market.groupItemTitle,
+            groupItemTitle: market.groupItemTitle,
+            strikePrice: market.strikePrice,
+            side: 'YES',
+            quantity: 1,
+            entryPrice: price,
+            exitDiscount: 0,
+            impliedVol: 0.5, // Unused — smile supplies the IV
+            isUpBarrier: market.strikePrice > spot,
+          };
+          const [point] = computePnlCurve([strike], spot2, spot2, tau2, fixture.optionType, H, smile, null, 2);
+          if (!point) continue;
+
+          const error = point.pnl + price - realised;
+          const cell = acc[tierIndex][hi];
+          cell.samples++;
+          cell.sumSq += error * error;
+          cell.sumAbs += Math.abs(error);
+          cell.sum += error;
+        }
+      }
+    }
+  }
+}
+
+/** Run the backtest across fixtures and report prediction error per asset, tier and H */
+export function runBacktest(
+  fixtures: BacktestFixture[],
+  options: BacktestOptions = DEFAULT_BACKTEST_OPTIONS
+): AssetReport[] {
+  const byAsset = new Map<CryptoOption, BacktestFixture[]>();
+  for (const fixture of fixtures) {
+    const list = byAsset.get(fixture.asset) ?? [];
+    list.push(fixture);
+    byAsset.set(fixture.asset, list);
+  }
+
+  const reports: AssetReport[] = [];
+  for (const [asset, assetFixtures] of byAsset) {
+    const acc = options.tiers.map(() => options.hCandidates.map(emptyAccumulator));
+    for (const fixture of assetFixtures) {
+      accumulateFixture(fixture, options, acc);
+    }
+
+    const tiers: TierResult[] = options.tiers.map((tier, ti) => {
+      const errors: HCandidateError[] = options.hCandidates.map((H, hi) => {
+        const cell = acc[ti][hi];
+        const n = cell.samples;
+        return {
+          H,
+          samples: n,
+          rmse: n > 0 ? Math.sqrt(cell.sumSq / n) : NaN,
+          mae: n > 0 ? cell.sumAbs / n : NaN,
+          bias: n > 0 ? cell.sum / n : NaN,
+        };
+      });
+      const eligible = errors.filter((e) => e.samples >= options.minSamples);
+      const best = eligible.reduce<HCandidateError | null>(
+        (min, e) => (min === null || e.rmse < min.rmse ? e : min),
+        null
+      );
+      return { ...tier, errors, bestH: best ? best.H : null };
+    });
+
+    reports.push({ asset, events: assetFixtures.length, tiers });
+  }
+
+  return reports;
+}
+
+/** Plain-text report: RMSE per H candidate and the recommended tier table */
+export function formatBacktestReport(reports: AssetReport[]): string {
+  const lines: string[] = [];
+  for (const report of reports) {
+    lines.push(`=== ${report.asset} (${report.events} event${report.events === 1 ? '' : 's'}) ===`);
+    for (const tier of report.tiers) {
+      const samples = tier.errors[0]?.samples ?? 0;
+      lines.push(`  τ ${tier.label}  (${samples} samples per H)`);
+      for (const e of tier.errors) {
+        const marker = e.H === tier.bestH ? ' ←' : '';
+        lines.push(
+          `    H=${e.H.toFixed(2)}  RMSE=${isNaN(e.rmse) ? '—' : e.rmse.toFixed(4)}` +
+          `  MAE=${isNaN(e.mae) ? '—' : e.mae.toFixed(4)}` +
+          `  bias=${isNaN(e.bias) ? '—' : (e.bias >= 0 ? '+' : '') + e.bias.toFixed(4)}${marker}`
+        );
+      }
+    }
+    lines.push('  Recommended tiers:');
+    for (const tier of report.tiers) {
+      lines.push(`    τ ${tier.label.padEnd(6)} → H = ${tier.bestH !== null ? tier.bestH.toFixed(2) : 'insufficient data'}`);
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
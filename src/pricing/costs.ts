@@ -0,0 +1,98 @@
+import type { OrderBookLevel, ParsedMarket, SelectedStrike, Side } from '../types';
+
+/** Trading frictions charged on top of the quoted fill prices */
+export interface CostModel {
+  feeBps: number; // Taker fee rate (see takerFee)
+  fixedCost: number; // USD per trade (gas, relayer), charged once per leg per transaction
+  slippage: boolean; // Walk the CLOB book for the leg's size instead of filling it all at the touch
+  onExit: boolean; // Also charge exits before expiry and redemptions at settlement
+}
+
+export const NO_COSTS: CostModel = { feeBps: 0, fixedCost: 0, slippage: false, onExit: false };
+
+/** Costs split by kind, in USD */
+export interface CostBreakdown {
+  fees: number;
+  fixed: number;
+  slippage: number;
+}
+
+/** True when the model charges anything at all */
+export function hasCosts(model: CostModel): boolean {
+  return model.feeBps > 0 || model.fixedCost > 0 || model.slippage;
+}
+
+export function costTotal(costs: CostBreakdown): number {
+  return costs.fees + costs.fixed + costs.slippage;
+}
+
+/**
+ * Polymarket taker fee per share: feeBps × min(p, 1 − p). Fees scale with the
+ * less likely outcome, so legs near 0 or 1 are nearly free.
+ */
+export function takerFee(price: number, feeBps: number): number {
+  return (feeBps / 10000) * Math.min(price, 1 - price);
+}
+
+/**
+ * Levels a buy (asks) or sell (bids) of one side fills against, best first. When
+ * that side's own book is empty, the opposite book is mirrored: buying YES at
+ * 1 − (NO bid) is the same CLOB order as selling NO into that bid.
+ */
+export function executionLevels(market: ParsedMarket, side: Side, action: 'buy' | 'sell'): OrderBookLevel[] {
+  const own = side === 'YES' ? market.yesBook : market.noBook;
+  const other = side === 'YES' ? market.noBook : market.yesBook;
+  const direct = (action === 'buy' ? own?.asks : own?.bids) ?? [];
+  if (direct.length > 0) return direct;
+  const mirror = (action === 'buy' ? other?.bids : other?.asks) ?? [];
+  return mirror.map((level) => ({ price: 1 - level.price, size: level.size }));
+}
+
+/**
+ * Extra cost per share, over the best level, of filling `shares` by walking the
+ * book: |VWAP − best price|. Size beyond the book's depth is assumed to fill at
+ * the last level. Returns 0 for an empty book.
+ */
+export function depthSlippage(levels: OrderBookLevel[], shares: number): number {
+  if (levels.length === 0 || shares <= 0) return 0;
+  let remaining = shares;
+  let notional = 0;
+  for (const level of levels) {
+    const take = Math.min(remaining, level.size);
+    notional += take * level.price;
+    remaining -= take;
+    if (remaining <= 0) break;
+  }
+  if (remaining > 0) notional += remaining * levels[levels.length - 1].price;
+  return Math.abs(notional / shares - levels[0].price);
+}
+
+/** Fees, fixed costs and depth slippage paid to open the legs */
+export function entryCosts(strikes: SelectedStrike[], model: CostModel): CostBreakdown {
+  const costs: CostBreakdown = { fees: 0, fixed: 0, slippage: 0 };
+  for (const s of strikes) {
+    if (s.quantity === 0) continue;
+    const shares = Math.abs(s.quantity);
+    costs.fees += shares * takerFee(s.entryPrice, model.feeBps);
+    costs.fixed += model.fixedCost;
+    if (model.slippage) costs.slippage += shares * (s.entrySlippage ?? 0);
+  }
+  return costs;
+}
+
+/** Cost of closing one leg before expiry at `exitValue` per share; 0 unless exits are charged */
+export function exitCost(strike: SelectedStrike, exitValue: number, model: CostModel): number {
+  if (!model.onExit || strike.quantity === 0) return 0;
+  const shares = Math.abs(strike.quantity);
+  const slippage = model.slippage ? shares * (strike.exitSlippage ?? 0) : 0;
+  return shares * takerFee(exitValue, model.feeBps) + slippage + model.fixedCost;
+}
+
+/**
+ * Cost of redeeming one leg at settlement: the fixed cost of the redemption
+ * transaction when a long leg pays out. Settlement crosses no book and pays no
+ * taker fee.
+ */
+export function settlementCost(strike: SelectedStrike, payoff: number, model: CostModel): number {
+  return model.onExit && strike.quantity > 0 && payoff > 0 ? model.fixedCost : 0;
+}
@@ -0,0 +1,234 @@
+import type { HedgeLeg, OptionType, ParsedMarket, ProjectionPoint, SelectedStrike } from '../types';
+import { hedgePnl, totalEntryCost } from './engine';
+
+/**
+ * Probability mass between two price levels. For "above" events the variable is
+ * the expiry spot; for "hit" events it is the furthest level reached on one side
+ * of spot (the running max above it, the running min below it).
+ */
+export interface ImpliedBucket {
+  from: number | null; // null = −∞ (open-ended tail)
+  to: number | null; // null = +∞
+  probability: number;
+  representative: number; // Price at which the portfolio payoff of the whole bucket is evaluated
+  side: 'up' | 'down' | 'terminal';
+}
+
+export interface ImpliedDistribution {
+  optionType: OptionType;
+  upBuckets: ImpliedBucket[]; // "above": the whole terminal distribution; "hit": running max
+  downBuckets: ImpliedBucket[]; // "hit" only: running min
+}
+
+/** Expected P&L, probability of profit and break-evens at expiry under the implied distribution */
+export interface ImpliedOdds {
+  expectedPnl: number;
+  probProfit: number;
+  breakEvens: number[];
+}
+
+export interface DensityPoint {
+  cryptoPrice: number;
+  density: number; // Probability per $1 of price
+}
+
+/**
+ * Pool-adjacent-violators fit of a non-increasing sequence — YES prices quoted
+ * out of order (stale books, wide spreads) would otherwise give negative buckets.
+ */
+export function monotoneDecreasing(values: number[]): number[] {
+  const blocks: { sum: number; count: number }[] = [];
+  for (const v of values) {
+    blocks.push({ sum: v, count: 1 });
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const prev = blocks[blocks.length - 2];
+      if (prev.sum / prev.count >= last.sum / last.count) break;
+      prev.sum += last.sum;
+      prev.count += last.count;
+      blocks.pop();
+    }
+  }
+  return blocks.flatMap((b) => Array<number>(b.count).fill(Math.min(1, Math.max(0, b.sum / b.count))));
+}
+
+/**
+ * Buckets from a strike ladder whose YES prices are P(X ≥ K), sorted so that the
+ * probabilities decrease: P(X in [K_i, K_i+1)) = P_i − P_i+1, with 1 − P_1 below
+ * the first strike and P_n above the last.
+ */
+function ladderBuckets(
+  strikes: number[],
+  probs: number[],
+  side: 'up' | 'terminal',
+  below: { from: number | null; representative: number }
+): ImpliedBucket[] {
+  const buckets: ImpliedBucket[] = [];
+  if (strikes.length === 0) return buckets;
+  buckets.push({ from: below.from, to: strikes[0], probability: 1 - probs[0], representative: below.representative, side });
+  for (let i = 0; i < strikes.length; i++) {
+    buckets.push({
+      from: strikes[i],
+      to: i + 1 < strikes.length ? strikes[i + 1] : null,
+      probability: probs[i] - (probs[i + 1] ?? 0),
+      representative: strikes[i],
+      side,
+    });
+  }
+  return buckets;
+}
+
+/**
+ * Market-implied distribution from the event's YES mids.
+ *
+ * "above": P(S_T ≥ K) across the ladder gives the terminal distribution directly.
+ * "hit": up-barrier prices are P(max ≥ K) and down-barrier prices P(min ≤ K), so each
+ * side gives the distribution of how far the path reaches. Both are made monotone
+ * in strike first.
+ */
+export function impliedDistribution(markets: ParsedMarket[], spot: number, optionType: OptionType): ImpliedDistribution | null {
+  const quoted = markets
+    .filter((m) => m.strikePrice > 0 && m.currentPrice >= 0 && m.currentPrice <= 1)
+    .sort((a, b) => a.strikePrice - b.strikePrice);
+
+  if (optionType === 'above') {
+    if (quoted.length === 0) return null;
+    const strikes = quoted.map((m) => m.strikePrice);
+    const probs = monotoneDecreasing(quoted.map((m) => m.currentPrice));
+    // Any price strictly below the first strike settles every leg the same way
+    const below = { from: null, representative: strikes[0] * (1 - 1e-9) };
+    return { optionType, upBuckets: ladderBuckets(strikes, probs, 'terminal', below), downBuckets: [] };
+  }
+
+  const up = quoted.filter((m) => m.strikePrice > spot);
+  const down = quoted.filter((m) => m.strikePrice <= spot).reverse(); // Nearest to spot first
+  if (up.length === 0 && down.length === 0) return null;
+
+  const upBuckets = ladderBuckets(
+    up.map((m) => m.strikePrice),
+    monotoneDecreasing(up.map((m) => m.currentPrice)),
+    'up',
+    { from: spot, representative: spot }
+  );
+  // Mirror the down ladder: walking away from spot the touch probability decreases
+  const downProbs = monotoneDecreasing(down.map((m) => m.currentPrice));
+  const downBuckets: ImpliedBucket[] = [];
+  if (down.length > 0) {
+    downBuckets.push({ from: down[0].strikePrice, to: spot, probability: 1 - downProbs[0], representative: spot, side: 'down' });
+    for (let i = 0; i < down.length; i++) {
+      downBuckets.push({
+        from: i + 1 < down.length ? down[i + 1].strikePrice : null,
+        to: down[i].strikePrice,
+        probability: downProbs[i] - (downProbs[i + 1] ?? 0),
+        representative: down[i].strikePrice,
+        side: 'down',
+      });
+    }
+  }
+  return { optionType, upBuckets, downBuckets };
+}
+
+/**
+ * Settlement value of the option legs. For "above" both arguments are the expiry
+ * spot; for "hit" up barriers pay when the running max reached them and down
+ * barriers when the running min did.
+ */
+function settlementValue(strikes: SelectedStrike[], optionType: OptionType, max: number, min: number): number {
+  let value = 0;
+  for (const strike of strikes) {
+    let yes: number;
+    if (optionType === 'hit') {
+      yes = strike.isUpBarrier ? (max >= strike.strikePrice ? 1 : 0) : (min <= strike.strikePrice ? 1 : 0);
+    } else {
+      yes = max >= strike.strikePrice ? 1 : 0;
+    }
+    value += strike.quantity * (strike.side === 'YES' ? yes : 1 - yes);
+  }
+  return value;
+}
+
+/** Zero crossings of a P&L curve, interpolated between grid points */
+export function findBreakEvens(curve: ProjectionPoint[]): number[] {
+  const levels: number[] = [];
+  for (let i = 1; i < curve.length; i++) {
+    const a = curve[i - 1];
+    const b = curve[i];
+    if ((a.pnl < 0 && b.pnl >= 0) || (a.pnl >= 0 && b.pnl < 0)) {
+      const t = a.pnl === b.pnl ? 0.5 : a.pnl / (a.pnl - b.pnl);
+      levels.push(a.cryptoPrice + t * (b.cryptoPrice - a.cryptoPrice));
+    }
+  }
+  return levels;
+}
+
+/**
+ * Expected P&L and probability of profit of a portfolio held to expiry.
+ * Option payoffs are constant within a bucket, so the expectation is exact; for
+ * "hit" the up and down reaches are treated as independent when combining them,
+ * which only matters for books with barriers on both sides. A hedge leg adds its
+ * expectation hedgePnl(S₀) — spot is a martingale at r = 0 — and enters P(profit)
+ * at each bucket's representative price. Break-evens come from the expiry curve.
+ */
+export function impliedOdds(
+  distribution: ImpliedDistribution,
+  strikes: SelectedStrike[],
+  hedge: HedgeLeg | null,
+  spot: number,
+  expiryCurve: ProjectionPoint[]
+): ImpliedOdds {
+  const entry = totalEntryCost(strikes);
+  const { optionType } = distribution;
+  const ups = distribution.upBuckets.length > 0
+    ? distribution.upBuckets
+    : [{ from: null, to: null, probability: 1, representative: spot, side: 'up' as const }];
+  const downs = optionType === 'hit' && distribution.downBuckets.length > 0
+    ? distribution.downBuckets
+    : [{ from: null, to: null, probability: 1, representative: spot, side: 'down' as const }];
+
+  let expectedPnl = hedge ? hedgePnl(hedge, spot, 0) : 0;
+  let probProfit = 0;
+  for (const up of ups) {
+    for (const down of downs) {
+      const p = up.probability * down.probability;
+      if (p <= 0) continue;
+      const max = up.representative;
+      const min = optionType === 'hit' ? down.representative : max;
+      const options = settlementValue(strikes, optionType, max, min) - entry;
+      expectedPnl += p * options;
+      // A hedge is marked where the bucket reaches furthest from spot
+      const hedgeAt = optionType === 'hit' && Math.abs(min - spot) > Math.abs(max - spot) ? min : max;
+      if (options + (hedge ? hedgePnl(hedge, hedgeAt, 0) : 0) > 0) probProfit += p;
+    }
+  }
+
+  return { expectedPnl, probProfit, breakEvens: findBreakEvens(expiryCurve) };
+}
+
+/**
+ * Bucket probabilities spread evenly over each bucket, sampled on the chart's price
+ * grid. Open-ended tail buckets are drawn as wide as the typical finite bucket of
+ * their ladder, so the shading stays comparable to the interior.
+ */
+export function densityOnGrid(distribution: ImpliedDistribution, grid: number[]): DensityPoint[] {
+  if (grid.length < 2) return [];
+
+  const spans = (ladder: ImpliedBucket[]) => {
+    const widths = ladder
+      .filter((b) => b.from !== null && b.to !== null)
+      .map((b) => (b.to as number) - (b.from as number))
+      .sort((a, b) => a - b);
+    const typical = widths.length > 0 ? widths[Math.floor(widths.length / 2)] : grid[grid.length - 1] - grid[0];
+    return ladder.map((b) => {
+      const from = b.from ?? (b.to as number) - typical;
+      const to = b.to ?? from + typical;
+      return { from, to, probability: b.probability };
+    });
+  };
+  const buckets = [...spans(distribution.upBuckets), ...spans(distribution.downBuckets)]
+    .filter((b) => b.to > b.from && b.probability > 0);
+
+  return grid.map((cryptoPrice) => {
+    const bucket = buckets.find((b) => cryptoPrice >= b.from && cryptoPrice < b.to);
+    return { cryptoPrice, density: bucket ? bucket.probability / (bucket.to - bucket.from) : 0 };
+  });
+}
@@ -1,10 +1,25 @@
-import type { OptionType, SelectedStrike, ProjectionPoint } from '../types';
+import type { HedgeLeg, LegSize, OptionType, SelectedStrike, SmileDynamics, ProjectionPoint } from '../types';
+import { costTotal, entryCosts, exitCost, settlementCost, type CostModel } from './costs';
 
 export interface SmilePoint {
   moneyness: number; // ln(S_calibration / K)
   iv: number;
 }
 
+export interface SmileModel {
+  dynamics: SmileDynamics;
+  volShift: number; // Parallel IV bump on every strike, e.g. 0.05 = +5 vol points
+  calibrationTauH?: number; // τ^H the smile was calibrated at — needed by sticky-delta
+}
+
+export const DEFAULT_SMILE_MODEL: SmileModel = { dynamics: 'sticky-moneyness', volShift: 0 };
+
+export const SMILE_DYNAMICS_LABELS: Record<SmileDynamics, string> = {
+  'sticky-strike': 'Sticky strike',
+  'sticky-moneyness': 'Sticky moneyness',
+  'sticky-delta': 'Sticky delta',
+};
+
 /**
  * Auto-compute H based on time-to-expiry in years.
  * Both HIT and ABOVE use the same empirically-calibrated tier schedule:
@@ -40,7 +55,35 @@ export function interpolateSmile(smile: SmilePoint[], moneyness: number): number
 }
 
 /**
- * Normal CDF using rational approximation (Abramowitz & Stegun 26.2.17)
+ * IV of a strike at a projected spot and τ under the given smile dynamics, plus the
+ * model's vol shift. Without a smile every dynamics falls back to the strike's own IV.
+ * Sticky-delta rescales moneyness by calibrationTauH / τ^H, so as expiry nears a
+ * strike at fixed ln(S/K) moves out along the smile; at the calibration τ it
+ * coincides with sticky-moneyness.
+ */
+export function projectedIv(
+  strike: { strikePrice: number; impliedVol: number },
+  S: number,
+  tau: number,
+  H: number,
+  smile: SmilePoint[] | undefined,
+  model: SmileModel = DEFAULT_SMILE_MODEL
+): number {
+  let iv = strike.impliedVol;
+  if (model.dynamics !== 'sticky-strike' && smile && smile.length > 0) {
+    let m = Math.log(S / strike.strikePrice);
+    if (model.dynamics === 'sticky-delta' && model.calibrationTauH) {
+      const tauH = Math.pow(tau, H);
+      m = tauH > 0 ? (m * model.calibrationTauH) / tauH : m === 0 ? 0 : Math.sign(m) * Infinity;
+    }
+    iv = interpolateSmile(smile, m);
+  }
+  return Math.max(iv + model.volShift, 1e-4);
+}
+
+/**
+ * Normal CDF via the Abramowitz & Stegun 7.1.26 approximation of erf:
+ * Φ(x) = ½(1 + erf(x/√2))
  */
 export function normalCDF(x: number): number {
   if (x > 8) return 1;
@@ -54,13 +97,13 @@ export function normalCDF(x: number): number {
   const p = 0.3275911;
 
   const sign = x < 0 ? -1 : 1;
-  const absX = Math.abs(x);
-  const t = 1.0 / (1.0 + p * absX);
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1.0 / (1.0 + p * z);
   const t2 = t * t;
   const t3 = t2 * t;
   const t4 = t3 * t;
   const t5 = t4 * t;
-  const y = 1.0 - (a1 * t + a2 * t2 + a3 * t3 + a4 * t4 + a5 * t5) * Math.exp(-absX * absX / 2);
+  const y = 1.0 - (a1 * t + a2 * t2 + a3 * t3 + a4 * t4 + a5 * t5) * Math.exp(-z * z);
 
   return 0.5 * (1.0 + sign * y);
 }
@@ -158,6 +201,11 @@ export function solveImpliedVol(
 
   let a = 0.01;
   let b = 10.0;
+  // An out-of-the-money "above" price rises with σ only until σ·τ^H = √(2·ln(K/S)), then
+  // falls back towards 0, so the quote has a second root at a huge σ. Search below the peak.
+  if (optionType === 'above' && K > S) {
+    b = Math.max(a, Math.min(b, Math.sqrt(2 * Math.log(K / S)) / Math.pow(tau, H)));
+  }
 
   const f = (sigma: number) => priceOptionYes(S, K, sigma, tau, optionType, isUpBarrier, H) - yesPrice;
 
@@ -167,7 +215,7 @@ export function solveImpliedVol(
   if (fa * fb > 0) {
     let bestSigma = a;
     let bestError = Math.abs(fa);
-    for (let sigma = 0.05; sigma <= 10.0; sigma += 0.05) {
+    for (let sigma = 0.05; sigma <= b; sigma += 0.05) {
       const err = Math.abs(f(sigma));
       if (err < bestError) {
         bestError = err;
@@ -230,10 +278,65 @@ export function solveImpliedVol(
 }
 
 /**
- * Compute P&L projection curve.
- * P&L = projected value - entry cost
- * For YES: projected value = modelYesPrice; entry cost = entryPrice
- * For NO: projected value = 1 - modelYesPrice; entry cost = entryPrice
+ * Build the IV smile from every market strike at a given spot and τ.
+ * Strikes with missing or near-certain prices (≤0.001, ≥0.999) are skipped since
+ * their IV is not identifiable. Result is sorted by moneyness ascending.
+ */
+export function buildIvSmile(
+  quotes: { strikePrice: number; currentPrice: number }[],
+  S: number,
+  tau: number,
+  optionType: OptionType,
+  H: number = 0.5
+): SmilePoint[] {
+  if (S <= 0 || tau <= 0) return [];
+  const points: SmilePoint[] = [];
+  for (const quote of quotes) {
+    if (quote.strikePrice <= 0 || quote.currentPrice <= 0.001 || quote.currentPrice >= 0.999) continue;
+    const isUpBarrier = quote.strikePrice > S;
+    const iv = solveImpliedVol(S, quote.strikePrice, tau, quote.currentPrice, optionType, isUpBarrier, H);
+    if (iv !== null) {
+      points.push({ moneyness: Math.log(S / quote.strikePrice), iv });
+    }
+  }
+  return points.sort((a, b) => a.moneyness - b.moneyness);
+}
+
+/** Net USD paid to open the position (negative = net credit from shorts) */
+export function totalEntryCost(strikes: SelectedStrike[]): number {
+  return strikes.reduce((sum, s) => sum + s.quantity * s.entryPrice, 0);
+}
+
+/**
+ * Signed share count for a leg size. USD notional converts at the fill price of
+ * the trade direction (ask to buy, bid to sell); returns 0 when that price is 0.
+ */
+export function legQuantity(size: LegSize, ask: number, bid: number): number {
+  if (size.mode === 'shares') return size.value;
+  const fill = size.value >= 0 ? ask : bid;
+  return fill > 0 ? size.value / fill : 0;
+}
+
+/**
+ * Linear P&L of a hedge leg at spot S when τ years remain to expiry:
+ *   size × (S − entryPrice) − size × entryPrice × fundingRate × (openTau − τ)
+ * Funding accrues on the entry notional over the time elapsed since the hedge was opened.
+ */
+export function hedgePnl(hedge: HedgeLeg, S: number, tau: number): number {
+  const elapsed = Math.max(0, hedge.openTau - tau);
+  return hedge.size * (S - hedge.entryPrice) - hedge.size * hedge.entryPrice * hedge.fundingRate * elapsed;
+}
+
+/**
+ * Compute P&L projection curve in USD.
+ * P&L = Σ quantity × (projected exit value − entryPrice)
+ * For YES: mid value = modelYesPrice; for NO: mid value = 1 − modelYesPrice
+ * Longs exit at mid − exitDiscount (selling into the bid), shorts at mid + exitDiscount
+ * (buying back at the ask), clamped to [0, 1]. IVs follow the smile model's
+ * dynamics (see projectedIv). An optional hedge leg adds its linear P&L including
+ * funding carry (see hedgePnl). With a cost model the curve is net: entry fees, fixed
+ * costs and depth slippage are added to the entry cost, and exit costs at the
+ * projected exit value are deducted when the model charges exits (see costs.ts).
  */
 export function computePnlCurve(
   strikes: SelectedStrike[],
@@ -243,11 +346,14 @@ export function computePnlCurve(
   optionType: OptionType,
   H: number = 0.5,
   smile?: SmilePoint[],
-  numPoints: number = 200
+  hedge?: HedgeLeg | null,
+  numPoints: number = 200,
+  model: SmileModel = DEFAULT_SMILE_MODEL,
+  costs?: CostModel | null
 ): ProjectionPoint[] {
-  if (strikes.length === 0 || numPoints < 2) return [];
+  if ((strikes.length === 0 && !hedge) || numPoints < 2) return [];
 
-  const totalEntry = strikes.reduce((sum, s) => sum + s.entryPrice, 0);
+  const totalEntry = totalEntryCost(strikes) + (costs ? costTotal(entryCosts(strikes, costs)) : 0);
   const step = (upperPrice - lowerPrice) / (numPoints - 1);
   const points: ProjectionPoint[] = [];
 
@@ -256,36 +362,44 @@ export function computePnlCurve(
     let projectedValue = 0;
 
     for (const strike of strikes) {
-      const iv = smile
-        ? interpolateSmile(smile, Math.log(cryptoPrice / strike.strikePrice))
-        : strike.impliedVol;
+      const iv = projectedIv(strike, cryptoPrice, tau, H, smile, model);
       const yesPrice = priceOptionYes(cryptoPrice, strike.strikePrice, iv, tau, optionType, strike.isUpBarrier, H);
-      projectedValue += strike.side === 'YES' ? yesPrice : (1 - yesPrice);
+      const midValue = strike.side === 'YES' ? yesPrice : (1 - yesPrice);
+      const exitValue = strike.quantity >= 0
+        ? Math.max(0, midValue - strike.exitDiscount)
+        : Math.min(1, midValue + strike.exitDiscount);
+      projectedValue += strike.quantity * exitValue;
+      if (costs) projectedValue -= exitCost(strike, exitValue, costs);
     }
 
-    points.push({ cryptoPrice, pnl: projectedValue - totalEntry });
+    const hedgeLeg = hedge ? hedgePnl(hedge, cryptoPrice, tau) : 0;
+    points.push({ cryptoPrice, pnl: projectedValue - totalEntry + hedgeLeg });
   }
 
   return points;
 }
 
 /**
- * Compute P&L at expiry (tau → 0).
+ * Compute P&L at expiry (tau → 0) in USD. Positions settle at 1/0, so no exit spread applies.
  * For 'above': step function at strike (cryptoPrice >= strike → YES=1)
  * For 'hit': step function depends on barrier direction:
  *   UP barrier: cryptoPrice >= strike → hit → YES=1
  *   DOWN barrier: cryptoPrice <= strike → hit → YES=1
+ * A hedge leg is marked at the expiry spot with funding accrued up to expiry.
+ * With a cost model, entry costs and the fixed cost of redeeming paying legs are deducted.
  */
 export function computeExpiryPnl(
   strikes: SelectedStrike[],
   lowerPrice: number,
   upperPrice: number,
   optionType: OptionType = 'above',
-  numPoints: number = 200
+  hedge?: HedgeLeg | null,
+  numPoints: number = 200,
+  costs?: CostModel | null
 ): ProjectionPoint[] {
-  if (strikes.length === 0 || numPoints < 2) return [];
+  if ((strikes.length === 0 && !hedge) || numPoints < 2) return [];
 
-  const totalEntry = strikes.reduce((sum, s) => sum + s.entryPrice, 0);
+  const totalEntry = totalEntryCost(strikes) + (costs ? costTotal(entryCosts(strikes, costs)) : 0);
   const step = (upperPrice - lowerPrice) / (numPoints - 1);
   const points: ProjectionPoint[] = [];
 
@@ -304,10 +418,13 @@ export function computeExpiryPnl(
         // Above type: standard step function
         yesPayoff = cryptoPrice >= strike.strikePrice ? 1 : 0;
       }
-      projectedValue += strike.side === 'YES' ? yesPayoff : (1 - yesPayoff);
+      const payoff = strike.side === 'YES' ? yesPayoff : (1 - yesPayoff);
+      projectedValue += strike.quantity * payoff;
+      if (costs) projectedValue -= settlementCost(strike, payoff, costs);
     }
 
-    points.push({ cryptoPrice, pnl: projectedValue - totalEntry });
+    const hedgeLeg = hedge ? hedgePnl(hedge, cryptoPrice, 0) : 0;
+    points.push({ cryptoPrice, pnl: projectedValue - totalEntry + hedgeLeg });
   }
 
   return points;
@@ -0,0 +1,109 @@
+import type { HedgeLeg, OptionType, SelectedStrike } from '../types';
+import { DEFAULT_SMILE_MODEL, hedgePnl, priceOptionYes, projectedIv, type SmileModel, type SmilePoint } from './engine';
+
+const DAY_YEARS = 1 / 365.25;
+const SPOT_BUMP = 1e-3; // Relative spot bump for delta/gamma
+const VOL_BUMP = 0.01; // One vol point
+
+/** Portfolio sensitivities in USD, valued at mid (no spread) */
+export interface Greeks {
+  value: number; // Mark-to-model value Σ quantity × side price (+ hedge P&L to date)
+  delta: number; // $ per $1 move in spot — the spot/perp hedge is −delta coins
+  gamma: number; // Change in delta per $1 move in spot
+  thetaPerDay: number; // Value change from one day passing (spot and vols unchanged)
+  vega: number; // $ per +1 vol point applied to every strike's IV
+}
+
+export interface GreeksPoint {
+  cryptoPrice: number;
+  delta: number;
+  thetaPerDay: number;
+}
+
+/**
+ * Model value of the portfolio at mid. IV comes from the smile model at the bumped
+ * spot (same as computePnlCurve), shifted by volShift. A hedge leg contributes its P&L.
+ */
+function portfolioValue(
+  strikes: SelectedStrike[],
+  S: number,
+  tau: number,
+  optionType: OptionType,
+  H: number,
+  smile: SmilePoint[] | undefined,
+  hedge: HedgeLeg | null | undefined,
+  model: SmileModel,
+  volShift: number = 0
+): number {
+  let value = hedge ? hedgePnl(hedge, S, tau) : 0;
+  for (const strike of strikes) {
+    const iv = Math.max(projectedIv(strike, S, tau, H, smile, model) + volShift, 1e-4);
+    const yesPrice = priceOptionYes(S, strike.strikePrice, iv, tau, optionType, strike.isUpBarrier, H);
+    value += strike.quantity * (strike.side === 'YES' ? yesPrice : 1 - yesPrice);
+  }
+  return value;
+}
+
+/**
+ * Finite-difference Greeks of a portfolio at spot S.
+ * Delta and gamma use central differences over ±0.1% of spot, vega over ±1 vol
+ * point, and theta a one-day forward step (clamped at expiry). H is held fixed
+ * across the time step. A hedge leg adds its size to delta and its funding to theta.
+ */
+export function computeGreeks(
+  strikes: SelectedStrike[],
+  S: number,
+  tau: number,
+  optionType: OptionType,
+  H: number = 0.5,
+  smile?: SmilePoint[],
+  hedge?: HedgeLeg | null,
+  model: SmileModel = DEFAULT_SMILE_MODEL
+): Greeks {
+  const value = portfolioValue(strikes, S, tau, optionType, H, smile, hedge, model);
+  if ((strikes.length === 0 && !hedge) || S <= 0) {
+    return { value, delta: 0, gamma: 0, thetaPerDay: 0, vega: 0 };
+  }
+
+  const h = S * SPOT_BUMP;
+  const up = portfolioValue(strikes, S + h, tau, optionType, H, smile, hedge, model);
+  const down = portfolioValue(strikes, S - h, tau, optionType, H, smile, hedge, model);
+  const decayed = tau > 0
+    ? portfolioValue(strikes, S, Math.max(tau - DAY_YEARS, 0), optionType, H, smile, hedge, model)
+    : value;
+  const volUp = portfolioValue(strikes, S, tau, optionType, H, smile, hedge, model, VOL_BUMP);
+  const volDown = portfolioValue(strikes, S, tau, optionType, H, smile, hedge, model, -VOL_BUMP);
+
+  return {
+    value,
+    delta: (up - down) / (2 * h),
+    gamma: (up - 2 * value + down) / (h * h),
+    thetaPerDay: decayed - value,
+    vega: (volUp - volDown) / 2,
+  };
+}
+
+/** Delta and one-day theta across a spot range — secondary curves for the projection chart */
+export function computeGreeksCurve(
+  strikes: SelectedStrike[],
+  lowerPrice: number,
+  upperPrice: number,
+  tau: number,
+  optionType: OptionType,
+  H: number = 0.5,
+  smile?: SmilePoint[],
+  hedge?: HedgeLeg | null,
+  numPoints: number = 200,
+  model: SmileModel = DEFAULT_SMILE_MODEL
+): GreeksPoint[] {
+  if ((strikes.length === 0 && !hedge) || numPoints < 2) return [];
+
+  const step = (upperPrice - lowerPrice) / (numPoints - 1);
+  const points: GreeksPoint[] = [];
+  for (let i = 0; i < numPoints; i++) {
+    const cryptoPrice = lowerPrice + step * i;
+    const { delta, thetaPerDay } = computeGreeks(strikes, cryptoPrice, tau, optionType, H, smile, hedge, model);
+    points.push({ cryptoPrice, delta, thetaPerDay });
+  }
+  return points;
+}
@@ -0,0 +1,181 @@
+import type { Horizon } from '../types';
+
+const SECONDS_PER_YEAR = 365.25 * 24 * 3600;
+
+/** Now, 1/3 and 2/3 of the way to expiry, and expiry */
+export const DEFAULT_HORIZONS: Horizon[] = [
+  { kind: 'now' },
+  { kind: 'fraction', elapsed: 1 / 3 },
+  { kind: 'fraction', elapsed: 2 / 3 },
+  { kind: 'expiry' },
+];
+
+/** A horizon pinned to a timestamp, ready to price */
+export interface ResolvedHorizon {
+  horizon: Horizon;
+  ts: number; // Unix seconds, clamped to [now, expiry]
+  tau: number; // Years to expiry at ts
+  isExpiry: boolean;
+  label: string;
+}
+
+export interface CurveStyle {
+  width: number;
+  dashArray: string; // '' = solid
+  opacity: number;
+}
+
+/** Timestamp a horizon refers to, clamped to [nowTs, expiryTs] */
+export function horizonTs(horizon: Horizon, nowTs: number, expiryTs: number): number {
+  let ts: number;
+  switch (horizon.kind) {
+    case 'now': ts = nowTs; break;
+    case 'expiry': ts = expiryTs; break;
+    case 'fraction': ts = nowTs + (expiryTs - nowTs) * horizon.elapsed; break;
+    case 'offset': ts = nowTs + horizon.hours * 3600; break;
+    case 'beforeExpiry': ts = expiryTs - horizon.hours * 3600; break;
+    case 'absolute': ts = horizon.ts; break;
+  }
+  return Math.min(expiryTs, Math.max(nowTs, ts));
+}
+
+function formatHours(seconds: number): string {
+  return `${Math.round(seconds / 3600)}h`;
+}
+
+function formatFraction(value: number): string {
+  const thirds = value * 3;
+  if (Math.abs(thirds - Math.round(thirds)) < 1e-9) return `${Math.round(thirds)}/3`;
+  return `${Math.round(value * 100)}%`;
+}
+
+export function formatUtc(ts: number): string {
+  return new Date(ts * 1000).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+    timeZone: 'UTC',
+  }) + ' UTC';
+}
+
+/** Short description of the horizon itself, as shown in the editor */
+export function describeHorizon(horizon: Horizon): string {
+  switch (horizon.kind) {
+    case 'now': return 'Now';
+    case 'expiry': return 'At expiry';
+    case 'fraction': return `${formatFraction(horizon.elapsed)} to expiry`;
+    case 'offset': return `+${horizon.hours}h`;
+    case 'beforeExpiry': return `${horizon.hours}h before expiry`;
+    case 'absolute': return formatUtc(horizon.ts);
+  }
+}
+
+/**
+ * Curve label: the horizon plus the time left to expiry at that point. With
+ * `absolute` (portfolios spanning several expiries) the time left is ambiguous,
+ * so the label carries the UTC time instead.
+ */
+export function horizonLabel(horizon: Horizon, ts: number, expiryTs: number, absolute: boolean = false): string {
+  if (absolute) {
+    if (horizon.kind === 'absolute') return describeHorizon(horizon);
+    return `${horizon.kind === 'expiry' ? 'Last expiry' : describeHorizon(horizon)} (${formatUtc(ts)})`;
+  }
+  if (horizon.kind === 'expiry' || horizon.kind === 'beforeExpiry' || ts >= expiryTs) return describeHorizon(horizon);
+  if (horizon.kind === 'now') return `Now (${formatHours(expiryTs - ts)} to exp)`;
+  return `${describeHorizon(horizon)} (${formatHours(expiryTs - ts)} left)`;
+}
+
+/**
+ * Pin horizons to timestamps, sort them chronologically and label them. Labels are
+ * made unique since the chart keys curves by label.
+ */
+export function resolveHorizons(horizons: Horizon[], nowTs: number, expiryTs: number, absoluteLabels: boolean = false): ResolvedHorizon[] {
+  const resolved = horizons
+    .map((horizon) => {
+      const ts = horizonTs(horizon, nowTs, expiryTs);
+      return {
+        horizon,
+        ts,
+        tau: Math.max((expiryTs - ts) / SECONDS_PER_YEAR, 0),
+        isExpiry: ts >= expiryTs,
+        label: horizonLabel(horizon, ts, expiryTs, absoluteLabels),
+      };
+    })
+    .sort((a, b) => a.ts - b.ts);
+
+  const seen = new Map<string, number>();
+  for (const r of resolved) {
+    const count = seen.get(r.label) ?? 0;
+    seen.set(r.label, count + 1);
+    if (count > 0) r.label = `${r.label} #${count + 1}`;
+  }
+  return resolved;
+}
+
+/**
+ * Parse editor input into a horizon:
+ *   "now", "expiry"
+ *   "+6", "+6h", "+2d"            — offset from now
+ *   "-1h", "1h before expiry"     — before expiry
+ *   "1/3", "50%"                  — fraction of the remaining time elapsed
+ *   "2026-10-20 16:00"            — absolute date-time, read as UTC
+ * Returns null when the input is not understood.
+ */
+export function parseHorizon(input: string): Horizon | null {
+  const text = input.trim().toLowerCase();
+  if (text === 'now') return { kind: 'now' };
+  if (text === 'expiry' || text === 'exp') return { kind: 'expiry' };
+
+  const duration = (value: string, unit: string | undefined) =>
+    parseFloat(value) * (unit === 'd' ? 24 : unit === 'm' ? 1 / 60 : 1);
+
+  const offset = text.match(/^\+\s*(\d+(?:\.\d+)?)\s*([hdm])?$/);
+  if (offset) return { kind: 'offset', hours: duration(offset[1], offset[2]) };
+
+  const before = text.match(/^(?:-\s*(\d+(?:\.\d+)?)\s*([hdm])?|(\d+(?:\.\d+)?)\s*([hdm])?\s*before\s+exp(?:iry)?)$/);
+  if (before) {
+    return before[1] !== undefined
+      ? { kind: 'beforeExpiry', hours: duration(before[1], before[2]) }
+      : { kind: 'beforeExpiry', hours: duration(before[3], before[4]) };
+  }
+
+  const fraction = text.match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (fraction && Number(fraction[2]) > 0) {
+    const elapsed = Number(fraction[1]) / Number(fraction[2]);
+    return elapsed >= 0 && elapsed <= 1 ? { kind: 'fraction', elapsed } : null;
+  }
+  const pct = text.match(/^(\d+(?:\.\d+)?)\s*%$/);
+  if (pct) {
+    const elapsed = parseFloat(pct[1]) / 100;
+    return elapsed <= 1 ? { kind: 'fraction', elapsed } : null;
+  }
+
+  const date = text.match(/^(\d{4}-\d{2}-\d{2})[ t](\d{1,2}:\d{2})(?:\s*utc|z)?$/);
+  if (date) {
+    const ms = Date.parse(`${date[1]}T${date[2].padStart(5, '0')}:00Z`);
+    return isNaN(ms) ? null : { kind: 'absolute', ts: Math.floor(ms / 1000) };
+  }
+  return null;
+}
+
+// Intermediate curves cycle through these dash patterns; "now" is solid, expiry long-dashed
+const INTERMEDIATE_DASHES = ['4 3', '8 5', '2 3', '10 3 2 3', '6 2'];
+
+/**
+ * Line style per resolved horizon: the earliest (usually now) solid, expiry thick long dashes,
+ * intermediate snapshots dashed with opacity rising towards expiry.
+ */
+export function curveStyles(resolved: ResolvedHorizon[]): CurveStyle[] {
+  const intermediates = resolved.filter((r, i) => i > 0 && !r.isExpiry).length;
+  let k = 0;
+  return resolved.map((r, i) => {
+    if (r.isExpiry) return { width: 2.5, dashArray: '14 6', opacity: 1 };
+    if (i === 0) return { width: 2, dashArray: '', opacity: 1 };
+    const t = intermediates > 1 ? k / (intermediates - 1) : 1;
+    const style = { width: 1.5 + 0.5 * t, dashArray: INTERMEDIATE_DASHES[k % INTERMEDIATE_DASHES.length], opacity: 0.45 + 0.3 * t };
+    k++;
+    return style;
+  });
+}
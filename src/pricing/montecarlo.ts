@@ -0,0 +1,408 @@
+import type { HedgeLeg, OptionType, SelectedStrike } from '../types';
+import { autoH, hedgePnl, interpolateSmile, priceOptionYes, projectedIv, type SmileModel, type SmilePoint } from './engine';
+import { costTotal, entryCosts, exitCost, settlementCost, type CostModel } from './costs';
+
+/** Simulation settings. Jumps and fat tails are off at their defaults. */
+export interface MonteCarloConfig {
+  paths: number;
+  steps: number; // Monitoring steps from now to expiry (horizon times are added to the grid)
+  seed: number;
+  jumpIntensity: number; // Expected jumps per year (Merton compound Poisson)
+  jumpMean: number; // Mean log jump size
+  jumpVol: number; // Std dev of the log jump size
+  tailDof: number | null; // Student-t degrees of freedom for diffusion shocks; null = Gaussian
+}
+
+export const DEFAULT_MC_CONFIG: MonteCarloConfig = {
+  paths: 20000,
+  steps: 200,
+  seed: 42,
+  jumpIntensity: 0,
+  jumpMean: 0,
+  jumpVol: 0.05,
+  tailDof: null,
+};
+
+/** Projection time to report the P&L distribution at */
+export interface MonteCarloHorizon {
+  label: string;
+  tau: number; // Years to expiry
+}
+
+export interface MonteCarloRequest {
+  strikes: SelectedStrike[];
+  hedge: HedgeLeg | null;
+  spot: number;
+  tau: number; // Years to expiry now
+  optionType: OptionType;
+  hDelta: number;
+  smile: SmilePoint[];
+  model: SmileModel; // Smile dynamics, vol shift and calibration τ^H, as used by the curves
+  costs: CostModel | null; // Marks net of trading costs, as the curves do; null = gross
+  horizons: MonteCarloHorizon[];
+  config: MonteCarloConfig;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+/** P&L distribution of the portfolio at one horizon, USD */
+export interface HorizonDistribution {
+  label: string;
+  tau: number;
+  mean: number; // Expected P&L
+  stdErr: number; // Standard error of the mean
+  probProfit: number; // P(P&L > 0)
+  var95: number; // 95% value-at-risk, as a positive loss
+  cvar95: number; // Mean loss beyond VaR (expected shortfall)
+  min: number;
+  max: number;
+  histogram: HistogramBin[];
+}
+
+/** Analytic YES price now vs the simulated probability of the YES payoff */
+export interface CrossCheckRow {
+  marketId: string;
+  label: string;
+  iv: number;
+  analytic: number;
+  simulated: number;
+  stdErr: number;
+}
+
+export interface MonteCarloResult {
+  horizons: HorizonDistribution[];
+  crossCheck: CrossCheckRow[];
+  paths: number;
+  seed: number;
+  elapsedMs: number;
+}
+
+const HISTOGRAM_BINS = 40;
+
+/** Seeded uniform generator on [0, 1) — mulberry32 */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal draws by Box–Muller, keeping the spare value */
+function createNormal(uniform: () => number): () => number {
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) {
+      const z = spare;
+      spare = null;
+      return z;
+    }
+    const u1 = Math.max(uniform(), 1e-300);
+    const u2 = uniform();
+    const r = Math.sqrt(-2 * Math.log(u1));
+    spare = r * Math.sin(2 * Math.PI * u2);
+    return r * Math.cos(2 * Math.PI * u2);
+  };
+}
+
+/** Gamma(shape, 1) draws by Marsaglia–Tsang (shape ≥ 1) */
+function sampleGamma(shape: number, normal: () => number, uniform: () => number): number {
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    const z = normal();
+    const v = Math.pow(1 + c * z, 3);
+    if (v <= 0) continue;
+    const u = uniform();
+    if (Math.log(u) < 0.5 * z * z + d - d * v + d * Math.log(v)) return d * v;
+  }
+}
+
+/**
+ * Unit-variance shock: Gaussian, or Student-t with ν > 2 degrees of freedom scaled
+ * by √((ν − 2)/ν) so the diffusion variance is unchanged and only the tails fatten.
+ */
+function createShock(uniform: () => number, tailDof: number | null): () => number {
+  const normal = createNormal(uniform);
+  if (tailDof === null || tailDof <= 2) return normal;
+  const scale = Math.sqrt((tailDof - 2) / tailDof);
+  return () => {
+    const chi2 = 2 * sampleGamma(tailDof / 2, normal, uniform);
+    return (normal() / Math.sqrt(chi2 / tailDof)) * scale;
+  };
+}
+
+/** Poisson count by inversion — fine for the small means of one time step */
+function samplePoisson(mean: number, uniform: () => number): number {
+  if (mean <= 0) return 0;
+  const limit = Math.exp(-mean);
+  let k = 0;
+  let p = uniform();
+  while (p > limit) {
+    k++;
+    p *= uniform();
+  }
+  return k;
+}
+
+/**
+ * Simulation grid of remaining times (years), descending from τ to 0, with the
+ * horizon times inserted so paths can be marked exactly there.
+ */
+function timeGrid(tau: number, steps: number, horizonTaus: number[]): number[] {
+  const grid = new Set<number>();
+  for (let i = 0; i <= steps; i++) grid.add(tau * (1 - i / steps));
+  for (const t of horizonTaus) grid.add(Math.min(Math.max(t, 0), tau));
+  return [...grid].sort((a, b) => b - a);
+}
+
+/**
+ * Probability that a Brownian bridge in log-spot between xa and xb (variance v)
+ * touches the log-barrier b, given both endpoints are on the same side.
+ */
+function bridgeTouch(xa: number, xb: number, b: number, v: number): number {
+  if (v <= 0) return 0;
+  return Math.exp((-2 * (b - xa) * (b - xb)) / v);
+}
+
+/** Path dynamics shared by the portfolio run and the cross-check */
+interface PathModel {
+  volAt: (S: number) => number; // Annualised diffusion vol at spot S
+  H: number; // Clock exponent: variance over a step is σ²(τa^2H − τb^2H)
+  jumpIntensity: number;
+  jumpMean: number;
+  jumpVol: number;
+}
+
+/** Summary statistics and histogram of a P&L sample */
+export function summarize(label: string, tau: number, sample: Float64Array): HorizonDistribution {
+  const n = sample.length;
+  const sorted = Float64Array.from(sample).sort();
+  let sum = 0;
+  let sumSq = 0;
+  let wins = 0;
+  for (const x of sorted) {
+    sum += x;
+    sumSq += x * x;
+    if (x > 0) wins++;
+  }
+  const mean = sum / n;
+  const variance = Math.max(sumSq / n - mean * mean, 0);
+
+  const tailCount = Math.max(1, Math.floor(n * 0.05));
+  let tailSum = 0;
+  for (let i = 0; i < tailCount; i++) tailSum += sorted[i];
+
+  const min = sorted[0];
+  const max = sorted[n - 1];
+  const width = max > min ? (max - min) / HISTOGRAM_BINS : 1;
+  const histogram: HistogramBin[] = Array.from({ length: max > min ? HISTOGRAM_BINS : 1 }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    count: 0,
+  }));
+  for (const x of sorted) {
+    const bin = Math.min(Math.floor((x - min) / width), histogram.length - 1);
+    histogram[bin].count++;
+  }
+
+  return {
+    label,
+    tau,
+    mean,
+    stdErr: Math.sqrt(variance / n),
+    probProfit: wins / n,
+    var95: -sorted[tailCount - 1],
+    cvar95: -tailSum / tailCount,
+    min,
+    max,
+    histogram,
+  };
+}
+
+/**
+ * Monte Carlo P&L distribution of a portfolio at each horizon.
+ *
+ * Log-spot diffuses with a local vol read off the smile at the strike equal to the
+ * current path level (σ(S) = smile(ln(S₀/S))), on the τ^H clock of the analytic
+ * model with H fixed at the tier in force now. Optional Merton jumps (compensated
+ * so spot stays a martingale) and Student-t shocks add gap risk and fat tails.
+ * "Hit" barriers are monitored continuously through the Brownian-bridge crossing
+ * probability on each step, plus a check after each jump.
+ *
+ * At a horizon before expiry each leg is marked with the analytic model (projectedIv
+ * under the request's smile model at the path spot, autoH of the remaining τ, exit
+ * spread and exit costs as in computePnlCurve), or at 1 once its barrier was touched;
+ * at expiry legs settle at 1/0. The vol shift also applies to the path's local vol,
+ * and entry costs come off every sample.
+ */
+export function runMonteCarlo(request: MonteCarloRequest, onProgress?: (done: number) => void): MonteCarloResult {
+  const started = Date.now();
+  const { strikes, hedge, spot, tau, optionType, hDelta, smile, model: smileModel, costs, horizons, config } = request;
+  const H = autoH(tau, hDelta);
+  const model: PathModel = {
+    volAt: (S) => Math.max((smile.length > 0 ? interpolateSmile(smile, Math.log(spot / S)) : 0.5) + smileModel.volShift, 1e-4),
+    H,
+    jumpIntensity: config.jumpIntensity,
+    jumpMean: config.jumpMean,
+    jumpVol: config.jumpVol,
+  };
+
+  const horizonTaus = horizons.map((h) => Math.min(Math.max(h.tau, 0), tau));
+  const grid = timeGrid(tau, config.steps, horizonTaus);
+  const markAt = new Map<number, number[]>(); // grid index → horizon indices
+  horizonTaus.forEach((t, h) => {
+    const index = grid.indexOf(t);
+    markAt.set(index, [...(markAt.get(index) ?? []), h]);
+  });
+
+  const uniform = createRng(config.seed);
+  const shock = createShock(uniform, config.tailDof);
+  const normal = createNormal(uniform);
+  const logBarriers = strikes.map((s) => Math.log(s.strikePrice));
+  const touched = new Uint8Array(strikes.length);
+  const samples = horizons.map(() => new Float64Array(config.paths));
+  const entry = strikes.reduce((sum, s) => sum + s.quantity * s.entryPrice, 0) + (costs ? costTotal(entryCosts(strikes, costs)) : 0);
+
+  const value = (S: number, remaining: number): number => {
+    let total = hedge ? hedgePnl(hedge, S, remaining) : 0;
+    const hNow = autoH(remaining, hDelta);
+    strikes.forEach((strike, i) => {
+      let yes: number;
+      if (optionType === 'hit' && touched[i]) yes = 1;
+      else if (remaining <= 0) {
+        yes = optionType === 'hit' ? 0 : S >= strike.strikePrice ? 1 : 0;
+      } else {
+        const iv = projectedIv(strike, S, remaining, hNow, smile, smileModel);
+        yes = priceOptionYes(S, strike.strikePrice, iv, remaining, optionType, strike.isUpBarrier, hNow);
+      }
+      const mid = strike.side === 'YES' ? yes : 1 - yes;
+      // Settled legs (expiry or touched barrier) pay out without crossing a spread
+      const settled = remaining <= 0 || (optionType === 'hit' && touched[i] === 1);
+      const exit = settled
+        ? mid
+        : strike.quantity >= 0 ? Math.max(0, mid - strike.exitDiscount) : Math.min(1, mid + strike.exitDiscount);
+      total += strike.quantity * exit;
+      if (costs) total -= settled ? settlementCost(strike, mid, costs) : exitCost(strike, exit, costs);
+    });
+    return total - entry;
+  };
+
+  for (let p = 0; p < config.paths; p++) {
+    touched.fill(0);
+    let x = Math.log(spot);
+    for (const h of markAt.get(0) ?? []) samples[h][p] = value(spot, grid[0]);
+
+    for (let k = 1; k < grid.length; k++) {
+      x = stepLog(x, grid[k - 1], grid[k], model, shock, normal, uniform, optionType === 'hit' ? logBarriers : null, touched, strikes);
+      for (const h of markAt.get(k) ?? []) samples[h][p] = value(Math.exp(x), grid[k]);
+    }
+    if (onProgress && (p + 1) % 2000 === 0) onProgress(p + 1);
+  }
+
+  return {
+    horizons: horizons.map((h, i) => summarize(h.label, horizonTaus[i], samples[i])),
+    crossCheck: crossCheck(request),
+    paths: config.paths,
+    seed: config.seed,
+    elapsedMs: Date.now() - started,
+  };
+}
+
+/**
+ * Advance log-spot over one step from τa to τb and flag barriers touched on the
+ * way. Returns the new log-spot.
+ */
+function stepLog(
+  xa: number,
+  tauA: number,
+  tauB: number,
+  model: PathModel,
+  shock: () => number,
+  normal: () => number,
+  uniform: () => number,
+  logBarriers: number[] | null,
+  touched: Uint8Array,
+  strikes: SelectedStrike[]
+): number {
+  const sigma = model.volAt(Math.exp(xa));
+  const variance = sigma * sigma * (Math.pow(tauA, 2 * model.H) - Math.pow(tauB, 2 * model.H));
+  const dt = tauA - tauB;
+  const jumpCompensator = model.jumpIntensity * (Math.exp(model.jumpMean + 0.5 * model.jumpVol * model.jumpVol) - 1) * dt;
+  const xd = xa - 0.5 * variance - jumpCompensator + Math.sqrt(Math.max(variance, 0)) * shock();
+
+  if (logBarriers) {
+    for (let i = 0; i < logBarriers.length; i++) {
+      if (touched[i]) continue;
+      const b = logBarriers[i];
+      const up = strikes[i].isUpBarrier;
+      if ((up && xd >= b) || (!up && xd <= b)) touched[i] = 1;
+      else if (uniform() < bridgeTouch(xa, xd, b, variance)) touched[i] = 1;
+    }
+  }
+
+  const jumps = samplePoisson(model.jumpIntensity * dt, uniform);
+  if (jumps === 0) return xd;
+  let xb = xd;
+  for (let j = 0; j < jumps; j++) xb += model.jumpMean + model.jumpVol * normal();
+
+  if (logBarriers) {
+    for (let i = 0; i < logBarriers.length; i++) {
+      if (!touched[i] && (strikes[i].isUpBarrier ? xb >= logBarriers[i] : xb <= logBarriers[i])) touched[i] = 1;
+    }
+  }
+  return xb;
+}
+
+/**
+ * Cross-check of the closed forms: each strike is simulated alone under the
+ * assumptions of priceAbove / priceHit — flat vol at its smile IV, Gaussian shocks,
+ * no jumps, the same τ^H clock — and the fraction of paths paying YES is compared
+ * with the analytic YES price now. Differences beyond ~3 standard errors point at
+ * a pricing or discretisation problem rather than sampling noise.
+ */
+export function crossCheck(request: MonteCarloRequest): CrossCheckRow[] {
+  const { strikes, spot, tau, optionType, hDelta, smile, model: smileModel, config } = request;
+  if (tau <= 0) return [];
+  const H = autoH(tau, hDelta);
+  const paths = Math.min(config.paths, 20000);
+
+  return strikes.map((strike) => {
+    const iv = projectedIv(strike, spot, tau, H, smile, smileModel);
+    const model: PathModel = { volAt: () => iv, H, jumpIntensity: 0, jumpMean: 0, jumpVol: 0 };
+    const grid = timeGrid(tau, config.steps, []);
+    const uniform = createRng(config.seed);
+    const normal = createNormal(uniform);
+    const logBarrier = [Math.log(strike.strikePrice)];
+    const touched = new Uint8Array(1);
+
+    let hits = 0;
+    for (let p = 0; p < paths; p++) {
+      touched[0] = 0;
+      let x = Math.log(spot);
+      if (optionType === 'hit' && (strike.isUpBarrier ? x >= logBarrier[0] : x <= logBarrier[0])) touched[0] = 1;
+      for (let k = 1; k < grid.length && !(optionType === 'hit' && touched[0]); k++) {
+        x = stepLog(x, grid[k - 1], grid[k], model, normal, normal, uniform, optionType === 'hit' ? logBarrier : null, touched, [strike]);
+      }
+      const yes = optionType === 'hit' ? touched[0] === 1 : x >= logBarrier[0];
+      if (yes) hits++;
+    }
+
+    const simulated = hits / paths;
+    return {
+      marketId: strike.marketId,
+      label: strike.groupItemTitle || strike.question,
+      iv,
+      analytic: priceOptionYes(spot, strike.strikePrice, iv, tau, optionType, strike.isUpBarrier, H),
+      simulated,
+      stdErr: Math.sqrt((simulated * (1 - simulated)) / paths),
+    };
+  });
+}
@@ -0,0 +1,18 @@
+import { runMonteCarlo, type MonteCarloRequest, type MonteCarloResult } from './montecarlo';
+
+export type MonteCarloMessage =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'result'; result: MonteCarloResult }
+  | { type: 'error'; message: string };
+
+// Runs off the main thread: a 20k-path simulation takes a few seconds
+self.addEventListener('message', (e: MessageEvent<MonteCarloRequest>) => {
+  const request = e.data;
+  const post = (message: MonteCarloMessage) => self.postMessage(message);
+  try {
+    const result = runMonteCarlo(request, (done) => post({ type: 'progress', done, total: request.config.paths }));
+    post({ type: 'result', result });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+});
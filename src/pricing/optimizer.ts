@@ -0,0 +1,183 @@
+import type { OptionType, Side } from '../types';
+
+const EPS = 1e-9;
+const MAX_PIVOTS = 5000;
+
+/** A leg the optimizer may buy: one side of one market at its ask */
+export interface CandidateLeg {
+  marketId: string;
+  label: string;
+  strikePrice: number;
+  side: Side;
+  ask: number;
+}
+
+/**
+ * Minimum settlement value wanted over a price zone, e.g. $1 if spot ends in
+ * [95k, 105k]. On "hit" events the zone describes the path instead: one that
+ * contains spot means spot stays inside it; one above (below) spot means the
+ * highest (lowest) price reached lands in it.
+ */
+export interface TargetZone {
+  lower: number;
+  upper: number;
+  payout: number; // USD per structure
+}
+
+export interface OptimizedLeg extends CandidateLeg {
+  shares: number;
+}
+
+export interface OptimizerResult {
+  legs: OptimizedLeg[];
+  cost: number; // Entry cost at the asks, USD
+  states: number; // Settlement states the target was checked on
+}
+
+/** A settlement outcome: which candidate legs pay $1, and the price ranges it spans */
+interface SettlementState {
+  pays: boolean[];
+  inZone: (zone: TargetZone) => boolean;
+}
+
+function overlaps(lo: number, hi: number, zone: TargetZone): boolean {
+  return lo < zone.upper && hi > zone.lower;
+}
+
+/**
+ * "Above" states are the intervals between consecutive strikes: every YES pays
+ * on the intervals above its strike and every NO below it. A state is in a zone
+ * when its interval overlaps the zone, so the target holds at every price in it.
+ */
+function aboveStates(candidates: CandidateLeg[]): SettlementState[] {
+  const strikes = [...new Set(candidates.map((c) => c.strikePrice))].sort((a, b) => a - b);
+  const bounds = [0, ...strikes, Infinity];
+  return bounds.slice(0, -1).map((lo, i) => {
+    const hi = bounds[i + 1];
+    return {
+      pays: candidates.map((c) => (c.side === 'YES' ? c.strikePrice <= lo : c.strikePrice >= hi)),
+      inZone: (zone) => overlaps(lo, hi, zone),
+    };
+  });
+}
+
+/**
+ * "Hit" states pair the interval the path's maximum ends in (between up barriers)
+ * with the interval its minimum ends in (between down barriers). A YES pays when
+ * its barrier is inside the range the path covered.
+ */
+function hitStates(candidates: CandidateLeg[], spot: number): SettlementState[] {
+  const strikes = [...new Set(candidates.map((c) => c.strikePrice))];
+  const up = [spot, ...strikes.filter((k) => k > spot).sort((a, b) => a - b), Infinity];
+  const down = [spot, ...strikes.filter((k) => k <= spot).sort((a, b) => b - a), 0];
+  const states: SettlementState[] = [];
+  for (let i = 0; i < up.length - 1; i++) {
+    const [maxLo, maxHi] = [up[i], up[i + 1]];
+    for (let j = 0; j < down.length - 1; j++) {
+      const [minHi, minLo] = [down[j], down[j + 1]];
+      states.push({
+        pays: candidates.map((c) => {
+          const touched = c.strikePrice > spot ? c.strikePrice <= maxLo : c.strikePrice >= minHi;
+          return c.side === 'YES' ? touched : !touched;
+        }),
+        inZone: (zone) => {
+          if (zone.lower >= spot) return overlaps(maxLo, maxHi, zone);
+          if (zone.upper <= spot) return overlaps(minLo, minHi, zone);
+          return maxLo < zone.upper && minHi > zone.lower; // Path can stay inside the zone
+        },
+      });
+    }
+  }
+  return states;
+}
+
+/**
+ * Maximise bᵀy subject to Mᵀ-style rows `rows[j]·y ≤ c[j]`, y ≥ 0, by the tableau
+ * simplex with Bland's rule. Since c > 0 the origin is feasible, so no phase one
+ * is needed. Returns the shadow prices of the rows, i.e. the solution of the dual
+ * problem min cᵀx, Σ_j x_j·rows[j] ≥ b, x ≥ 0 — or null if the pivot limit is hit.
+ */
+function solveDual(rows: number[][], c: number[], b: number[]): number[] | null {
+  const n = rows.length; // Constraints of the maximisation (= primal variables)
+  const m = b.length; // Variables of the maximisation (= primal constraints)
+  // Tableau columns: y (m), slacks (n), right-hand side
+  const T = rows.map((row, j) => [...row, ...Array.from({ length: n }, (_, k) => (k === j ? 1 : 0)), c[j]]);
+  const z = [...b.map((v) => -v), ...Array<number>(n).fill(0), 0];
+  const basis = Array.from({ length: n }, (_, j) => m + j);
+
+  for (let pivots = 0; pivots < MAX_PIVOTS; pivots++) {
+    const col = z.findIndex((v, k) => k < m + n && v < -EPS);
+    if (col < 0) return Array.from({ length: n }, (_, j) => Math.max(z[m + j], 0));
+
+    let row = -1;
+    let best = Infinity;
+    for (let r = 0; r < n; r++) {
+      if (T[r][col] <= EPS) continue;
+      const ratio = T[r][m + n] / T[r][col];
+      if (ratio < best - EPS || (Math.abs(ratio - best) <= EPS && basis[r] < basis[row])) {
+        best = ratio;
+        row = r;
+      }
+    }
+    // Unbounded dual = infeasible primal; callers rule that out before solving
+    if (row < 0) return null;
+
+    const pivot = T[row][col];
+    for (let k = 0; k <= m + n; k++) T[row][k] /= pivot;
+    for (let r = 0; r < n; r++) {
+      if (r === row || Math.abs(T[r][col]) <= EPS) continue;
+      const f = T[r][col];
+      for (let k = 0; k <= m + n; k++) T[r][k] -= f * T[row][k];
+    }
+    const f = z[col];
+    for (let k = 0; k <= m + n; k++) z[k] -= f * T[row][k];
+    basis[row] = col;
+  }
+  return null;
+}
+
+/**
+ * Cheapest set of long YES/NO positions whose settlement value meets every target
+ * zone, at the current asks. The event's outcomes are reduced to a finite set of
+ * states on which each leg pays 0 or 1, and the linear programme
+ *
+ *   min Σ ask_j · x_j   s.t.   Σ_j pays_sj · x_j ≥ target_s  for every state s,   x ≥ 0
+ *
+ * is solved through its dual. Shorts are not needed: selling YES is the same
+ * exposure as buying NO. Quantities are rounded up — to 4 decimals, or to whole
+ * shares with `wholeShares` — which keeps every target met since all payoffs are
+ * non-negative. Returns null when
+ * some zone cannot be covered by any available leg.
+ */
+export function optimizePayoff(
+  candidates: CandidateLeg[],
+  zones: TargetZone[],
+  spot: number,
+  optionType: OptionType,
+  wholeShares: boolean = false
+): OptimizerResult | null {
+  const legs = candidates.filter((c) => c.strikePrice > 0 && c.ask > 0 && c.ask < 1);
+  const active = zones.filter((z) => z.payout > 0 && z.upper > z.lower);
+  if (legs.length === 0 || active.length === 0) return null;
+
+  const states = optionType === 'hit' ? hitStates(legs, spot) : aboveStates(legs);
+  const targets = states.map((s) => Math.max(0, ...active.filter((z) => s.inZone(z)).map((z) => z.payout)));
+  const binding = states.map((_, i) => i).filter((i) => targets[i] > 0);
+  if (binding.some((i) => !states[i].pays.some(Boolean))) return null;
+
+  const rows = legs.map((_, j) => binding.map((i) => (states[i].pays[j] ? 1 : 0)));
+  const x = solveDual(rows, legs.map((l) => l.ask), binding.map((i) => targets[i]));
+  if (!x) return null;
+
+  const result: OptimizedLeg[] = [];
+  legs.forEach((leg, j) => {
+    // Always round up (past solver noise) so every target stays covered
+    const shares = wholeShares ? Math.ceil(x[j] - 1e-6) : Math.ceil(x[j] * 1e4 - 1e-6) / 1e4;
+    if (shares > 0) result.push({ ...leg, shares });
+  });
+  return {
+    legs: result,
+    cost: result.reduce((sum, l) => sum + l.shares * l.ask, 0),
+    states: states.length,
+  };
+}
@@ -0,0 +1,140 @@
+import type { HedgeLeg, OptionType, ProjectionPoint, SelectedStrike } from '../types';
+import {
+  DEFAULT_SMILE_MODEL,
+  autoH,
+  computeExpiryPnl,
+  computePnlCurve,
+  hedgePnl,
+  type SmileModel,
+  type SmilePoint,
+} from './engine';
+import type { CostModel } from './costs';
+import { computeGreeks, computeGreeksCurve, type Greeks, type GreeksPoint } from './greeks';
+
+const SECONDS_PER_YEAR = 365.25 * 24 * 3600;
+
+/**
+ * The legs held in one event, priced on that event's own clock: τ runs to its own
+ * expiry, H is autoH of that τ, and IVs come from the smile calibrated on its own
+ * ladder. A portfolio is a list of books on the same underlying.
+ */
+export interface EventBook {
+  label: string;
+  strikes: SelectedStrike[];
+  optionType: OptionType;
+  expiryTs: number;
+  smile?: SmilePoint[];
+  calibrationTauH?: number; // τ^H the smile was calibrated at (sticky-delta)
+}
+
+/** Years from ts to the book's expiry, 0 once it has settled */
+export function bookTau(book: EventBook, ts: number): number {
+  return Math.max((book.expiryTs - ts) / SECONDS_PER_YEAR, 0);
+}
+
+/** Latest expiry across the books — the end of the portfolio's time axis */
+export function portfolioExpiry(books: EventBook[]): number {
+  return Math.max(...books.map((b) => b.expiryTs));
+}
+
+/** Hedge τ on the first book's clock — negative past its expiry so funding keeps accruing */
+function hedgeTau(books: EventBook[], ts: number): number {
+  return (books[0].expiryTs - ts) / SECONDS_PER_YEAR;
+}
+
+/**
+ * P&L of every book at absolute time ts on one spot grid, summed. A book still
+ * running is marked with computePnlCurve on its own τ, H and smile; a book past
+ * its expiry has settled on the step function at the same spot. The hedge's
+ * openTau is measured on the first book's clock. A cost model makes every book's
+ * curve net of its own trading costs.
+ */
+export function computePortfolioPnlCurve(
+  books: EventBook[],
+  lowerPrice: number,
+  upperPrice: number,
+  ts: number,
+  hDelta: number = 0,
+  hedge?: HedgeLeg | null,
+  model: SmileModel = DEFAULT_SMILE_MODEL,
+  numPoints: number = 200,
+  costs?: CostModel | null
+): ProjectionPoint[] {
+  const active = books.filter((b) => b.strikes.length > 0);
+  if ((active.length === 0 && !hedge) || books.length === 0 || numPoints < 2) return [];
+
+  const step = (upperPrice - lowerPrice) / (numPoints - 1);
+  const total = Array.from({ length: numPoints }, (_, i) => {
+    const cryptoPrice = lowerPrice + step * i;
+    return { cryptoPrice, pnl: hedge ? hedgePnl(hedge, cryptoPrice, hedgeTau(books, ts)) : 0 };
+  });
+
+  for (const book of active) {
+    const tau = bookTau(book, ts);
+    const curve = tau > 0
+      ? computePnlCurve(
+        book.strikes, lowerPrice, upperPrice, tau, book.optionType, autoH(tau, hDelta), book.smile, null, numPoints,
+        { ...model, calibrationTauH: book.calibrationTauH }, costs
+      )
+      : computeExpiryPnl(book.strikes, lowerPrice, upperPrice, book.optionType, null, numPoints, costs);
+    curve.forEach((p, i) => (total[i].pnl += p.pnl));
+  }
+  return total;
+}
+
+/** Greeks of all books at spot S and time ts, each on its own τ and H, summed */
+export function computePortfolioGreeks(
+  books: EventBook[],
+  S: number,
+  ts: number,
+  hDelta: number = 0,
+  hedge?: HedgeLeg | null,
+  model: SmileModel = DEFAULT_SMILE_MODEL
+): Greeks {
+  const total: Greeks = { value: 0, delta: 0, gamma: 0, thetaPerDay: 0, vega: 0 };
+  const add = (g: Greeks) => {
+    total.value += g.value;
+    total.delta += g.delta;
+    total.gamma += g.gamma;
+    total.thetaPerDay += g.thetaPerDay;
+    total.vega += g.vega;
+  };
+  for (const book of books) {
+    if (book.strikes.length === 0) continue;
+    const tau = bookTau(book, ts);
+    add(computeGreeks(book.strikes, S, tau, book.optionType, autoH(tau, hDelta), book.smile, null, { ...model, calibrationTauH: book.calibrationTauH }));
+  }
+  if (hedge && books.length > 0) add(computeGreeks([], S, Math.max(hedgeTau(books, ts), 0), 'above', 0.5, undefined, hedge));
+  return total;
+}
+
+/** Delta and theta across a spot range for all books, summed — the chart's secondary curves */
+export function computePortfolioGreeksCurve(
+  books: EventBook[],
+  lowerPrice: number,
+  upperPrice: number,
+  ts: number,
+  hDelta: number = 0,
+  hedge?: HedgeLeg | null,
+  model: SmileModel = DEFAULT_SMILE_MODEL,
+  numPoints: number = 200
+): GreeksPoint[] {
+  const curves = books
+    .filter((b) => b.strikes.length > 0)
+    .map((book) => {
+      const tau = bookTau(book, ts);
+      return computeGreeksCurve(
+        book.strikes, lowerPrice, upperPrice, tau, book.optionType, autoH(tau, hDelta), book.smile, null, numPoints,
+        { ...model, calibrationTauH: book.calibrationTauH }
+      );
+    });
+  if (hedge && books.length > 0) {
+    curves.push(computeGreeksCurve([], lowerPrice, upperPrice, Math.max(hedgeTau(books, ts), 0), 'above', 0.5, undefined, hedge, numPoints));
+  }
+  if (curves.length === 0) return [];
+  return curves[0].map((p, i) => ({
+    cryptoPrice: p.cryptoPrice,
+    delta: curves.reduce((sum, c) => sum + c[i].delta, 0),
+    thetaPerDay: curves.reduce((sum, c) => sum + c[i].thetaPerDay, 0),
+  }));
+}
@@ -0,0 +1,114 @@
+import type { Candle, OptionType, ParsedMarket, PricePoint } from '../types';
+import { autoH, buildIvSmile, interpolateSmile, type SmilePoint } from './engine';
+
+const SECONDS_PER_YEAR = 365.25 * 24 * 3600;
+
+export interface ReplayFrame {
+  ts: number; // Unix timestamp (seconds)
+  spot: number;
+  tau: number; // Years to expiry at ts
+  H: number; // autoH tier in force at ts
+  prices: Record<string, number>; // YES price per market id as of ts
+  smile: SmilePoint[];
+  atmIv: number | null; // Smile IV at zero moneyness
+}
+
+/** Latest point at or before t (binary search on a time-sorted series) */
+export function valueAt(points: PricePoint[], t: number): number | null {
+  if (points.length === 0 || points[0].t > t) return null;
+  let lo = 0;
+  let hi = points.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (points[mid].t <= t) lo = mid; else hi = mid - 1;
+  }
+  return points[lo].p;
+}
+
+/** Spot as of t: open of the candle containing t (never looks past t) */
+export function spotAt(candles: Candle[], t: number): number | null {
+  if (candles.length === 0 || candles[0].t > t) return null;
+  let lo = 0;
+  let hi = candles.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (candles[mid].t <= t) lo = mid; else hi = mid - 1;
+  }
+  return candles[lo].open;
+}
+
+/**
+ * Recorded YES price of every market as of ts. Markets with no history point at
+ * or before ts are left out rather than filled with a later (e.g. live) price.
+ */
+export function pricesAt(markets: ParsedMarket[], histories: Record<string, PricePoint[]>, ts: number): Record<string, number> {
+  const prices: Record<string, number> = {};
+  for (const market of markets) {
+    const price = valueAt(histories[market.id] ?? [], ts);
+    if (price !== null) prices[market.id] = price;
+  }
+  return prices;
+}
+
+/**
+ * Rebuild the calibrated state of an event at regular past timestamps.
+ * Each frame pairs the CLOB YES prices with the Binance spot at that moment,
+ * then recalibrates the smile with the autoH tier for the frame's own τ.
+ * Frames where spot or every market price is unavailable are dropped.
+ */
+export function buildReplayFrames(
+  markets: ParsedMarket[],
+  histories: Record<string, PricePoint[]>,
+  candles: Candle[],
+  expiryTs: number,
+  optionType: OptionType,
+  hDelta: number,
+  startTs: number,
+  endTs: number,
+  stepSec: number
+): ReplayFrame[] {
+  const frames: ReplayFrame[] = [];
+  if (stepSec <= 0) return frames;
+
+  for (let ts = startTs; ts <= endTs; ts += stepSec) {
+    const spot = spotAt(candles, ts);
+    const tau = (expiryTs - ts) / SECONDS_PER_YEAR;
+    if (spot === null || tau <= 0) continue;
+
+    const prices = pricesAt(markets, histories, ts);
+    const quotes = markets
+      .filter((market) => market.id in prices)
+      .map((market) => ({ strikePrice: market.strikePrice, currentPrice: prices[market.id] }));
+    if (quotes.length === 0) continue;
+
+    const H = autoH(tau, hDelta);
+    const smile = buildIvSmile(quotes, spot, tau, optionType, H);
+    frames.push({
+      ts,
+      spot,
+      tau,
+      H,
+      prices,
+      smile,
+      atmIv: smile.length > 0 ? interpolateSmile(smile, 0) : null,
+    });
+  }
+
+  return frames;
+}
+
+/**
+ * Markets re-priced as of a replay frame; books are dropped since only mids are
+ * recorded. Markets without a recorded price at the frame are left out, so no live
+ * quote leaks into a past smile, strike IV or entry price.
+ */
+export function marketsAsOf(markets: ParsedMarket[], frame: ReplayFrame): ParsedMarket[] {
+  return markets
+    .filter((market) => market.id in frame.prices)
+    .map((market) => ({
+      ...market,
+      currentPrice: frame.prices[market.id],
+      yesBook: null,
+      noBook: null,
+    }));
+}
@@ -0,0 +1,66 @@
+import type { HedgeLeg, Scenario } from '../types';
+import { DEFAULT_SMILE_MODEL, type SmileModel } from './engine';
+import type { CostModel } from './costs';
+import { computePortfolioPnlCurve, portfolioExpiry, type EventBook } from './portfolio';
+
+const SECONDS_PER_YEAR = 365.25 * 24 * 3600;
+
+/** Standard stress pack offered until the user saves their own */
+export const DEFAULT_SCENARIOS: Scenario[] = [
+  { id: 'gap-down-8', name: '−8% gap', spotShock: -0.08, ivShock: 0, hoursLater: 0 },
+  { id: 'gap-up-8', name: '+8% gap', spotShock: 0.08, ivShock: 0, hoursLater: 0 },
+  { id: 'crash', name: 'Crash: −15%, IV +50%', spotShock: -0.15, ivShock: 0.5, hoursLater: 0 },
+  { id: 'gap-down-vol-12h', name: '−8% gap, IV +30%, 12h later', spotShock: -0.08, ivShock: 0.3, hoursLater: 12 },
+  { id: 'vol-crush-24h', name: 'Vol crush −30%, 24h later', spotShock: 0, ivShock: -0.3, hoursLater: 24 },
+];
+
+export interface ScenarioResult {
+  scenario: Scenario;
+  spot: number; // Shocked spot
+  ts: number; // Unix seconds the portfolio is marked at
+  tau: number; // Years to the last expiry at ts (0 = everything settled)
+  pnl: number; // USD
+}
+
+/**
+ * Mark a portfolio under one scenario: spot moved by the gap, every IV (each
+ * book's smile and each strike's own) scaled by 1 + ivShock, and time moved on by
+ * the jump, so every book runs on its shortened τ with H from autoH of it. The
+ * smile model's dynamics and vol shift apply on top. Books whose expiry the jump
+ * passes settle at the shocked spot; for "hit" legs a gap through a barrier counts
+ * as a touch, as in computePnlCurve. With a cost model the result is net of it.
+ */
+export function evaluateScenario(
+  books: EventBook[],
+  hedge: HedgeLeg | null,
+  scenario: Scenario,
+  spot: number,
+  nowTs: number,
+  hDelta: number = 0,
+  model: SmileModel = DEFAULT_SMILE_MODEL,
+  costs?: CostModel | null
+): ScenarioResult {
+  const expiryTs = portfolioExpiry(books);
+  const shockedSpot = spot * (1 + scenario.spotShock);
+  const ts = Math.min(expiryTs, nowTs + scenario.hoursLater * 3600);
+  const tau = Math.max((expiryTs - ts) / SECONDS_PER_YEAR, 0);
+  const volScale = Math.max(1 + scenario.ivShock, 0.01);
+
+  const shocked = books.map((book) => ({
+    ...book,
+    strikes: book.strikes.map((s) => ({ ...s, impliedVol: s.impliedVol * volScale })),
+    smile: book.smile?.map((p) => ({ ...p, iv: p.iv * volScale })),
+  }));
+  const [point] = computePortfolioPnlCurve(shocked, shockedSpot, shockedSpot, ts, hDelta, hedge, model, 2, costs);
+
+  return { scenario, spot: shockedSpot, ts, tau, pnl: point?.pnl ?? 0 };
+}
+
+/** Short description of a scenario's shocks, e.g. "−8% · IV +30% · +12h" */
+export function describeScenario(scenario: Scenario): string {
+  const pct = (v: number) => `${v >= 0 ? '+' : '−'}${Math.abs(v * 100).toLocaleString(undefined, { maximumFractionDigits: 1 })}%`;
+  const parts = [`spot ${pct(scenario.spotShock)}`];
+  if (scenario.ivShock !== 0) parts.push(`IV ${pct(scenario.ivShock)}`);
+  if (scenario.hoursLater > 0) parts.push(`+${scenario.hoursLater}h`);
+  return parts.join(' · ');
+}
@@ -0,0 +1,181 @@
+import type { OptionType } from '../types';
+import { priceOptionYes, solveImpliedVol } from './engine';
+
+const VOL_BUMP = 0.01; // For the price sensitivity that converts vol errors to cents
+const MIN_HALF_SPREAD = 0.005; // Half a cent — one-tick books would otherwise dominate the fit
+const HUBER_K = 1.5; // Residuals beyond 1.5 half-spreads are downweighted
+const IRLS_ITERATIONS = 20;
+
+/** YES quote of one strike, as fed to the fit */
+export interface SmileQuote {
+  id: string;
+  strikePrice: number;
+  bid: number;
+  ask: number;
+  mid: number;
+}
+
+/**
+ * Quadratic smile σ(m) = a + b·m + c·m² in moneyness m = ln(S/K), fitted over
+ * [minMoneyness, maxMoneyness] and held flat outside it.
+ */
+export interface SmileFit {
+  coefficients: [number, number, number]; // a, b, c
+  minMoneyness: number;
+  maxMoneyness: number;
+  rmse: number; // Weighted RMS of the IV residuals, in vol (0.01 = 1 point)
+  points: number;
+}
+
+/** Model value of one strike against its quotes, all in YES price terms */
+export interface FairValue {
+  fair: number; // YES price at the fitted smile
+  buyEdge: number; // fair − ask: > 0 means YES is offered below fair value
+  sellEdge: number; // bid − fair: > 0 means YES is bid above fair value (NO is cheap)
+  richness: number; // mid − fair: > 0 rich, < 0 cheap
+}
+
+/** Solve the normal equations A·x = y by Gaussian elimination with partial pivoting */
+function solveLinear(A: number[][], y: number[]): number[] | null {
+  const n = y.length;
+  const M = A.map((row, i) => [...row, y[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    }
+    if (Math.abs(M[pivot][col]) < 1e-14) return null;
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+    for (let r = col + 1; r < n; r++) {
+      const f = M[r][col] / M[col][col];
+      for (let c = col; c <= n; c++) M[r][c] -= f * M[col][c];
+    }
+  }
+  const x = Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = M[r][n];
+    for (let c = r + 1; c < n; c++) sum -= M[r][c] * x[c];
+    x[r] = sum / M[r][r];
+  }
+  return x;
+}
+
+/** Weighted polynomial least squares of the given degree; null when under-determined */
+function weightedPolyfit(m: number[], iv: number[], w: number[], degree: number): number[] | null {
+  const n = degree + 1;
+  const A = Array.from({ length: n }, () => Array<number>(n).fill(0));
+  const y = Array<number>(n).fill(0);
+  for (let i = 0; i < m.length; i++) {
+    const powers = Array.from({ length: n }, (_, p) => Math.pow(m[i], p));
+    for (let r = 0; r < n; r++) {
+      y[r] += w[i] * powers[r] * iv[i];
+      for (let c = 0; c < n; c++) A[r][c] += w[i] * powers[r] * powers[c];
+    }
+  }
+  return solveLinear(A, y);
+}
+
+/** IV of the fitted smile at moneyness m, flat beyond the fitted range */
+export function fittedIv(fit: SmileFit, moneyness: number): number {
+  const m = Math.min(fit.maxMoneyness, Math.max(fit.minMoneyness, moneyness));
+  const [a, b, c] = fit.coefficients;
+  return Math.max(a + b * m + c * m * m, 0.01);
+}
+
+/**
+ * Fit a quadratic smile to the strikes' mid IVs.
+ *
+ * Each strike is weighted by (vega / half-spread)², i.e. residuals are measured
+ * in cents of YES price relative to how wide the market is: deep wings, whose
+ * price barely moves with vol, and wide books count for little. On top of that,
+ * iteratively reweighted least squares with Huber weights caps the pull of any
+ * strike whose price sits more than 1.5 half-spreads off the curve, so one stale
+ * quote cannot bend the smile. Fewer than three strikes fall back to a line or a
+ * constant.
+ */
+export function fitSmile(
+  quotes: SmileQuote[],
+  S: number,
+  tau: number,
+  optionType: OptionType,
+  H: number = 0.5
+): SmileFit | null {
+  if (S <= 0 || tau <= 0) return null;
+
+  const m: number[] = [];
+  const iv: number[] = [];
+  const scale: number[] = []; // vega / half-spread: converts an IV residual to half-spreads
+  for (const quote of quotes) {
+    if (quote.strikePrice <= 0 || quote.mid <= 0.001 || quote.mid >= 0.999) continue;
+    const isUpBarrier = quote.strikePrice > S;
+    const sigma = solveImpliedVol(S, quote.strikePrice, tau, quote.mid, optionType, isUpBarrier, H);
+    if (sigma === null) continue;
+    const vega = Math.abs(
+      priceOptionYes(S, quote.strikePrice, sigma + VOL_BUMP, tau, optionType, isUpBarrier, H) -
+      priceOptionYes(S, quote.strikePrice, Math.max(sigma - VOL_BUMP, 1e-4), tau, optionType, isUpBarrier, H)
+    ) / (2 * VOL_BUMP);
+    const halfSpread = Math.max((quote.ask - quote.bid) / 2, MIN_HALF_SPREAD);
+    m.push(Math.log(S / quote.strikePrice));
+    iv.push(sigma);
+    scale.push(vega / halfSpread);
+  }
+  if (m.length === 0) return null;
+
+  const degree = Math.min(2, m.length - 1);
+  const base = scale.map((s) => s * s);
+  let robust = Array<number>(m.length).fill(1);
+  let coefficients: number[] | null = null;
+
+  for (let iter = 0; iter < IRLS_ITERATIONS; iter++) {
+    const weights = base.map((b, i) => b * robust[i]);
+    const next = weightedPolyfit(m, iv, weights, degree);
+    if (!next) break;
+    coefficients = next;
+    const residuals = m.map((x, i) => (iv[i] - next.reduce((sum, c, p) => sum + c * Math.pow(x, p), 0)) * scale[i]);
+    const updated = residuals.map((u) => (Math.abs(u) <= HUBER_K ? 1 : HUBER_K / Math.abs(u)));
+    const converged = updated.every((w, i) => Math.abs(w - robust[i]) < 1e-6);
+    robust = updated;
+    if (converged) break;
+  }
+  // All strikes at one moneyness, or no usable weight: fall back to the plain mean
+  if (!coefficients) coefficients = [iv.reduce((a, b) => a + b, 0) / iv.length];
+
+  const [a, b = 0, c = 0] = coefficients;
+  const fit: SmileFit = {
+    coefficients: [a, b, c],
+    minMoneyness: Math.min(...m),
+    maxMoneyness: Math.max(...m),
+    rmse: 0,
+    points: m.length,
+  };
+  const weights = base.map((w, i) => w * robust[i]);
+  const totalWeight = weights.reduce((s, w) => s + w, 0);
+  fit.rmse = totalWeight > 0
+    ? Math.sqrt(m.reduce((s, x, i) => s + weights[i] * (iv[i] - fittedIv(fit, x)) ** 2, 0) / totalWeight)
+    : 0;
+  return fit;
+}
+
+/** Fair YES value of every quoted strike at the fitted smile, keyed by quote id */
+export function fairValues(
+  quotes: SmileQuote[],
+  fit: SmileFit,
+  S: number,
+  tau: number,
+  optionType: OptionType,
+  H: number = 0.5
+): Map<string, FairValue> {
+  const values = new Map<string, FairValue>();
+  for (const quote of quotes) {
+    if (quote.strikePrice <= 0) continue;
+    const sigma = fittedIv(fit, Math.log(S / quote.strikePrice));
+    const fair = priceOptionYes(S, quote.strikePrice, sigma, tau, optionType, quote.strikePrice > S, H);
+    values.set(quote.id, {
+      fair,
+      buyEdge: fair - quote.ask,
+      sellEdge: quote.bid - fair,
+      richness: quote.mid - fair,
+    });
+  }
+  return values;
+}
@@ -0,0 +1,119 @@
+import type { HedgeLeg } from '../types';
+import { DEFAULT_SMILE_MODEL, type SmileModel } from './engine';
+import type { CostModel } from './costs';
+import { computePortfolioPnlCurve, portfolioExpiry, type EventBook } from './portfolio';
+
+const SECONDS_PER_YEAR = 365.25 * 24 * 3600;
+
+/** P&L over a spot × time grid. Rows run from now (row 0) to the last expiry (last row). */
+export interface PnlSurface {
+  spots: number[];
+  times: number[]; // Unix seconds per row
+  taus: number[]; // Years to the last expiry per row
+  pnl: number[][]; // pnl[row][column], USD
+  maxAbs: number; // Largest |P&L| on the grid, for a symmetric colour scale
+}
+
+/** One piece of the break-even contour in fractional grid coordinates (column, row) */
+export interface ContourSegment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/**
+ * Evaluate the portfolio on an evenly spaced spot × time grid up to the last
+ * expiry. Every row is a projection snapshot at that row's time: each book on its
+ * own τ, autoH tier and smile, or settled once past its expiry (see
+ * computePortfolioPnlCurve). With a cost model every cell is net of it, as the
+ * projection curves are.
+ */
+export function computePnlSurface(
+  books: EventBook[],
+  lowerPrice: number,
+  upperPrice: number,
+  nowTs: number,
+  hDelta: number = 0,
+  hedge?: HedgeLeg | null,
+  spotSteps: number = 80,
+  timeSteps: number = 48,
+  model: SmileModel = DEFAULT_SMILE_MODEL,
+  costs?: CostModel | null
+): PnlSurface | null {
+  if (books.length === 0 || (books.every((b) => b.strikes.length === 0) && !hedge) || spotSteps < 2 || timeSteps < 2) return null;
+  const expiryTs = portfolioExpiry(books);
+  if (expiryTs <= nowTs) return null;
+
+  const times: number[] = [];
+  const taus: number[] = [];
+  const pnl: number[][] = [];
+  let maxAbs = 0;
+
+  for (let r = 0; r < timeSteps; r++) {
+    const ts = nowTs + ((expiryTs - nowTs) * r) / (timeSteps - 1);
+    const tau = Math.max((expiryTs - ts) / SECONDS_PER_YEAR, 0);
+    const curve = computePortfolioPnlCurve(books, lowerPrice, upperPrice, ts, hDelta, hedge, model, spotSteps, costs);
+    const row = curve.map((p) => p.pnl);
+    for (const v of row) maxAbs = Math.max(maxAbs, Math.abs(v));
+    times.push(ts);
+    taus.push(tau);
+    pnl.push(row);
+  }
+
+  const spots = Array.from({ length: spotSteps }, (_, i) => lowerPrice + ((upperPrice - lowerPrice) * i) / (spotSteps - 1));
+  return { spots, times, taus, pnl, maxAbs };
+}
+
+/**
+ * Zero-level contour of the surface by marching squares, with the crossing point
+ * linearly interpolated along each cell edge. Saddle cells are resolved by the
+ * cell-centre average.
+ */
+export function breakEvenContour(surface: PnlSurface): ContourSegment[] {
+  const { pnl } = surface;
+  const segments: ContourSegment[] = [];
+
+  // Fraction along an edge from a to b where the value crosses zero
+  const cross = (a: number, b: number) => (a === b ? 0.5 : a / (a - b));
+
+  for (let r = 0; r < pnl.length - 1; r++) {
+    for (let c = 0; c < pnl[r].length - 1; c++) {
+      const tl = pnl[r][c];
+      const tr = pnl[r][c + 1];
+      const br = pnl[r + 1][c + 1];
+      const bl = pnl[r + 1][c];
+      const index = (tl >= 0 ? 8 : 0) | (tr >= 0 ? 4 : 0) | (br >= 0 ? 2 : 0) | (bl >= 0 ? 1 : 0);
+      if (index === 0 || index === 15) continue;
+
+      const top = { x: c + cross(tl, tr), y: r };
+      const right = { x: c + 1, y: r + cross(tr, br) };
+      const bottom = { x: c + cross(bl, br), y: r + 1 };
+      const left = { x: c, y: r + cross(tl, bl) };
+      const push = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+        segments.push({ x1: a.x, y1: a.y, x2: b.x, y2: b.y });
+
+      switch (index) {
+        case 1: case 14: push(left, bottom); break;
+        case 2: case 13: push(bottom, right); break;
+        case 3: case 12: push(left, right); break;
+        case 4: case 11: push(top, right); break;
+        case 6: case 9: push(top, bottom); break;
+        case 7: case 8: push(left, top); break;
+        case 5: case 10: {
+          const centrePositive = (tl + tr + br + bl) / 4 >= 0;
+          // 5: tr and bl positive; 10: tl and br positive
+          if ((index === 5) === centrePositive) {
+            push(left, top);
+            push(bottom, right);
+          } else {
+            push(top, right);
+            push(left, bottom);
+          }
+          break;
+        }
+      }
+    }
+  }
+  return segments;
+}
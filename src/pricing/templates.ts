@@ -0,0 +1,121 @@
+import type { OptionType, ParsedMarket, Side } from '../types';
+
+export type StrategyTemplate = 'vertical' | 'range' | 'strangle' | 'ladder' | 'beyond';
+
+export interface TemplateParams {
+  centre: number; // USD; the structure is built around the strike nearest to it
+  width: number; // USD from the centre to each wing (vertical: between the two strikes)
+  count: number; // Ladder rungs
+  percent: number; // "Beyond ±X%": distance from spot, 0.1 = 10%
+  direction: 'up' | 'down'; // Vertical and ladder
+  fade: boolean; // "Beyond": bet spot stays inside (true) or gets out (false)
+  size: number; // Shares per leg; a vertical's short leg gets −size
+}
+
+/** One leg the template selects: side and signed share count on one market */
+export interface TemplateLeg {
+  marketId: string;
+  side: Side;
+  shares: number;
+}
+
+function leg(market: ParsedMarket, side: Side, shares: number): TemplateLeg {
+  return { marketId: market.id, side, shares };
+}
+
+function nearest(markets: ParsedMarket[], price: number): ParsedMarket | null {
+  let best: ParsedMarket | null = null;
+  for (const m of markets) {
+    if (!best || Math.abs(m.strikePrice - price) < Math.abs(best.strikePrice - price)) best = m;
+  }
+  return best;
+}
+
+/**
+ * Side that pays when spot ends (above) or trades (hit) beyond `market` in the
+ * given direction. On "above" events that is YES going up and NO going down; on
+ * "hit" events it is always YES, since a down barrier's YES pays on the way down.
+ */
+function sideBeyond(optionType: OptionType, direction: 'up' | 'down'): Side {
+  return optionType === 'hit' || direction === 'up' ? 'YES' : 'NO';
+}
+
+function opposite(side: Side): Side {
+  return side === 'YES' ? 'NO' : 'YES';
+}
+
+/**
+ * Map a template onto the event's strikes. Each wing snaps to the strike nearest
+ * its target price, and the sides follow the option type:
+ *
+ *   vertical  +size on the nearer strike, −size on the farther one, same side —
+ *             above: a digital call (put) spread; hit: touch the first barrier but not the second
+ *   range     pays inside [centre − width, centre + width] —
+ *             above: YES lower + NO upper; hit: NO on both barriers (neither touched)
+ *   strangle  pays outside the range — above: NO lower + YES upper; hit: YES on both barriers
+ *   ladder    `count` strikes stepping away from the centre, all paying further out
+ *   beyond    every strike more than ±percent from spot; fade sells the tails, else buys them
+ *
+ * On "hit" events a barrier's direction is fixed by spot, so wings that must sit
+ * on either side of spot (range, strangle) are taken from the strikes below and
+ * above spot. Returns no legs when the event has no strikes that fit.
+ */
+export function buildTemplate(
+  template: StrategyTemplate,
+  params: TemplateParams,
+  markets: ParsedMarket[],
+  spot: number,
+  optionType: OptionType
+): TemplateLeg[] {
+  const strikes = markets.filter((m) => m.strikePrice > 0).sort((a, b) => a.strikePrice - b.strikePrice);
+  const below = optionType === 'hit' ? strikes.filter((m) => m.strikePrice <= spot) : strikes;
+  const above = optionType === 'hit' ? strikes.filter((m) => m.strikePrice > spot) : strikes;
+  const { centre, width, size, direction } = params;
+
+  switch (template) {
+    case 'vertical': {
+      // Both legs on the side of spot the spread points to; the far leg is a different strike
+      const pool = optionType === 'hit' ? (direction === 'up' ? above : below) : strikes;
+      const near = nearest(pool, centre);
+      if (!near) return [];
+      const target = direction === 'up' ? near.strikePrice + width : near.strikePrice - width;
+      const far = nearest(pool.filter((m) => (direction === 'up' ? m.strikePrice > near.strikePrice : m.strikePrice < near.strikePrice)), target);
+      if (!far) return [];
+      const side = sideBeyond(optionType, direction);
+      return [leg(near, side, size), leg(far, side, -size)];
+    }
+    case 'range':
+    case 'strangle': {
+      const lower = nearest(below, centre - width);
+      const upper = nearest(above.filter((m) => !lower || m.strikePrice > lower.strikePrice), centre + width);
+      if (!lower || !upper) return [];
+      // Strangle buys the sides paying beyond each wing; range buys their complements
+      const lowSide = sideBeyond(optionType, 'down');
+      const highSide = sideBeyond(optionType, 'up');
+      return template === 'strangle'
+        ? [leg(lower, lowSide, size), leg(upper, highSide, size)]
+        : [leg(lower, opposite(lowSide), size), leg(upper, opposite(highSide), size)];
+    }
+    case 'ladder': {
+      const pool = direction === 'up'
+        ? above.filter((m) => m.strikePrice >= centre)
+        : below.filter((m) => m.strikePrice <= centre).reverse();
+      const side = sideBeyond(optionType, direction);
+      return pool.slice(0, Math.max(1, Math.floor(params.count))).map((m) => leg(m, side, size));
+    }
+    case 'beyond': {
+      const lowerBound = spot * (1 - params.percent);
+      const upperBound = spot * (1 + params.percent);
+      const legs: TemplateLeg[] = [];
+      for (const m of below.filter((m) => m.strikePrice <= lowerBound)) {
+        const side = sideBeyond(optionType, 'down');
+        legs.push(leg(m, params.fade ? opposite(side) : side, size));
+      }
+      for (const m of above.filter((m) => m.strikePrice >= upperBound)) {
+        const side = sideBeyond(optionType, 'up');
+        legs.push(leg(m, params.fade ? opposite(side) : side, size));
+      }
+      return legs;
+    }
+  }
+}
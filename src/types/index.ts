@@ -7,6 +7,7 @@ export interface Market {
   startDate: number; // Unix timestamp (seconds)
   clobTokenIds: string; // JSON-encoded string
   outcomePrices: string; // JSON-encoded string e.g. '["0.85","0.15"]'
+  resolutionSource?: string; // URL or name of the price source the market resolves against
 }
 
 export interface PolymarketEvent {
@@ -16,6 +17,7 @@ export interface PolymarketEvent {
   description: string;
   startDate: number; // Unix timestamp (seconds)
   endDate: number; // Unix timestamp (seconds)
+  resolutionSource?: string;
   markets: Market[];
   series?: {
     cgAssetName?: string;
@@ -32,6 +34,33 @@ export interface PriceHistory {
   history: PricePoint[];
 }
 
+export interface Candle {
+  t: number; // Open time, Unix timestamp (seconds)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export type CandleInterval = '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
+
+export type PriceHistoryInterval = '1h' | '6h' | '1d' | '1w' | '1m' | 'max';
+
+export interface OrderBookLevel {
+  price: number;
+  size: number; // Shares resting at this price
+}
+
+export interface OrderBookQuote {
+  bids: OrderBookLevel[]; // Best (highest) first
+  asks: OrderBookLevel[]; // Best (lowest) first
+  bestBid: number | null;
+  bestAsk: number | null;
+  mid: number | null;
+  bidDepth: number; // Total shares on the bid side
+  askDepth: number; // Total shares on the ask side
+}
+
 export interface ParsedMarket {
   id: string;
   question: string;
@@ -41,16 +70,120 @@ export interface ParsedMarket {
   startDate: number; // Unix timestamp (seconds)
   yesTokenId: string;
   noTokenId: string;
-  currentPrice: number; // YES outcome price (0-1)
+  currentPrice: number; // YES outcome price (0-1) — CLOB mid when a book is available
   strikePrice: number; // Parsed strike price from groupItemTitle
+  yesBook: OrderBookQuote | null; // CLOB book for the YES token
+  noBook: OrderBookQuote | null; // CLOB book for the NO token
 }
 
 export type CryptoOption = 'BTC' | 'ETH' | 'SOL' | 'XRP';
 
+export type SpotSource = 'binance' | 'coinbase' | 'kraken';
+
 export type OptionType = 'above' | 'hit';
 
 export type Side = 'YES' | 'NO';
 
+/** An event ready to chart: its markets with order books and the detected underlying and type */
+export interface LoadedEvent {
+  event: PolymarketEvent;
+  markets: ParsedMarket[];
+  crypto: CryptoOption | null;
+  optionType: OptionType;
+}
+
+/** A position already held, entered by hand at its own average entry price */
+export interface HeldPosition {
+  id: string;
+  marketId: string;
+  side: Side;
+  quantity: number; // Signed shares — negative = short
+  avgPrice: number; // Average entry price per share (0–1)
+}
+
+/** Linear hedge in the underlying — spot or perp, sized in coins */
+export interface HedgeLeg {
+  size: number; // Coins — negative = short
+  entryPrice: number; // Spot price the hedge was opened at
+  fundingRate: number; // Annualised perp funding paid by longs (received by shorts); 0 for spot
+  openTau: number; // τ (years to expiry) when the hedge was opened — funding accrues from here
+}
+
+/** A projection snapshot time — relative to now or expiry, or an absolute date-time */
+export type Horizon =
+  | { kind: 'now' }
+  | { kind: 'expiry' }
+  | { kind: 'fraction'; elapsed: number } // Fraction (0–1) of the remaining time elapsed
+  | { kind: 'offset'; hours: number } // N hours from now
+  | { kind: 'beforeExpiry'; hours: number } // N hours before expiry
+  | { kind: 'absolute'; ts: number }; // Unix timestamp (seconds)
+
+/** A named stress applied to the portfolio at once: spot gap, IV shock and time jump */
+export interface Scenario {
+  id: string;
+  name: string;
+  spotShock: number; // Relative spot move, e.g. −0.08 = 8% gap down
+  ivShock: number; // Relative change of every strike's IV, e.g. 0.3 = IV × 1.3
+  hoursLater: number; // Time jump from now, clamped at expiry
+}
+
+export type SizingMode = 'shares' | 'usd';
+
+/** Leg size as entered in the strike table — shares, or USD notional converted at the fill price */
+export interface LegSize {
+  mode: SizingMode;
+  value: number; // Signed — negative = short
+}
+
+/**
+ * How a strike's IV moves when a projection changes spot or time:
+ *   sticky-strike    — each strike keeps its calibrated IV
+ *   sticky-moneyness — IV is read off the smile at the new ln(S/K)
+ *   sticky-delta     — IV is read off the smile at the same standardized moneyness
+ *                      ln(S/K) / τ^H, a proxy for delta
+ */
+export type SmileDynamics = 'sticky-strike' | 'sticky-moneyness' | 'sticky-delta';
+
+/** What a shared link or saved strategy restores on the chart screen */
+export interface ChartState {
+  slugs: string[]; // Primary event first, then linked events
+  selections: string[]; // selKey set: marketId-YES / marketId-NO
+  legSizes: Record<string, LegSize>; // Only legs not at the default 1 share
+  linkedLegs: Record<string, number>; // Linked-event legs: selKey → signed shares
+  entryPrices?: Record<string, number>; // Recorded fill per selKey (reopened strategies); other legs enter at the live quote
+  priceRange: [number, number] | null; // null = the event's default range
+  hDelta: number;
+  horizons: Horizon[];
+  smileDynamics: SmileDynamics;
+  volShift: number;
+}
+
+/** One leg of a saved strategy, in whichever loaded event it belongs to */
+export interface StrategyLeg {
+  eventSlug: string;
+  marketId: string;
+  side: Side;
+  label: string; // Strike title, for lists
+  size: LegSize;
+  entryPrice: number; // Fill price (ask long, bid short) when the strategy was saved
+}
+
+/** A named, saved structure: its events, legs, model settings and notes */
+export interface Strategy {
+  id: string;
+  name: string;
+  notes: string;
+  savedAt: number; // Unix seconds
+  eventTitle: string; // Primary event, for lists
+  slugs: string[]; // Primary event first, then linked events
+  legs: StrategyLeg[];
+  priceRange: [number, number] | null;
+  hDelta: number;
+  horizons: Horizon[];
+  smileDynamics: SmileDynamics;
+  volShift: number;
+}
+
 export interface ProjectionPoint {
   cryptoPrice: number;
   pnl: number;
@@ -62,7 +195,11 @@ export interface SelectedStrike {
   groupItemTitle: string;
   strikePrice: number;
   side: Side;
-  entryPrice: number; // Price paid (YES price for YES, 1-YES price for NO)
+  quantity: number; // Signed shares — negative = short (sold)
+  entryPrice: number; // Per-share fill: best ask when long, best bid when short
+  exitDiscount: number; // Half-spread crossed when exiting before expiry (mid − bid long, ask − mid short)
+  entrySlippage?: number; // Per share beyond the touch when filling this size through the book (see costs.ts)
+  exitSlippage?: number; // The same for closing it against the opposite side of the book
   impliedVol: number; // Calibrated IV (same for YES/NO)
   isUpBarrier: boolean; // For hit-type: true if strike > spot (need price to rise)
 }
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { checkArbitrage } from '../src/pricing/arbitrage';
+import { SPOT, book, market } from './fixtures';
+
+// "Above" ladder where the 105k YES mid sits over the 100k one: buying YES 100k at
+// 40¢ and NO 105k at 45¢ costs 85¢ and pays at least $1
+const inverted = [
+  market('lo', 100000, 0.42, { yesBook: book([[0.39, 300]], [[0.4, 300]]), noBook: book([[0.58, 300]], [[0.6, 300]]) }),
+  market('hi', 105000, 0.55, { yesBook: book([[0.53, 200]], [[0.56, 200]]), noBook: book([[0.44, 200]], [[0.45, 200]]) }),
+];
+
+describe('checkArbitrage: dominance', () => {
+  it('reports the vertical with its edge, fees and profit', () => {
+    const [v] = checkArbitrage(inverted, 'above', SPOT, 0);
+    expect(v.kind).toBe('vertical');
+    expect(v.legs.map((l) => `${l.action} ${l.side} ${l.marketId} @ ${l.price}`)).toEqual(['buy YES lo @ 0.4', 'buy NO hi @ 0.45']);
+    expect(v.edge).toBeCloseTo(0.15, 10);
+    expect(v.size).toBe(200);
+    expect(v.profit).toBeCloseTo(30, 10);
+    expect(v.executable).toBe(true);
+  });
+
+  it('keeps a fee-negative edge as not executable, with no profit', () => {
+    // 4000 bps: fees = 0.4 × (0.4 + 0.45) = 34¢ > the 15¢ edge
+    const [v] = checkArbitrage(inverted, 'above', SPOT, 4000);
+    expect(v.fees).toBeCloseTo(0.34, 10);
+    expect(v.net).toBeCloseTo(-0.19, 10);
+    expect(v.executable).toBe(false);
+    expect(v.profit).toBe(0);
+  });
+
+  it('reports mids out of order behind a wide spread as a mid-price inconsistency', () => {
+    const wide = [
+      market('lo', 100000, 0.5, { yesBook: book([[0.45, 100]], [[0.6, 100]]), noBook: book([[0.4, 100]], [[0.55, 100]]) }),
+      market('hi', 105000, 0.52, { yesBook: book([[0.47, 100]], [[0.58, 100]]), noBook: book([[0.42, 100]], [[0.53, 100]]) }),
+    ];
+    const [v] = checkArbitrage(wide, 'above', SPOT, 0);
+    expect(v.edge).toBeLessThan(0);
+    expect(v.executable).toBe(false);
+  });
+
+  it('checks hit barriers against the nearer one on the same side only', () => {
+    const hits = [
+      market('d1', 95000, 0.3), // Farther down than d2 but priced over it
+      market('d2', 97000, 0.25),
+      market('u1', 103000, 0.4),
+    ];
+    const found = checkArbitrage(hits, 'hit', SPOT, 0);
+    expect(found.map((v) => `${v.kind} ${v.marketIds.join('/')}`)).toEqual(['touch-order d2/d1']);
+  });
+
+  it('finds nothing on a consistent ladder', () => {
+    const ladder = [market('a', 95000, 0.8), market('b', 100000, 0.5), market('c', 105000, 0.2)];
+    expect(checkArbitrage(ladder, 'above', SPOT, 0)).toEqual([]);
+  });
+});
+
+describe('checkArbitrage: crossed books', () => {
+  const crossedMarket = (yesAsk: number, noAsk: number, strikePrice = 100000) =>
+    market('x', strikePrice, yesAsk, { yesBook: book([[yesAsk - 0.02, 50]], [[yesAsk, 50]]), noBook: book([[noAsk - 0.02, 80]], [[noAsk, 80]]) });
+
+  it('buys both sides when the asks sum below $1', () => {
+    const [v] = checkArbitrage([crossedMarket(0.45, 0.5)], 'above', SPOT, 0);
+    expect(v.kind).toBe('crossed');
+    expect(v.edge).toBeCloseTo(0.05, 10);
+    expect(v.profit).toBeCloseTo(2.5, 10);
+    expect(v.executable).toBe(true);
+  });
+
+  it('is not executable once fees exceed the edge', () => {
+    // 2000 bps: fees = 0.2 × (0.45 + 0.5) = 19¢
+    const [v] = checkArbitrage([crossedMarket(0.45, 0.5)], 'above', SPOT, 2000);
+    expect(v.net).toBeCloseTo(-0.14, 10);
+    expect(v.executable).toBe(false);
+    expect(v.profit).toBe(0);
+  });
+
+  it('sorts executable violations first', () => {
+    // The 90k market's YES and NO asks sum to 99¢; at 500 bps its 1¢ edge does not cover the fees
+    const found = checkArbitrage([crossedMarket(0.8, 0.19, 90000), ...inverted], 'above', SPOT, 500);
+    expect(found.map((v) => [v.kind, v.executable])).toEqual([['vertical', true], ['crossed', false]]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BACKTEST_OPTIONS, formatBacktestReport, runBacktest, type BacktestFixture } from '../src/pricing/backtest';
+import { readFixture } from './fixtures';
+
+const fixture = readFixture<BacktestFixture>('backtest-btc-above.json');
+
+describe('autoH backtest on a fixture priced at H = 0.6', () => {
+  const [report] = runBacktest([fixture], DEFAULT_BACKTEST_OPTIONS);
+  const tier = (label: string) => report.tiers.find((t) => t.label === label)!;
+
+  it('buckets every projection by τ at t + Δ', () => {
+    expect(report.asset).toBe('BTC');
+    expect(report.events).toBe(1);
+    // 120 hourly calibrations on a 5-day event. τ > 3d after Δ = 6h for t ≤ 41h and after Δ = 24h
+    // for t ≤ 23h: (42 + 24) × 3 strikes. The rest lands in ≤ 3d, less the 98,000
+    // quotes above 0.999 at t = 112h and 113h, which are dropped before calibration.
+    expect(tier('> 7d').errors.every((e) => e.samples === 0)).toBe(true);
+    expect(tier('3–7d').errors.every((e) => e.samples === 198)).toBe(true);
+    expect(tier('≤ 3d').errors.every((e) => e.samples === 430)).toBe(true);
+  });
+
+  it('recovers the H the prices were generated with', () => {
+    expect(tier('> 7d').bestH).toBeNull();
+    expect(tier('3–7d').bestH).toBe(0.6);
+    expect(tier('≤ 3d').bestH).toBe(0.6);
+
+    const exact = tier('3–7d').errors.find((e) => e.H === 0.6)!;
+    expect(exact.rmse).toBeLessThan(1e-4);
+    expect(Math.abs(exact.bias)).toBeLessThan(1e-4);
+    // The error grows with the distance from the true H on either side
+    for (const label of ['3–7d', '≤ 3d']) {
+      const { errors } = tier(label);
+      const best = errors.findIndex((e) => e.H === 0.6);
+      for (let i = 0; i < errors.length - 1; i++) {
+        if (i < best) expect(errors[i].rmse).toBeGreaterThan(errors[i + 1].rmse);
+        else expect(errors[i + 1].rmse).toBeGreaterThan(errors[i].rmse);
+      }
+    }
+    for (const e of tier('3–7d').errors.filter((e) => Math.abs(e.H - 0.6) > 0.01)) expect(e.rmse).toBeGreaterThan(0.001);
+  });
+
+  it('reports the recommended tiers', () => {
+    const text = formatBacktestReport([report]);
+    expect(text).toContain('=== BTC (1 event) ===');
+    expect(text).toMatch(/τ > 7d {3}→ H = insufficient data/);
+    expect(text).toMatch(/τ 3–7d {3}→ H = 0\.60/);
+    expect(text).toMatch(/τ ≤ 3d {3}→ H = 0\.60/);
+  });
+});
+
+// The pre-fix approximation: the erf polynomial applied to |x| instead of |x|/√2
+function legacyNormalCDF(x: number): number {
+  if (x > 8) return 1;
+  if (x < -8) return 0;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return 0.5 * (1 + Math.sign(x) * (1 - poly * Math.exp(-x * x / 2)));
+}
+
+describe('autoH backtest after the normalCDF fix', () => {
+  // The same event priced as the old Φ would at the shipped tier H values (σ = 0.6)
+  function legacyPriced(H: number): BacktestFixture {
+    return {
+      ...fixture,
+      markets: fixture.markets.map((m) => ({
+        ...m,
+        history: fixture.candles.map((c) => {
+          const tau = (fixture.endDate - c.t) / (365.25 * 24 * 3600);
+          const d2 = (Math.log(c.open / m.strikePrice) - 0.18 * Math.pow(tau, 2 * H)) / (0.6 * Math.pow(tau, H));
+          return { t: c.t, p: legacyNormalCDF(d2) };
+        }),
+      })),
+    };
+  }
+
+  it('fits prices the old Φ gave at H = 0.50–0.65 with no H, at or below the shipped tier', () => {
+    for (const H of [0.5, 0.6, 0.65]) {
+      const [report] = runBacktest([legacyPriced(H)], DEFAULT_BACKTEST_OPTIONS);
+      const recommended = report.tiers.filter((t) => t.bestH !== null);
+      expect(recommended.map((t) => t.label)).toEqual(['3–7d', '≤ 3d']);
+      for (const tier of recommended) {
+        expect(tier.bestH).toBeLessThanOrEqual(H);
+        expect(Math.min(...tier.errors.map((e) => e.rmse))).toBeGreaterThan(0.01);
+      }
+    }
+  });
+});
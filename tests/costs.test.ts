@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+  NO_COSTS,
+  costTotal,
+  depthSlippage,
+  entryCosts,
+  executionLevels,
+  exitCost,
+  hasCosts,
+  settlementCost,
+  takerFee,
+  type CostModel,
+} from '../src/pricing/costs';
+import { book, leg, market } from './fixtures';
+
+const model: CostModel = { feeBps: 200, fixedCost: 0.25, slippage: true, onExit: true };
+
+describe('takerFee', () => {
+  it('charges the rate on the less likely outcome', () => {
+    expect(takerFee(0.5, 200)).toBeCloseTo(0.01, 12);
+    expect(takerFee(0.9, 200)).toBeCloseTo(0.002, 12);
+    expect(takerFee(0.1, 200)).toBeCloseTo(takerFee(0.9, 200), 12);
+    expect(takerFee(0.7, 0)).toBe(0);
+  });
+});
+
+describe('depth slippage', () => {
+  const asks: [number, number][] = [[0.4, 100], [0.42, 100], [0.45, 50]];
+
+  it('walks the book for the VWAP over the best level', () => {
+    const levels = executionLevels(market('m', 100000, 0.4, { yesBook: book([[0.38, 100]], asks) }), 'YES', 'buy');
+    expect(depthSlippage(levels, 50)).toBe(0);
+    // 100 @ 0.40 + 100 @ 0.42 → VWAP 0.41
+    expect(depthSlippage(levels, 200)).toBeCloseTo(0.01, 12);
+    // Past the book's 250 shares, the rest fills at the last level
+    expect(depthSlippage(levels, 300)).toBeCloseTo((40 + 42 + 0.45 * 100) / 300 - 0.4, 12);
+    expect(depthSlippage([], 100)).toBe(0);
+  });
+
+  it('mirrors the opposite book when the side has no levels of its own', () => {
+    const m = market('m', 100000, 0.4, { yesBook: null, noBook: book([[0.6, 80]], [[0.62, 40]]) });
+    // Buying YES fills against NO bids at 1 − 0.60; selling YES against NO asks at 1 − 0.62
+    expect(executionLevels(m, 'YES', 'buy')).toEqual([{ price: 0.4, size: 80 }]);
+    expect(executionLevels(m, 'YES', 'sell')[0].price).toBeCloseTo(0.38, 12);
+    expect(executionLevels(m, 'NO', 'buy')).toEqual([{ price: 0.62, size: 40 }]);
+  });
+});
+
+describe('entry, exit and settlement costs', () => {
+  const long = leg(100000, { quantity: 10, entryPrice: 0.4, entrySlippage: 0.01, exitSlippage: 0.02 });
+  const short = leg(110000, { quantity: -5, entryPrice: 0.2, entrySlippage: 0.03 });
+
+  it('sums fees, fixed costs and slippage over the legs that trade', () => {
+    const costs = entryCosts([long, short, leg(120000, { quantity: 0 })], model);
+    expect(costs.fees).toBeCloseTo(10 * 0.02 * 0.4 + 5 * 0.02 * 0.2, 12);
+    expect(costs.fixed).toBeCloseTo(0.5, 12);
+    expect(costs.slippage).toBeCloseTo(10 * 0.01 + 5 * 0.03, 12);
+    expect(costTotal(costs)).toBeCloseTo(0.1 + 0.5 + 0.25, 12);
+    expect(entryCosts([long], { ...model, slippage: false }).slippage).toBe(0);
+  });
+
+  it('charges exits only when the model says so', () => {
+    expect(exitCost(long, 0.7, model)).toBeCloseTo(10 * 0.02 * 0.3 + 10 * 0.02 + 0.25, 12);
+    expect(exitCost(long, 0.7, { ...model, onExit: false })).toBe(0);
+  });
+
+  it('charges a redemption only on a long leg that pays out', () => {
+    expect(settlementCost(long, 1, model)).toBe(0.25);
+    expect(settlementCost(long, 0, model)).toBe(0);
+    expect(settlementCost(short, 1, model)).toBe(0);
+  });
+
+  it('treats the zero model as no costs', () => {
+    expect(hasCosts(NO_COSTS)).toBe(false);
+    expect(hasCosts({ ...NO_COSTS, slippage: true })).toBe(true);
+    expect(costTotal(entryCosts([long, short], NO_COSTS))).toBe(0);
+  });
+});
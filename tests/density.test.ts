@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { densityOnGrid, findBreakEvens, impliedDistribution, impliedOdds, monotoneDecreasing } from '../src/pricing/density';
+import { SPOT, leg, market } from './fixtures';
+
+const ladder = (prices: [number, number][]) => prices.map(([k, p]) => market(String(k), k, p));
+const expectProbabilities = (actual: number[], expected: number[]) => {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((p, i) => expect(p).toBeCloseTo(expected[i], 12));
+};
+
+describe('monotoneDecreasing', () => {
+  it('pools prices quoted out of order', () => {
+    const fitted = monotoneDecreasing([0.8, 0.5, 0.6, 0.2]);
+    expect(fitted[0]).toBe(0.8);
+    expect(fitted[1]).toBeCloseTo(0.55, 12);
+    expect(fitted[2]).toBeCloseTo(0.55, 12);
+    expect(fitted[3]).toBe(0.2);
+  });
+});
+
+describe('impliedDistribution', () => {
+  it('turns an "above" ladder into terminal buckets', () => {
+    const dist = impliedDistribution(ladder([[105000, 0.2], [95000, 0.8], [100000, 0.5]]), SPOT, 'above')!;
+    expect(dist.upBuckets.map((b) => [b.from, b.to])).toEqual([[null, 95000], [95000, 100000], [100000, 105000], [105000, null]]);
+    expectProbabilities(dist.upBuckets.map((b) => b.probability), [0.2, 0.3, 0.3, 0.2]);
+    expect(dist.downBuckets).toEqual([]);
+  });
+
+  it('splits a "hit" ladder into how far spot reaches on each side', () => {
+    const dist = impliedDistribution(ladder([[90000, 0.15], [95000, 0.4], [105000, 0.3], [110000, 0.1]]), SPOT, 'hit')!;
+    expectProbabilities(dist.upBuckets.map((b) => b.probability), [0.7, 0.2, 0.1]);
+    expect(dist.downBuckets.map((b) => [b.from, b.to])).toEqual([[95000, SPOT], [90000, 95000], [null, 90000]]);
+    expect(dist.downBuckets.reduce((s, b) => s + b.probability, 0)).toBeCloseTo(1, 12);
+  });
+});
+
+describe('impliedOdds', () => {
+  it('prices a leg bought at the market at zero expected P&L', () => {
+    const dist = impliedDistribution(ladder([[95000, 0.8], [100000, 0.5], [105000, 0.2]]), SPOT, 'above')!;
+    const atMarket = impliedOdds(dist, [leg(100000, { quantity: 10, entryPrice: 0.5 })], null, SPOT, []);
+    expect(atMarket.expectedPnl).toBeCloseTo(0, 12);
+    const cheap = impliedOdds(dist, [leg(100000, { quantity: 10, entryPrice: 0.4 })], null, SPOT, []);
+    expect(cheap.expectedPnl).toBeCloseTo(1, 12);
+    expect(cheap.probProfit).toBeCloseTo(0.5, 12);
+  });
+
+  it('settles hit legs on the reach of their own side', () => {
+    const dist = impliedDistribution(ladder([[90000, 0.15], [95000, 0.4], [105000, 0.3], [110000, 0.1]]), SPOT, 'hit')!;
+    const strikes = [leg(105000, { quantity: 10, entryPrice: 0.3 }), leg(95000, { quantity: 10, entryPrice: 0.4, isUpBarrier: false })];
+    const odds = impliedOdds(dist, strikes, null, SPOT, []);
+    expect(odds.expectedPnl).toBeCloseTo(0, 12);
+    // Profit needs either barrier touched: 1 − 0.7 × 0.6
+    expect(odds.probProfit).toBeCloseTo(1 - 0.7 * 0.6, 12);
+  });
+
+  it('takes break-evens from the expiry curve', () => {
+    const curve = [{ cryptoPrice: 90000, pnl: -2 }, { cryptoPrice: 100000, pnl: 2 }, { cryptoPrice: 110000, pnl: -6 }];
+    expect(findBreakEvens(curve)).toEqual([95000, 102500]);
+  });
+});
+
+describe('densityOnGrid', () => {
+  it('spreads each bucket evenly over its width', () => {
+    const dist = impliedDistribution(ladder([[95000, 0.8], [100000, 0.5], [105000, 0.2]]), SPOT, 'above')!;
+    const grid = Array.from({ length: 301 }, (_, i) => 85000 + i * 100);
+    const density = densityOnGrid(dist, grid);
+    expect(density.find((p) => p.cryptoPrice === 97000)!.density).toBeCloseTo(0.3 / 5000, 15);
+    // The open tails are drawn as wide as a typical bucket
+    expect(density.find((p) => p.cryptoPrice === 91000)!.density).toBeCloseTo(0.2 / 5000, 15);
+    expect(density.find((p) => p.cryptoPrice === 86000)!.density).toBe(0);
+    const mass = density.reduce((s, p) => s + p.density * 100, 0);
+    expect(mass).toBeCloseTo(1, 2);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { normalCDF, priceAbove, projectedIv, solveImpliedVol, type SmileModel, type SmilePoint } from '../src/pricing/engine';
+
+describe('normalCDF', () => {
+  it('matches Φ at reference points', () => {
+    expect(normalCDF(0)).toBeCloseTo(0.5, 7);
+    expect(normalCDF(1)).toBeCloseTo(0.8413, 4);
+    expect(normalCDF(-1)).toBeCloseTo(0.1587, 4);
+    expect(normalCDF(1.959964)).toBeCloseTo(0.975, 4);
+  });
+
+  it('is symmetric and saturates past ±8', () => {
+    for (const x of [0.3, 1.5, 2.7, 4]) expect(normalCDF(x) + normalCDF(-x)).toBeCloseTo(1, 7);
+    expect(normalCDF(9)).toBe(1);
+    expect(normalCDF(-9)).toBe(0);
+  });
+});
+
+describe('projectedIv under each smile dynamics', () => {
+  const smile: SmilePoint[] = [{ moneyness: -0.1, iv: 0.7 }, { moneyness: 0, iv: 0.5 }, { moneyness: 0.1, iv: 0.45 }];
+  const strike = { strikePrice: 100000, impliedVol: 0.55 };
+  const H = 0.6;
+  const tau0 = 7 / 365.25;
+  const tauHalf = Math.pow(Math.pow(tau0, H) / 2, 1 / H); // τ at which τ^H has halved
+  const model = (dynamics: SmileModel['dynamics'], volShift = 0): SmileModel => ({ dynamics, volShift, calibrationTauH: Math.pow(tau0, H) });
+  const spotAt = (m: number) => 100000 * Math.exp(m);
+
+  it('sticky-strike keeps the strike\'s own IV wherever spot goes', () => {
+    for (const S of [spotAt(-0.1), spotAt(0), spotAt(0.1)]) {
+      expect(projectedIv(strike, S, tauHalf, H, smile, model('sticky-strike'))).toBe(0.55);
+    }
+  });
+
+  it('sticky-moneyness reads the smile at ln(S/K), whatever τ', () => {
+    expect(projectedIv(strike, spotAt(0), tau0, H, smile, model('sticky-moneyness'))).toBeCloseTo(0.5, 12);
+    expect(projectedIv(strike, spotAt(0.05), tau0, H, smile, model('sticky-moneyness'))).toBeCloseTo(0.475, 12);
+    expect(projectedIv(strike, spotAt(0.05), tauHalf, H, smile, model('sticky-moneyness'))).toBeCloseTo(0.475, 12);
+  });
+
+  it('sticky-delta matches sticky-moneyness at the calibration τ and moves out along the smile as τ^H shrinks', () => {
+    expect(projectedIv(strike, spotAt(0.05), tau0, H, smile, model('sticky-delta'))).toBeCloseTo(0.475, 12);
+    expect(projectedIv(strike, spotAt(0.05), tauHalf, H, smile, model('sticky-delta'))).toBeCloseTo(0.45, 12);
+    expect(projectedIv(strike, spotAt(-0.05), tauHalf, H, smile, model('sticky-delta'))).toBeCloseTo(0.7, 12);
+    // At expiry an off-the-money strike sits at the far edge of the smile
+    expect(projectedIv(strike, spotAt(-0.01), 0, H, smile, model('sticky-delta'))).toBe(0.7);
+    expect(projectedIv(strike, spotAt(0), 0, H, smile, model('sticky-delta'))).toBe(0.5);
+  });
+
+  it('adds the vol shift under every dynamics and floors the result', () => {
+    for (const dynamics of ['sticky-strike', 'sticky-moneyness', 'sticky-delta'] as const) {
+      const base = projectedIv(strike, spotAt(0.05), tauHalf, H, smile, model(dynamics));
+      expect(projectedIv(strike, spotAt(0.05), tauHalf, H, smile, model(dynamics, 0.1))).toBeCloseTo(base + 0.1, 12);
+      expect(projectedIv(strike, spotAt(0.05), tauHalf, H, smile, model(dynamics, -1))).toBe(1e-4);
+    }
+  });
+
+  it('falls back to the strike\'s own IV without a smile', () => {
+    expect(projectedIv(strike, spotAt(0.05), tauHalf, H, [], model('sticky-delta'))).toBe(0.55);
+    expect(projectedIv(strike, spotAt(0.05), tauHalf, H, undefined, model('sticky-moneyness'))).toBe(0.55);
+  });
+});
+
+describe('solveImpliedVol', () => {
+  const tau = 7 / 365.25;
+
+  it('returns the lower root of an out-of-the-money "above" quote', () => {
+    for (const K of [101000, 102000, 106000]) {
+      const price = priceAbove(100000, K, 0.5, tau, 0.6);
+      expect(solveImpliedVol(100000, K, tau, price, 'above', true, 0.6)).toBeCloseTo(0.5, 4);
+    }
+  });
+
+  it('gives the peak σ for a quote above what any σ can reach', () => {
+    const peak = Math.sqrt(2 * Math.log(1.02)) / Math.pow(tau, 0.6);
+    const sigma = solveImpliedVol(100000, 102000, tau, 0.45, 'above', true, 0.6)!;
+    expect(Math.abs(sigma - peak)).toBeLessThan(0.05);
+  });
+});
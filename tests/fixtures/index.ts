@@ -0,0 +1,60 @@
+import { readFileSync } from 'node:fs';
+import type { OrderBookQuote, ParsedMarket, SelectedStrike } from '../../src/types';
+
+/** Spot the factories below assume when they pick a barrier direction */
+export const SPOT = 100000;
+
+/** A recorded JSON fixture from this directory */
+export function readFixture<T>(name: string): T {
+  return JSON.parse(readFileSync(new URL(`./${name}`, import.meta.url), 'utf8')) as T;
+}
+
+/** A token's CLOB book from [price, size] levels, best first */
+export function book(bids: [number, number][], asks: [number, number][]): OrderBookQuote {
+  const levels = (side: [number, number][]) => side.map(([price, size]) => ({ price, size }));
+  return {
+    bids: levels(bids),
+    asks: levels(asks),
+    bestBid: bids[0]?.[0] ?? null,
+    bestAsk: asks[0]?.[0] ?? null,
+    mid: bids.length > 0 && asks.length > 0 ? (bids[0][0] + asks[0][0]) / 2 : null,
+    bidDepth: bids.reduce((sum, [, size]) => sum + size, 0),
+    askDepth: asks.reduce((sum, [, size]) => sum + size, 0),
+  };
+}
+
+/** A strike market of a BTC ladder; no books unless given */
+export function market(id: string, strikePrice: number, currentPrice: number, overrides: Partial<ParsedMarket> = {}): ParsedMarket {
+  return {
+    id,
+    question: `Bitcoin above ${strikePrice.toLocaleString('en-US')}?`,
+    groupItemTitle: strikePrice.toLocaleString('en-US'),
+    groupItemThreshold: 0,
+    endDate: 0,
+    startDate: 0,
+    yesTokenId: `${id}-yes`,
+    noTokenId: `${id}-no`,
+    currentPrice,
+    strikePrice,
+    yesBook: null,
+    noBook: null,
+    ...overrides,
+  };
+}
+
+/** One long YES share bought for nothing, at a flat 50% IV, unless overridden */
+export function leg(strikePrice: number, overrides: Partial<SelectedStrike> = {}): SelectedStrike {
+  return {
+    marketId: String(strikePrice),
+    question: `Strike ${strikePrice}`,
+    groupItemTitle: String(strikePrice),
+    strikePrice,
+    side: 'YES',
+    quantity: 1,
+    entryPrice: 0,
+    exitDiscount: 0,
+    impliedVol: 0.5,
+    isUpBarrier: strikePrice > SPOT,
+    ...overrides,
+  };
+}
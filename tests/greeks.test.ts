@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import type { HedgeLeg } from '../src/types';
+import { priceAbove } from '../src/pricing/engine';
+import { computeGreeks, computeGreeksCurve } from '../src/pricing/greeks';
+import { SPOT, leg } from './fixtures';
+
+const TAU = 7 / 365.25;
+const H = 0.6;
+const DAY = 1 / 365.25;
+
+describe('computeGreeks', () => {
+  const strikes = [leg(102000, { quantity: 10 })];
+
+  it('matches the closed-form delta of a digital above', () => {
+    const { value, delta } = computeGreeks(strikes, SPOT, TAU, 'above', H);
+    const v = 0.5 * Math.pow(TAU, H);
+    const d2 = (Math.log(SPOT / 102000) - (v * v) / 2) / v;
+    const density = Math.exp(-d2 * d2 / 2) / Math.sqrt(2 * Math.PI);
+    expect(value).toBeCloseTo(10 * priceAbove(SPOT, 102000, 0.5, TAU, H), 10);
+    expect(delta / (10 * density / (SPOT * v))).toBeCloseTo(1, 3);
+  });
+
+  it('bumps vol by one point and time by one day', () => {
+    const { value, vega, thetaPerDay } = computeGreeks(strikes, SPOT, TAU, 'above', H);
+    const at = (sigma: number, tau: number) => 10 * priceAbove(SPOT, 102000, sigma, tau, H);
+    expect(vega).toBeCloseTo((at(0.51, TAU) - at(0.49, TAU)) / 2, 10);
+    expect(thetaPerDay).toBeCloseTo(at(0.5, TAU - DAY) - value, 10);
+    // Out of the money: more vol or more time is worth more
+    expect(vega).toBeGreaterThan(0);
+    expect(thetaPerDay).toBeLessThan(0);
+  });
+
+  it('nets YES against NO on the same strike to a riskless dollar', () => {
+    const greeks = computeGreeks([leg(102000, { quantity: 5 }), leg(102000, { quantity: 5, side: 'NO' })], SPOT, TAU, 'above', H);
+    expect(greeks.value).toBeCloseTo(5, 10);
+    for (const g of [greeks.delta, greeks.gamma, greeks.thetaPerDay, greeks.vega]) expect(Math.abs(g)).toBeLessThan(1e-9);
+  });
+
+  it('adds the hedge size to delta and its funding to theta', () => {
+    const hedge: HedgeLeg = { size: -0.001, entryPrice: SPOT, fundingRate: 0.1, openTau: TAU };
+    const bare = computeGreeks(strikes, SPOT, TAU, 'above', H);
+    const hedged = computeGreeks(strikes, SPOT, TAU, 'above', H, undefined, hedge);
+    expect(hedged.delta - bare.delta).toBeCloseTo(-0.001, 8);
+    // A short receives funding: one day of 10% a year on $100
+    expect(hedged.thetaPerDay - bare.thetaPerDay).toBeCloseTo(100 * 0.1 * DAY, 8);
+    expect(hedged.vega).toBeCloseTo(bare.vega, 12);
+  });
+});
+
+describe('computeGreeksCurve', () => {
+  it('peaks delta near the strike of a digital', () => {
+    const curve = computeGreeksCurve([leg(102000, { quantity: 10 })], 90000, 114000, TAU, 'above', H, undefined, null, 49);
+    expect(curve).toHaveLength(49);
+    const peak = curve.reduce((best, p) => (p.delta > best.delta ? p : best));
+    expect(Math.abs(peak.cryptoPrice - 102000)).toBeLessThanOrEqual(1500);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_HORIZONS, curveStyles, horizonTs, parseHorizon, resolveHorizons } from '../src/pricing/horizons';
+
+const NOW = 1760000000;
+const EXPIRY = NOW + 3 * 86400;
+
+describe('parseHorizon', () => {
+  it.each([
+    ['now', { kind: 'now' }],
+    ['Expiry', { kind: 'expiry' }],
+    ['+6h', { kind: 'offset', hours: 6 }],
+    ['+2d', { kind: 'offset', hours: 48 }],
+    ['+30m', { kind: 'offset', hours: 0.5 }],
+    ['-1h', { kind: 'beforeExpiry', hours: 1 }],
+    ['12h before expiry', { kind: 'beforeExpiry', hours: 12 }],
+    ['1/3', { kind: 'fraction', elapsed: 1 / 3 }],
+    ['50%', { kind: 'fraction', elapsed: 0.5 }],
+    ['2026-10-20 16:00', { kind: 'absolute', ts: Date.UTC(2026, 9, 20, 16) / 1000 }],
+  ])('reads %s', (input, horizon) => {
+    expect(parseHorizon(input)).toEqual(horizon);
+  });
+
+  it.each(['later', '4/3', '150%', '2026-13-01 10:00', '+'])('rejects %s', (input) => {
+    expect(parseHorizon(input)).toBeNull();
+  });
+});
+
+describe('resolveHorizons', () => {
+  it('clamps to [now, expiry] and sorts by time', () => {
+    const resolved = resolveHorizons([{ kind: 'expiry' }, { kind: 'offset', hours: 100 }, { kind: 'beforeExpiry', hours: 24 }, { kind: 'now' }], NOW, EXPIRY);
+    expect(resolved.map((r) => r.ts)).toEqual([NOW, EXPIRY - 86400, EXPIRY, EXPIRY]);
+    expect(resolved[1].tau).toBeCloseTo(1 / 365.25, 12);
+    expect(resolved.map((r) => r.isExpiry)).toEqual([false, false, true, true]);
+    expect(horizonTs({ kind: 'absolute', ts: NOW - 3600 }, NOW, EXPIRY)).toBe(NOW);
+  });
+
+  it('labels with the time left, or UTC times across several expiries', () => {
+    const [now, third] = resolveHorizons(DEFAULT_HORIZONS, NOW, EXPIRY);
+    expect(now.label).toBe('Now (72h to exp)');
+    expect(third.label).toBe('1/3 to expiry (48h left)');
+    const absolute = resolveHorizons([{ kind: 'expiry' }], NOW, EXPIRY, true);
+    expect(absolute[0].label).toBe('Last expiry (Oct 12, 08:53 UTC)');
+  });
+
+  it('makes duplicate labels unique', () => {
+    const labels = resolveHorizons([{ kind: 'expiry' }, { kind: 'offset', hours: 500 }, { kind: 'expiry' }], NOW, EXPIRY).map((r) => r.label);
+    expect(new Set(labels).size).toBe(3);
+  });
+});
+
+describe('curveStyles', () => {
+  it('draws now solid, expiry long-dashed and the rest dashed with rising opacity', () => {
+    const styles = curveStyles(resolveHorizons([...DEFAULT_HORIZONS, { kind: 'fraction', elapsed: 0.9 }], NOW, EXPIRY));
+    expect(styles[0].dashArray).toBe('');
+    expect(styles[styles.length - 1]).toEqual({ width: 2.5, dashArray: '14 6', opacity: 1 });
+    expect(styles[1].opacity).toBeLessThan(styles[2].opacity);
+    expect(styles[2].opacity).toBeLessThan(styles[3].opacity);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import type { OptionType } from '../src/types';
+import { DEFAULT_SMILE_MODEL, autoH, computePnlCurve, priceOptionYes, type SmileModel, type SmilePoint } from '../src/pricing/engine';
+import type { CostModel } from '../src/pricing/costs';
+import { DEFAULT_MC_CONFIG, createRng, crossCheck, runMonteCarlo, type MonteCarloRequest } from '../src/pricing/montecarlo';
+import { SPOT, leg } from './fixtures';
+
+const TAU = 7 / 365.25;
+const IV = 0.5; // The legs' flat IV: with no smile the simulator's local vol is 0.5 too
+
+/** One YES share bought for nothing, marked at expiry: mean P&L = simulated YES probability */
+function request(optionType: OptionType, strike: number, seed = 7, paths = 10000): MonteCarloRequest {
+  return {
+    strikes: [leg(strike, { impliedVol: IV })],
+    hedge: null,
+    spot: SPOT,
+    tau: TAU,
+    optionType,
+    hDelta: 0,
+    smile: [],
+    model: DEFAULT_SMILE_MODEL,
+    costs: null,
+    horizons: [{ label: 'Expiry', tau: 0 }],
+    config: { ...DEFAULT_MC_CONFIG, paths, steps: 100, seed, jumpIntensity: 0, tailDof: null },
+  };
+}
+
+const CASES: [OptionType, number][] = [
+  ['above', 97000],
+  ['above', 104000],
+  ['hit', 106000],
+  ['hit', 95000],
+];
+
+describe('runMonteCarlo vs analytic prices (no jumps, Gaussian shocks)', () => {
+  it.each(CASES)('%s %d: simulated leg value within 3 standard errors', (optionType, strike) => {
+    const { horizons } = runMonteCarlo(request(optionType, strike));
+    const analytic = priceOptionYes(SPOT, strike, IV, TAU, optionType, strike > SPOT, autoH(TAU, 0));
+    expect(Math.abs(horizons[0].mean - analytic)).toBeLessThan(3 * horizons[0].stdErr);
+  });
+
+  it.each(CASES)('%s %d: cross-check row within 3 standard errors', (optionType, strike) => {
+    const [row] = crossCheck(request(optionType, strike));
+    expect(Math.abs(row.simulated - row.analytic)).toBeLessThan(3 * row.stdErr);
+  });
+});
+
+describe('determinism', () => {
+  it('repeats the uniform stream for a seed', () => {
+    const a = createRng(123);
+    const b = createRng(123);
+    const first = Array.from({ length: 5 }, a);
+    expect(Array.from({ length: 5 }, b)).toEqual(first);
+    expect(Array.from({ length: 5 }, createRng(124))).not.toEqual(first);
+  });
+
+  it('gives the same paths, and so the same distributions, for the same seed', () => {
+    const run = (seed: number) => {
+      const req = request('hit', 106000, seed, 2000);
+      req.horizons = [{ label: 'Half-way', tau: TAU / 2 }, { label: 'Expiry', tau: 0 }];
+      const { horizons, crossCheck: rows } = runMonteCarlo(req);
+      return { horizons, rows };
+    };
+    const first = run(99);
+    expect(run(99)).toEqual(first);
+    expect(run(100).horizons[0].mean).not.toBe(first.horizons[0].mean);
+  });
+});
+
+describe('marks like the curves', () => {
+  const smile: SmilePoint[] = [{ moneyness: -0.1, iv: 0.7 }, { moneyness: 0, iv: 0.5 }, { moneyness: 0.1, iv: 0.45 }];
+  const H = autoH(TAU, 0);
+  const costs: CostModel = { feeBps: 100, fixedCost: 0.5, slippage: false, onExit: true };
+  const strikes = [leg(104000, { quantity: 10, entryPrice: 0.3, exitDiscount: 0.01 })];
+  const model = (volShift: number): SmileModel => ({ dynamics: 'sticky-delta', volShift, calibrationTauH: Math.pow(TAU, H) });
+
+  function simulate(volShift: number, horizonTau: number): number {
+    const req: MonteCarloRequest = {
+      ...request('above', 104000, 11, 4000),
+      strikes,
+      smile,
+      model: model(volShift),
+      costs,
+      horizons: [{ label: 'h', tau: horizonTau }],
+    };
+    return runMonteCarlo(req).horizons[0].mean;
+  }
+
+  function curveAtSpot(volShift: number): number {
+    return computePnlCurve(strikes, SPOT, SPOT, TAU, 'above', H, smile, null, 2, model(volShift), costs)[0].pnl;
+  }
+
+  it('matches computePnlCurve at spot now, with the vol shift and costs applied', () => {
+    for (const volShift of [0, 0.1]) expect(simulate(volShift, TAU)).toBeCloseTo(curveAtSpot(volShift), 10);
+    expect(curveAtSpot(0.1)).toBeGreaterThan(curveAtSpot(0));
+  });
+
+  it('moves EV with the vol shift in the same direction as the curve', () => {
+    const curveMove = curveAtSpot(0.1) - curveAtSpot(0);
+    const mcMove = simulate(0.1, TAU / 2) - simulate(0, TAU / 2);
+    expect(Math.sign(mcMove)).toBe(Math.sign(curveMove));
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { optimizePayoff, type CandidateLeg, type OptimizedLeg, type TargetZone } from '../src/pricing/optimizer';
+
+const SPOT = 100000;
+const STRIKES = [90000, 95000, 100000, 105000, 110000];
+// Above-ladder asks that do not land on round share counts
+const YES_ASK = [0.87, 0.71, 0.53, 0.33, 0.17];
+
+const candidates: CandidateLeg[] = STRIKES.flatMap((strikePrice, i) => [
+  { marketId: String(strikePrice), label: String(strikePrice), strikePrice, side: 'YES' as const, ask: YES_ASK[i] },
+  { marketId: String(strikePrice), label: String(strikePrice), strikePrice, side: 'NO' as const, ask: 1.03 - YES_ASK[i] },
+]);
+
+/** Settlement value of the legs if spot ends at S ("above" event) */
+function settle(legs: OptimizedLeg[], S: number): number {
+  return legs.reduce((sum, l) => sum + l.shares * ((S >= l.strikePrice) === (l.side === 'YES') ? 1 : 0), 0);
+}
+
+describe('optimizePayoff ("above")', () => {
+  const zones: TargetZone[] = [
+    { lower: 93000, upper: 107000, payout: 1.37 },
+    { lower: 112000, upper: Infinity, payout: 2.71 },
+  ];
+
+  it.each([false, true])('meets every zone at every price with wholeShares = %s', (wholeShares) => {
+    const result = optimizePayoff(candidates, zones, SPOT, 'above', wholeShares);
+    expect(result).not.toBeNull();
+    for (const zone of zones) {
+      for (let S = zone.lower; S <= Math.min(zone.upper, 150000); S += 500) {
+        expect(settle(result!.legs, S)).toBeGreaterThanOrEqual(zone.payout);
+      }
+    }
+    if (wholeShares) expect(result!.legs.every((l) => Number.isInteger(l.shares))).toBe(true);
+  });
+
+  it('buys the single cheapest covering leg for a one-strike zone', () => {
+    const result = optimizePayoff(candidates, [{ lower: 111000, upper: Infinity, payout: 1 }], SPOT, 'above');
+    expect(result?.legs).toEqual([expect.objectContaining({ marketId: '110000', side: 'YES', shares: 1 })]);
+    expect(result?.cost).toBeCloseTo(0.17);
+  });
+
+  it('reports a zone no leg pays in', () => {
+    // Below the lowest strike only NO legs pay, so asking for a payout there and no legs is infeasible
+    expect(optimizePayoff([candidates[0]], [{ lower: 0, upper: 85000, payout: 1 }], SPOT, 'above')).toBeNull();
+  });
+});
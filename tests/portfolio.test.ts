@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { HedgeLeg } from '../src/types';
+import { autoH, computeExpiryPnl, computePnlCurve, hedgePnl, type SmilePoint } from '../src/pricing/engine';
+import { computeGreeks } from '../src/pricing/greeks';
+import { bookTau, computePortfolioGreeks, computePortfolioPnlCurve, portfolioExpiry, type EventBook } from '../src/pricing/portfolio';
+import { SPOT, leg } from './fixtures';
+
+const NOW = 1760000000;
+const DAY = 86400;
+const YEAR = 365.25 * DAY;
+const smile: SmilePoint[] = [{ moneyness: -0.1, iv: 0.7 }, { moneyness: 0, iv: 0.5 }, { moneyness: 0.1, iv: 0.45 }];
+
+// A weekly "above" ladder with a smile, and a monthly "hit" ladder without one
+const weekly: EventBook = { label: 'weekly', strikes: [leg(102000, { quantity: 10, entryPrice: 0.3 })], optionType: 'above', expiryTs: NOW + 2 * DAY, smile };
+const monthly: EventBook = { label: 'monthly', strikes: [leg(110000, { quantity: 5, entryPrice: 0.25 })], optionType: 'hit', expiryTs: NOW + 30 * DAY };
+
+describe('computePortfolioPnlCurve', () => {
+  it('prices each book on its own τ, autoH tier and smile, and sums them', () => {
+    const [point] = computePortfolioPnlCurve([weekly, monthly], SPOT, SPOT, NOW, 0, null, undefined, 2);
+    const weeklyTau = 2 * DAY / YEAR;
+    const monthlyTau = 30 * DAY / YEAR;
+    const expected =
+      computePnlCurve(weekly.strikes, SPOT, SPOT, weeklyTau, 'above', autoH(weeklyTau), smile, null, 2)[0].pnl +
+      computePnlCurve(monthly.strikes, SPOT, SPOT, monthlyTau, 'hit', autoH(monthlyTau), undefined, null, 2)[0].pnl;
+    expect(autoH(weeklyTau)).not.toBe(autoH(monthlyTau));
+    expect(point.pnl).toBeCloseTo(expected, 12);
+  });
+
+  it('settles a book once its expiry has passed', () => {
+    const ts = NOW + 10 * DAY;
+    expect(bookTau(weekly, ts)).toBe(0);
+    const curve = computePortfolioPnlCurve([weekly, monthly], 95000, 105000, ts, 0, null, undefined, 3);
+    const settled = computeExpiryPnl(weekly.strikes, 95000, 105000, 'above', null, 3);
+    const running = computePnlCurve(monthly.strikes, 95000, 105000, bookTau(monthly, ts), 'hit', autoH(bookTau(monthly, ts)), undefined, null, 3);
+    curve.forEach((p, i) => expect(p.pnl).toBeCloseTo(settled[i].pnl + running[i].pnl, 12));
+    expect(portfolioExpiry([weekly, monthly])).toBe(monthly.expiryTs);
+  });
+
+  it('runs the hedge on the primary book\'s clock, past its expiry', () => {
+    const hedge: HedgeLeg = { size: -0.001, entryPrice: SPOT, fundingRate: 0.1, openTau: 2 * DAY / YEAR };
+    const ts = NOW + 10 * DAY;
+    const [bare] = computePortfolioPnlCurve([weekly, monthly], SPOT, SPOT, ts, 0, null, undefined, 2);
+    const [hedged] = computePortfolioPnlCurve([weekly, monthly], SPOT, SPOT, ts, 0, hedge, undefined, 2);
+    // Ten days of funding on the primary clock: τ is −8 days by then
+    expect(hedged.pnl - bare.pnl).toBeCloseTo(hedgePnl(hedge, SPOT, -8 * DAY / YEAR), 12);
+    expect(hedged.pnl - bare.pnl).toBeCloseTo(100 * 0.1 * 10 * DAY / YEAR, 12);
+  });
+});
+
+describe('computePortfolioGreeks', () => {
+  it('sums each book\'s Greeks on its own clock', () => {
+    const greeks = computePortfolioGreeks([weekly, monthly], SPOT, NOW);
+    const weeklyTau = bookTau(weekly, NOW);
+    const monthlyTau = bookTau(monthly, NOW);
+    const a = computeGreeks(weekly.strikes, SPOT, weeklyTau, 'above', autoH(weeklyTau), smile);
+    const b = computeGreeks(monthly.strikes, SPOT, monthlyTau, 'hit', autoH(monthlyTau));
+    expect(greeks.delta).toBeCloseTo(a.delta + b.delta, 12);
+    expect(greeks.vega).toBeCloseTo(a.vega + b.vega, 12);
+    expect(greeks.value).toBeCloseTo(a.value + b.value, 12);
+  });
+});
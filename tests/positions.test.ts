@@ -0,0 +1,75 @@
+import axios from 'axios';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { ParsedMarket } from '../src/types';
+import { importWalletPositions } from '../src/api/positions';
+import { market, readFixture } from './fixtures';
+import { startWorkerStub, type WorkerStub } from './workerStub';
+
+interface PositionsFixture {
+  event: { markets: Pick<ParsedMarket, 'id' | 'groupItemTitle' | 'strikePrice' | 'yesTokenId' | 'noTokenId'>[] };
+  wallets: Record<string, { pageSize: number; pages: unknown[][] }>;
+}
+
+const fixture = readFixture<PositionsFixture>('positions.json');
+const [SINGLE_PAGE, PAGINATED] = Object.keys(fixture.wallets);
+
+const markets: ParsedMarket[] = fixture.event.markets.map((m) =>
+  market(m.id, m.strikePrice, 0.5, { groupItemTitle: m.groupItemTitle, yesTokenId: m.yesTokenId, noTokenId: m.noTokenId })
+);
+
+let stub: WorkerStub;
+
+beforeAll(async () => {
+  // Replays the recorded pages by offset / limit, as the data API paginates
+  stub = await startWorkerStub({
+    '/api/data/positions': (url) => {
+      const wallet = fixture.wallets[url.searchParams.get('user') ?? ''];
+      if (!wallet) return [];
+      const limit = Number(url.searchParams.get('limit'));
+      if (limit !== wallet.pageSize) return null;
+      return wallet.pages[Number(url.searchParams.get('offset')) / limit] ?? [];
+    },
+  });
+  axios.defaults.baseURL = stub.url;
+});
+
+afterAll(async () => {
+  axios.defaults.baseURL = undefined;
+  await stub.close();
+});
+
+describe('importWalletPositions', () => {
+  it('maps tokens onto YES/NO of the event markets with size and average price', async () => {
+    const held = await importWalletPositions(SINGLE_PAGE, markets);
+    expect(held).toEqual([
+      { id: `wallet-${markets[0].yesTokenId}`, marketId: '566117', side: 'YES', quantity: 120.5, avgPrice: 0.4213 },
+      { id: `wallet-${markets[1].noTokenId}`, marketId: '566118', side: 'NO', quantity: 40, avgPrice: 0.7125 },
+    ]);
+  });
+
+  it('drops positions in other markets and dust', async () => {
+    const held = await importWalletPositions(SINGLE_PAGE, markets);
+    const eventTokens = new Set(markets.flatMap((m) => [m.yesTokenId, m.noTokenId]));
+    expect(held.every((p) => eventTokens.has(p.id.replace('wallet-', '')))).toBe(true);
+    expect(held.some((p) => p.quantity < 0.01)).toBe(false);
+  });
+
+  it('follows pagination until a short page', async () => {
+    const before = stub.requests.length;
+    const held = await importWalletPositions(PAGINATED, markets, 2);
+    const offsets = stub.requests.slice(before).map((url) => url.searchParams.get('offset'));
+    expect(offsets).toEqual(['0', '2', '4']);
+    expect(held.map((p) => [p.marketId, p.side, p.quantity, p.avgPrice])).toEqual([
+      ['566117', 'YES', 25, 0.38],
+      ['566117', 'NO', 10, 0.6],
+      ['566118', 'YES', 75.25, 0.2764],
+      ['566118', 'NO', 5, 0.73],
+    ]);
+  });
+
+  it('rejects malformed addresses before calling the API', async () => {
+    const before = stub.requests.length;
+    await expect(importWalletPositions('0x1234', markets)).rejects.toThrow(/proxy-wallet address/);
+    expect(stub.requests.length).toBe(before);
+  });
+});
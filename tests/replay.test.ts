@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { marketsAsOf, pricesAt, type ReplayFrame } from '../src/pricing/replay';
+import { market } from './fixtures';
+
+// The 105k strike was listed at t = 200, after the frame below
+const markets = [market('a', 100000, 0.9), market('b', 105000, 0.6)];
+const histories = {
+  a: [{ t: 100, p: 0.55 }, { t: 300, p: 0.7 }],
+  b: [{ t: 200, p: 0.3 }],
+};
+
+describe('replay frames never use live prices', () => {
+  it('leaves out markets without history at the frame time', () => {
+    expect(pricesAt(markets, histories, 150)).toEqual({ a: 0.55 });
+    expect(pricesAt(markets, histories, 250)).toEqual({ a: 0.55, b: 0.3 });
+  });
+
+  it('drops unpriced markets from the frame instead of keeping the live price', () => {
+    const frame: ReplayFrame = { ts: 150, spot: 98000, tau: 0.01, H: 0.5, prices: pricesAt(markets, histories, 150), smile: [], atmIv: null };
+    expect(marketsAsOf(markets, frame).map((m) => [m.id, m.currentPrice])).toEqual([['a', 0.55]]);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { Scenario } from '../src/types';
+import type { CostModel } from '../src/pricing/costs';
+import type { EventBook } from '../src/pricing/portfolio';
+import { computePortfolioPnlCurve } from '../src/pricing/portfolio';
+import { describeScenario, evaluateScenario } from '../src/pricing/scenarios';
+import { SPOT, leg } from './fixtures';
+
+const NOW = 1760000000;
+const EXPIRY = NOW + 7 * 86400;
+const costs: CostModel = { feeBps: 100, fixedCost: 0.5, slippage: false, onExit: true };
+
+const scenario = (overrides: Partial<Scenario>): Scenario => ({ id: 's', name: 's', spotShock: 0, ivShock: 0, hoursLater: 0, ...overrides });
+const hitBook: EventBook = { label: 'Oct 20', strikes: [leg(105000, { quantity: 10, entryPrice: 0.4 })], optionType: 'hit', expiryTs: EXPIRY };
+const aboveBook: EventBook = { label: 'Oct 20', strikes: [leg(104000, { quantity: 10, entryPrice: 0.3 })], optionType: 'above', expiryTs: EXPIRY };
+
+describe('evaluateScenario', () => {
+  it('counts a gap through a barrier as a touch', () => {
+    const result = evaluateScenario([hitBook], null, scenario({ spotShock: 0.08 }), SPOT, NOW);
+    expect(result.spot).toBeCloseTo(108000, 6);
+    expect(result.pnl).toBeCloseTo(10 * (1 - 0.4), 10);
+  });
+
+  it('scales every IV by the shock', () => {
+    const calm = evaluateScenario([aboveBook], null, scenario({}), SPOT, NOW).pnl;
+    const stressed = evaluateScenario([aboveBook], null, scenario({ ivShock: 0.5 }), SPOT, NOW).pnl;
+    const repriced = { ...aboveBook, strikes: [{ ...aboveBook.strikes[0], impliedVol: 0.75 }] };
+    expect(stressed).toBeCloseTo(computePortfolioPnlCurve([repriced], SPOT, SPOT, NOW, 0, null, undefined, 2)[0].pnl, 10);
+    // An OTM digital gains from more vol
+    expect(stressed).toBeGreaterThan(calm);
+  });
+
+  it('settles a book the time jump carries past expiry', () => {
+    const result = evaluateScenario([aboveBook], null, scenario({ spotShock: 0.05, hoursLater: 24 * 8 }), SPOT, NOW);
+    expect(result.ts).toBe(EXPIRY);
+    expect(result.tau).toBe(0);
+    expect(result.pnl).toBeCloseTo(10 * (1 - 0.3), 10);
+  });
+
+  it('is net of the cost model when one is given', () => {
+    const shock = scenario({ spotShock: 0.05, hoursLater: 24 * 8 });
+    const net = evaluateScenario([aboveBook], null, shock, SPOT, NOW, 0, undefined, costs).pnl;
+    // Entry: 10 × 1% × 0.3 in fees plus the fixed cost; redeeming the winning leg pays it again
+    expect(net).toBeCloseTo(10 * (1 - 0.3) - 0.53 - 0.5, 10);
+  });
+});
+
+describe('describeScenario', () => {
+  it('lists only the shocks that are set', () => {
+    expect(describeScenario(scenario({ spotShock: -0.08 }))).toBe('spot −8%');
+    expect(describeScenario(scenario({ spotShock: -0.08, ivShock: 0.3, hoursLater: 12 }))).toBe('spot −8% · IV +30% · +12h');
+  });
+});
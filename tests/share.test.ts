@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { ChartState } from '../src/types';
+import { decodeChartState, encodeChartState } from '../src/api/share';
+
+const state: ChartState = {
+  slugs: ['bitcoin-above-on-october-20', 'bitcoin-hit-in-october'],
+  selections: ['101-YES', '102-NO', '103-YES'],
+  legSizes: { '101-YES': { mode: 'shares', value: 5 }, '102-NO': { mode: 'usd', value: -25.5 } },
+  linkedLegs: { '201-YES': 4, '202-NO': -2 },
+  entryPrices: { '101-YES': 0.42 },
+  priceRange: [90000, 120000],
+  hDelta: 0.05,
+  horizons: [
+    { kind: 'now' },
+    { kind: 'fraction', elapsed: 1 / 3 },
+    { kind: 'offset', hours: 6 },
+    { kind: 'beforeExpiry', hours: 1 },
+    { kind: 'absolute', ts: 1760976000 },
+    { kind: 'expiry' },
+  ],
+  smileDynamics: 'sticky-delta',
+  volShift: -0.03,
+};
+
+describe('chart links', () => {
+  it('round-trip every field', () => {
+    const hash = encodeChartState(state);
+    expect(hash.startsWith('#/chart?v=1&e=bitcoin-above-on-october-20&e=bitcoin-hit-in-october')).toBe(true);
+    expect(decodeChartState(hash)).toEqual(state);
+  });
+
+  it('leave defaults out of the link', () => {
+    const hash = encodeChartState({ ...state, legSizes: {}, linkedLegs: {}, entryPrices: {}, priceRange: null, hDelta: 0, horizons: [], smileDynamics: 'sticky-moneyness', volShift: 0 });
+    expect(hash).toBe('#/chart?v=1&e=bitcoin-above-on-october-20&e=bitcoin-hit-in-october&s=101-YES&s=102-NO&s=103-YES');
+  });
+
+  it('ignore other routes, other versions and links without an event', () => {
+    expect(decodeChartState('#/other?v=1&e=x')).toBeNull();
+    expect(decodeChartState('#/chart?v=2&e=bitcoin-above-on-october-20')).toBeNull();
+    expect(decodeChartState('#/chart?v=1&e=not%20a%20slug')).toBeNull();
+  });
+
+  it('drop malformed parts and clamp the sliders', () => {
+    const decoded = decodeChartState('#/chart?v=1&e=btc&s=101-YES*abc&s=102-MAYBE&s=103-NO*2u&t=f1.5&t=%2B6&t=bogus&lo=120000&hi=90000&h=0.9&vs=-1&d=sticky-nothing')!;
+    expect(decoded.selections).toEqual(['103-NO']);
+    expect(decoded.legSizes).toEqual({ '103-NO': { mode: 'usd', value: 2 } });
+    expect(decoded.horizons).toEqual([{ kind: 'offset', hours: 6 }]);
+    expect(decoded.priceRange).toBeNull();
+    expect(decoded.hDelta).toBe(0.2);
+    expect(decoded.volShift).toBe(-0.2);
+    expect(decoded.smileDynamics).toBe('sticky-moneyness');
+  });
+});
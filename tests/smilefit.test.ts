@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { priceOptionYes } from '../src/pricing/engine';
+import { fairValues, fitSmile, fittedIv, type SmileQuote } from '../src/pricing/smilefit';
+import { SPOT } from './fixtures';
+
+const TAU = 7 / 365.25;
+const H = 0.6;
+const smile = (m: number) => 0.5 - 0.3 * m + 2 * m * m;
+
+/** YES quotes a cent wide around the price at the given smile */
+function quotes(strikes: number[], shift: Record<number, number> = {}): SmileQuote[] {
+  return strikes.map((strikePrice) => {
+    const mid = priceOptionYes(SPOT, strikePrice, smile(Math.log(SPOT / strikePrice)), TAU, 'above', strikePrice > SPOT, H) + (shift[strikePrice] ?? 0);
+    return { id: String(strikePrice), strikePrice, bid: mid - 0.005, ask: mid + 0.005, mid };
+  });
+}
+
+const STRIKES = [94000, 96000, 98000, 100000, 102000, 104000, 106000];
+
+describe('fitSmile', () => {
+  it('recovers the quadratic smile the quotes were priced at', () => {
+    const fit = fitSmile(quotes(STRIKES), SPOT, TAU, 'above', H)!;
+    expect(fit.points).toBe(7);
+    expect(fit.coefficients[0]).toBeCloseTo(0.5, 4);
+    expect(fit.coefficients[1]).toBeCloseTo(-0.3, 3);
+    expect(fit.coefficients[2]).toBeCloseTo(2, 2);
+    expect(fit.rmse).toBeLessThan(1e-4);
+  });
+
+  it('holds the smile flat beyond the fitted strikes', () => {
+    const fit = fitSmile(quotes(STRIKES), SPOT, TAU, 'above', H)!;
+    expect(fit.minMoneyness).toBeCloseTo(Math.log(SPOT / 106000), 12);
+    expect(fittedIv(fit, -0.5)).toBe(fittedIv(fit, fit.minMoneyness));
+    expect(fittedIv(fit, 0.5)).toBe(fittedIv(fit, fit.maxMoneyness));
+  });
+
+  it('keeps a stale quote from bending the curve and flags it as rich', () => {
+    const stale = quotes(STRIKES, { 102000: 0.06 });
+    const fit = fitSmile(stale, SPOT, TAU, 'above', H)!;
+    const values = fairValues(stale, fit, SPOT, TAU, 'above', H);
+    expect(values.get('102000')!.richness).toBeGreaterThan(0.05);
+    expect(values.get('102000')!.sellEdge).toBeGreaterThan(0.045);
+    for (const strike of STRIKES.filter((k) => k !== 102000)) {
+      expect(Math.abs(values.get(String(strike))!.richness)).toBeLessThan(0.005);
+    }
+  });
+
+  it('falls back to a line or a constant on fewer than three strikes', () => {
+    const line = fitSmile(quotes([98000, 102000]), SPOT, TAU, 'above', H)!;
+    expect(line.coefficients[2]).toBe(0);
+    const flat = fitSmile(quotes([100000]), SPOT, TAU, 'above', H)!;
+    expect(flat.coefficients[0]).toBeCloseTo(0.5, 4);
+    expect(flat.coefficients.slice(1)).toEqual([0, 0]);
+    expect(fitSmile([], SPOT, TAU, 'above', H)).toBeNull();
+  });
+});
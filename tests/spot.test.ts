@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SPOT_PROVIDERS, subscribeSpot, type SpotStreamStatus } from '../src/api/spot';
+import type { SpotSource } from '../src/types';
+
+// A socket that never connects: it closes right after it is opened
+class ClosingSocket {
+  onopen: (() => void) | null = null;
+  onmessage: ((msg: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor() {
+    setTimeout(() => this.onclose?.(), 0);
+  }
+
+  send() {}
+  close() {}
+}
+
+describe('spot stream without any price', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('WebSocket', ClosingSocket);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    for (const provider of Object.values(SPOT_PROVIDERS)) {
+      vi.spyOn(provider, 'fetchPrice').mockRejectedValue(new Error('unreachable'));
+    }
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('stays failed after failAfterMs while the retries carry on', async () => {
+    const statuses: SpotStreamStatus[] = [];
+    const onPrice = vi.fn();
+    const unsubscribe = subscribeSpot(['binance', 'coinbase'], 'BTC', onPrice, (status) => statuses.push(status), { failAfterMs: 10000 });
+
+    await vi.advanceTimersByTimeAsync(9999);
+    expect(statuses).not.toContain('failed');
+    await vi.advanceTimersByTimeAsync(1);
+    expect(statuses[statuses.length - 1]).toBe('failed');
+
+    const reported = statuses.length;
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(statuses.length).toBe(reported);
+    expect(onPrice).not.toHaveBeenCalled();
+    unsubscribe();
+  });
+
+  it('leaves failed for the current status once a price gets through', async () => {
+    const fetchPrice = vi.spyOn(SPOT_PROVIDERS.binance, 'fetchPrice');
+    const statuses: SpotStreamStatus[] = [];
+    const onPrice = vi.fn();
+    const unsubscribe = subscribeSpot(['binance'], 'BTC', onPrice, (status) => statuses.push(status), { failAfterMs: 10000 });
+
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(statuses[statuses.length - 1]).toBe('failed');
+    // Three socket failures in, binance is polled every 5 s
+    fetchPrice.mockResolvedValue(104000);
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(onPrice).toHaveBeenCalledWith(104000, 'binance');
+    expect(statuses[statuses.length - 1]).toBe('polling');
+    unsubscribe();
+  });
+
+  it('does not report failed once a price has arrived', async () => {
+    vi.spyOn(SPOT_PROVIDERS.binance, 'fetchPrice').mockResolvedValue(105000);
+    const statuses: SpotStreamStatus[] = [];
+    const prices: [number, SpotSource][] = [];
+    const unsubscribe = subscribeSpot(['binance'], 'BTC', (price, source) => prices.push([price, source]), (status) => statuses.push(status), { failAfterMs: 10000 });
+
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(prices[0]).toEqual([105000, 'binance']);
+    expect(statuses).not.toContain('failed');
+    unsubscribe();
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { Strategy } from '../src/types';
+import { parseStrategies, serializeStrategies, strategyChartState } from '../src/api/strategies';
+import { decodeChartState, encodeChartState } from '../src/api/share';
+import { DEFAULT_HORIZONS } from '../src/pricing/horizons';
+
+const strategy: Strategy = {
+  id: 's1',
+  name: 'Call spread',
+  notes: '',
+  savedAt: 1760900000,
+  eventTitle: 'Bitcoin above ___ on October 20?',
+  slugs: ['bitcoin-above-on-october-20', 'bitcoin-above-on-october-27'],
+  legs: [
+    { eventSlug: 'bitcoin-above-on-october-20', marketId: '101', side: 'YES', label: '100,000', size: { mode: 'shares', value: 10 }, entryPrice: 0.62 },
+    { eventSlug: 'bitcoin-above-on-october-20', marketId: '102', side: 'YES', label: '105,000', size: { mode: 'shares', value: -10 }, entryPrice: 0.31 },
+    { eventSlug: 'bitcoin-above-on-october-20', marketId: '103', side: 'NO', label: '110,000', size: { mode: 'usd', value: 5 }, entryPrice: 0 },
+    { eventSlug: 'bitcoin-above-on-october-27', marketId: '201', side: 'NO', label: '95,000', size: { mode: 'shares', value: 4 }, entryPrice: 0.12 },
+  ],
+  priceRange: null,
+  hDelta: 0,
+  horizons: DEFAULT_HORIZONS,
+  smileDynamics: 'sticky-moneyness',
+  volShift: 0,
+};
+
+describe('reopening a strategy', () => {
+  it('carries each recorded fill price into the chart state', () => {
+    const [parsed] = parseStrategies(serializeStrategies([strategy]));
+    const state = strategyChartState(parsed);
+    expect(state.selections).toEqual(['101-YES', '102-YES', '103-NO']);
+    expect(state.linkedLegs).toEqual({ '201-NO': 4 });
+    // The unrecorded (0) price is left out, so that leg enters at the live quote
+    expect(state.entryPrices).toEqual({ '101-YES': 0.62, '102-YES': 0.31, '201-NO': 0.12 });
+  });
+
+  it('keeps the fill prices through a shared link', () => {
+    const state = strategyChartState(strategy);
+    const decoded = decodeChartState(encodeChartState(state));
+    expect(decoded?.entryPrices).toEqual(state.entryPrices);
+  });
+
+  it('drops malformed fill prices from a link', () => {
+    const decoded = decodeChartState('#/chart?v=1&e=bitcoin-above-on-october-20&s=101-YES&p=101-YES@1.5&p=101-NO@abc&p=102-YES@0.4');
+    expect(decoded?.entryPrices).toEqual({ '102-YES': 0.4 });
+  });
+});
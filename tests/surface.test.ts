@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import type { CostModel } from '../src/pricing/costs';
+import type { EventBook } from '../src/pricing/portfolio';
+import { computePortfolioPnlCurve } from '../src/pricing/portfolio';
+import { breakEvenContour, computePnlSurface, type PnlSurface } from '../src/pricing/surface';
+import { SPOT, leg } from './fixtures';
+
+const NOW = 1760000000;
+const EXPIRY = NOW + 7 * 86400;
+const costs: CostModel = { feeBps: 100, fixedCost: 0.5, slippage: false, onExit: true };
+
+const books: EventBook[] = [
+  { label: 'Oct 20', strikes: [leg(SPOT, { quantity: 10, entryPrice: 0.5, isUpBarrier: false })], optionType: 'above', expiryTs: EXPIRY },
+];
+
+describe('computePnlSurface', () => {
+  const gross = computePnlSurface(books, 90000, 110000, NOW, 0, null, 21, 8)!;
+  const net = computePnlSurface(books, 90000, 110000, NOW, 0, null, 21, 8, undefined, costs)!;
+
+  it('runs rows from now to expiry, ending on the settled step function', () => {
+    expect(gross.times[0]).toBe(NOW);
+    expect(gross.times[7]).toBe(EXPIRY);
+    expect(gross.taus[7]).toBe(0);
+    expect(gross.spots).toHaveLength(21);
+    expect(gross.pnl[7][0]).toBeCloseTo(-5, 10);
+    expect(gross.pnl[7][20]).toBeCloseTo(5, 10);
+    expect(gross.maxAbs).toBeCloseTo(5, 10);
+  });
+
+  it('is net of the cost model, cell for cell as the projection curves', () => {
+    for (const r of [0, 3, 7]) {
+      const curve = computePortfolioPnlCurve(books, 90000, 110000, net.times[r], 0, null, undefined, 21, costs);
+      expect(net.pnl[r]).toEqual(curve.map((p) => p.pnl));
+    }
+    // Entry: 10 × 1% × 0.5 in fees plus the fixed cost; a winning leg also pays to redeem
+    expect(net.pnl[7][0]).toBeCloseTo(-5 - 0.55, 10);
+    expect(net.pnl[7][20]).toBeCloseTo(5 - 0.55 - 0.5, 10);
+  });
+
+  it('returns null without legs or time left', () => {
+    expect(computePnlSurface([{ ...books[0], strikes: [] }], 90000, 110000, NOW)).toBeNull();
+    expect(computePnlSurface(books, 90000, 110000, EXPIRY)).toBeNull();
+  });
+});
+
+describe('breakEvenContour', () => {
+  const surface = (pnl: number[][]): PnlSurface => ({ spots: [], times: [], taus: [], pnl, maxAbs: 1 });
+
+  it('interpolates the zero crossing along each cell edge', () => {
+    const segments = breakEvenContour(surface([[-1, 3], [-3, 1]]));
+    expect(segments).toEqual([{ x1: 0.25, y1: 0, x2: 0.75, y2: 1 }]);
+  });
+
+  it('draws nothing on a grid that never changes sign', () => {
+    expect(breakEvenContour(surface([[1, 2], [3, 4]]))).toEqual([]);
+  });
+});
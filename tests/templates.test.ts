@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { buildTemplate, type TemplateParams } from '../src/pricing/templates';
+import { SPOT, market } from './fixtures';
+
+const markets = [90000, 95000, 100000, 105000, 110000].map((k) => market(String(k), k, 0.5));
+const params: TemplateParams = { centre: SPOT, width: 5000, count: 3, percent: 0.08, direction: 'up', fade: false, size: 10 };
+
+describe('buildTemplate on an "above" event', () => {
+  it('vertical: long the nearer strike, short the farther one, same side', () => {
+    expect(buildTemplate('vertical', params, markets, SPOT, 'above')).toEqual([
+      { marketId: '100000', side: 'YES', shares: 10 },
+      { marketId: '105000', side: 'YES', shares: -10 },
+    ]);
+    expect(buildTemplate('vertical', { ...params, direction: 'down' }, markets, SPOT, 'above')).toEqual([
+      { marketId: '100000', side: 'NO', shares: 10 },
+      { marketId: '95000', side: 'NO', shares: -10 },
+    ]);
+  });
+
+  it('range pays inside the wings and strangle outside them', () => {
+    expect(buildTemplate('range', params, markets, SPOT, 'above')).toEqual([
+      { marketId: '95000', side: 'YES', shares: 10 },
+      { marketId: '105000', side: 'NO', shares: 10 },
+    ]);
+    expect(buildTemplate('strangle', params, markets, SPOT, 'above')).toEqual([
+      { marketId: '95000', side: 'NO', shares: 10 },
+      { marketId: '105000', side: 'YES', shares: 10 },
+    ]);
+  });
+
+  it('ladder steps away from the centre for count rungs', () => {
+    expect(buildTemplate('ladder', params, markets, SPOT, 'above').map((l) => l.marketId)).toEqual(['100000', '105000', '110000']);
+    expect(buildTemplate('ladder', { ...params, direction: 'down', count: 2 }, markets, SPOT, 'above')).toEqual([
+      { marketId: '100000', side: 'NO', shares: 10 },
+      { marketId: '95000', side: 'NO', shares: 10 },
+    ]);
+  });
+
+  it('beyond buys the tails past ±percent, or their complements when fading', () => {
+    expect(buildTemplate('beyond', params, markets, SPOT, 'above')).toEqual([
+      { marketId: '90000', side: 'NO', shares: 10 },
+      { marketId: '110000', side: 'YES', shares: 10 },
+    ]);
+    expect(buildTemplate('beyond', { ...params, fade: true }, markets, SPOT, 'above').map((l) => l.side)).toEqual(['YES', 'NO']);
+  });
+});
+
+describe('buildTemplate on a "hit" event', () => {
+  it('takes each wing from its own side of spot', () => {
+    // The lower wing snaps to 100,000 (at spot, so a down barrier); the upper one only to strikes above spot
+    expect(buildTemplate('range', { ...params, width: 2000 }, markets, SPOT, 'hit')).toEqual([
+      { marketId: '100000', side: 'NO', shares: 10 },
+      { marketId: '105000', side: 'NO', shares: 10 },
+    ]);
+    expect(buildTemplate('strangle', params, markets, SPOT, 'hit').map((l) => l.side)).toEqual(['YES', 'YES']);
+  });
+
+  it('builds a down vertical from barriers below spot, on YES', () => {
+    expect(buildTemplate('vertical', { ...params, centre: 95000, direction: 'down' }, markets, SPOT, 'hit')).toEqual([
+      { marketId: '95000', side: 'YES', shares: 10 },
+      { marketId: '90000', side: 'YES', shares: -10 },
+    ]);
+  });
+
+  it('returns no legs when no strike fits', () => {
+    expect(buildTemplate('vertical', { ...params, centre: 110000 }, markets, SPOT, 'hit')).toEqual([]);
+    expect(buildTemplate('beyond', { ...params, percent: 0.5 }, markets, SPOT, 'above')).toEqual([]);
+  });
+});
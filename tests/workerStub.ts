@@ -0,0 +1,35 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+/** Replies to one worker route, given the request URL; null = no recorded response */
+export type StubRoute = (url: URL) => unknown;
+
+export interface WorkerStub {
+  url: string; // Origin to use as axios baseURL, e.g. http://127.0.0.1:51234
+  requests: URL[]; // Every request received, in order
+  close: () => Promise<void>;
+}
+
+/**
+ * Local stand-in for the Cloudflare worker: serves recorded JSON on the same
+ * /api/<service>/... paths the app calls, and a 404 like the worker for anything
+ * without a recorded response.
+ */
+export async function startWorkerStub(routes: Record<string, StubRoute>): Promise<WorkerStub> {
+  const requests: URL[] = [];
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    requests.push(url);
+    const route = routes[url.pathname];
+    const body = route ? route(url) : null;
+    res.writeHead(body === null ? 404 : 200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body ?? { error: 'Not found', path: url.pathname }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
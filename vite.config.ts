@@ -19,6 +19,26 @@ export default defineConfig({
         changeOrigin: true,
         rewrite: (path) => path.replace(/^\/api\/clob/, ''),
       },
+      '/api/data': {
+        target: 'https://data-api.polymarket.com',
+        changeOrigin: true,
+        rewrite: (path) => path.replace(/^\/api\/data/, ''),
+      },
+      '/api/binance': {
+        target: 'https://api.binance.com',
+        changeOrigin: true,
+        rewrite: (path) => path.replace(/^\/api\/binance/, ''),
+      },
+      '/api/coinbase': {
+        target: 'https://api.exchange.coinbase.com',
+        changeOrigin: true,
+        rewrite: (path) => path.replace(/^\/api\/coinbase/, ''),
+      },
+      '/api/kraken': {
+        target: 'https://api.kraken.com',
+        changeOrigin: true,
+        rewrite: (path) => path.replace(/^\/api\/kraken/, ''),
+      },
     },
   },
 })
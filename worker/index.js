@@ -1,15 +1,22 @@
 /**
- * Cloudflare Worker для проксирования запросов к API Polymarket и Binance
+ * Cloudflare Worker для проксирования запросов к API Polymarket и спотовых бирж
  * 
  * Маршруты:
  * - /api/gamma/* -> https://gamma-api.polymarket.com/*
  * - /api/clob/*  -> https://clob.polymarket.com/*
+ * - /api/data/*  -> https://data-api.polymarket.com/*
  * - /api/binance/* -> https://api.binance.com/*
+ * - /api/coinbase/* -> https://api.exchange.coinbase.com/*
+ * - /api/kraken/*  -> https://api.kraken.com/*
  */
 
 const ROUTES = {
   '/api/gamma': 'https://gamma-api.polymarket.com',
   '/api/clob': 'https://clob.polymarket.com',
+  '/api/data': 'https://data-api.polymarket.com',
+  '/api/binance': 'https://api.binance.com',
+  '/api/coinbase': 'https://api.exchange.coinbase.com',
+  '/api/kraken': 'https://api.kraken.com',
 };
 
 // CORS заголовки для ответов